@@ -0,0 +1,11 @@
+import { checkMigrations } from '../src/data/migrationFixtures'
+
+// Migrates every fixture in src/data/migrationFixtures.ts and fails if any differs
+// from what it is expected to become. Run with `bun run check-migrations`.
+const results = checkMigrations()
+const failed = results.filter(result => !result.ok)
+if (failed.length > 0) {
+  failed.forEach(result => console.error(`✗ ${result.name}: ${result.message}`))
+  process.exit(1)
+}
+console.log(`All ${results.length} migration checks passed`)
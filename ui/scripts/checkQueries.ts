@@ -0,0 +1,78 @@
+import { queryEngine } from '../src/services/queryEngine'
+import { Table } from '../src/models/types'
+
+// Runs queries against small tables and fails if a result differs from what
+// it should be. Run with `bun run check-queries`.
+
+const table = (title: string, columns: string[], rows: Record<string, any>[]): Table => ({
+  id: title,
+  projectId: 'check',
+  title,
+  columns: columns.map(name => ({ id: name, name, type: 'number' })),
+  rows,
+  primaryKey: [],
+  uniqueConstraints: [],
+  indexes: [],
+  createdAt: new Date(0),
+  updatedAt: new Date(0)
+})
+
+queryEngine.setTables([
+  table('empty', ['amount'], []),
+  table('orders', ['region', 'amount'], [
+    { region: 1, amount: 10 },
+    { region: 1, amount: 20 },
+    { region: 2, amount: null }
+  ])
+])
+queryEngine.setViews([])
+queryEngine.setFunctions([])
+
+const cases: { name: string, query: string, rows: Record<string, any>[] }[] = [
+  {
+    name: 'Aggregates of an empty table',
+    query: 'SELECT COUNT(*) AS n, COUNT(amount) AS c, SUM(amount) AS s, AVG(amount) AS a, MIN(amount) AS lo, MAX(amount) AS hi FROM empty',
+    rows: [{ n: 0, c: 0, s: null, a: null, lo: null, hi: null }]
+  },
+  {
+    name: 'Aggregates when WHERE keeps no rows',
+    query: 'SELECT COUNT(*) AS n, SUM(amount) AS s, AVG(amount) AS a FROM orders WHERE amount > 100',
+    rows: [{ n: 0, s: null, a: null }]
+  },
+  {
+    name: 'Aggregates of only NULLs',
+    query: 'SELECT COUNT(*) AS n, COUNT(amount) AS c, SUM(amount) AS s, AVG(amount) AS a FROM orders WHERE region = 2',
+    rows: [{ n: 1, c: 0, s: null, a: null }]
+  },
+  {
+    name: 'Aggregates skip NULLs',
+    query: 'SELECT COUNT(amount) AS c, SUM(amount) AS s, AVG(amount) AS a, MIN(amount) AS lo, MAX(amount) AS hi FROM orders',
+    rows: [{ c: 2, s: 30, a: 15, lo: 10, hi: 20 }]
+  },
+  {
+    name: 'GROUP BY of an empty table has no groups',
+    query: 'SELECT amount, COUNT(*) AS n FROM empty GROUP BY amount',
+    rows: []
+  },
+  {
+    name: 'Aggregates per group',
+    query: 'SELECT region, SUM(amount) AS s, COUNT(*) AS n FROM orders GROUP BY region ORDER BY region',
+    rows: [{ region: 1, s: 30, n: 2 }, { region: 2, s: null, n: 1 }]
+  }
+]
+
+const failures: string[] = []
+for (const { name, query, rows } of cases) {
+  const result = await queryEngine.executeQuery(query)
+  if (result.error) {
+    failures.push(`${name}: ${result.error}`)
+  } else if (JSON.stringify(result.rows) !== JSON.stringify(rows)) {
+    failures.push(`${name}: got ${JSON.stringify(result.rows)}, expected ${JSON.stringify(rows)}`)
+  }
+}
+
+if (failures.length > 0) {
+  failures.forEach(failure => console.error(`✗ ${failure}`))
+  process.exit(1)
+}
+console.log(`All ${cases.length} query checks passed`)
@@ -0,0 +1,107 @@
+import { SecureFunctionEngine } from '../src/services/secureFunctionEngine'
+import { FunctionCancelledError, FunctionLimitError, FunctionTimeoutError } from '../src/services/sandbox/limits'
+import { AppFunction, FunctionLimits } from '../src/models/types'
+
+// Runs functions in the sandbox worker and fails if a timeout, limit or
+// lockdown doesn't hold. Run with `bun run check-sandbox`.
+
+const preload = new URL('./sandboxPreload.ts', import.meta.url).href
+const BunWorker = Worker
+globalThis.Worker = class extends BunWorker {
+  constructor(url: string | URL, options?: WorkerOptions) {
+    super(url, { ...options, preload: [preload] } as WorkerOptions)
+  }
+}
+
+const func = (name: string, body: string, limits?: FunctionLimits, params: string[] = []): AppFunction => ({
+  id: name,
+  projectId: 'check',
+  name,
+  params: params.map(param => ({ name: param, type: 'any' })),
+  returnType: 'any',
+  body,
+  limits
+})
+
+const engine = new SecureFunctionEngine()
+engine.setFunctions([
+  func('answer', 'return 42'),
+  func('spin', 'while (true) {} return 1', { timeoutMs: 300 }),
+  func('leaveTimer', 'setTimeout(() => { while (true) {} }, 0); return 1', { timeoutMs: 300 }),
+  func('afterTimer', 'return 2', { timeoutMs: 300 }),
+  func('wait', 'await new Promise(resolve => setTimeout(resolve, 5000)); return 1'),
+  func('bigResult', 'return "x".repeat(2 * 1024 * 1024)', { maxOutputKb: 1024 }),
+  func('smallJson', 'class Big { constructor() { this.data = "x".repeat(2 * 1024 * 1024) } toJSON() { return 0 } } return new Big()', { maxOutputKb: 1024 }),
+  func('bigMap', 'return new Map([[1, "x".repeat(2 * 1024 * 1024)]])', { maxOutputKb: 1024 }),
+  func('bigArgument', 'return 1', { maxDataMb: 1 }, ['value']),
+  func('replaceStringify', 'try { JSON.stringify = () => "" } catch { return "refused" } return "replaced"'),
+  func('network', 'try { await fetch("https://example.com") } catch (error) { return error.message } return "reached"')
+])
+
+const failures: string[] = []
+let count = 0
+
+// A check that doesn't settle within its time fails rather than hanging the script
+const check = async (name: string, run: () => Promise<void>) => {
+  count++
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('did not finish within 10 s')), 10000)
+  })
+  try {
+    await Promise.race([run(), deadline])
+  } catch (error) {
+    failures.push(`${name}: ${(error as Error).message}`)
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+const expectValue = async (name: string, args: any[], expected: any) => {
+  const value = await engine.executeFunction(name, args)
+  if (value !== expected) throw new Error(`returned ${JSON.stringify(value)}, expected ${JSON.stringify(expected)}`)
+}
+
+const expectError = async (run: () => Promise<any>, type: Function, limit?: string) => {
+  try {
+    await run()
+  } catch (error) {
+    if (!(error instanceof type)) throw new Error(`failed with ${(error as Error).name}: ${(error as Error).message}`)
+    if (limit && (error as FunctionLimitError).limit !== limit) throw new Error(`went over its ${(error as FunctionLimitError).limit} limit, expected ${limit}`)
+    return
+  }
+  throw new Error(`succeeded, expected ${type.name}`)
+}
+
+await check('A call returns its value', () => expectValue('answer', [], 42))
+await check('A call running past its timeout is stopped', () => expectError(() => engine.executeFunction('spin', []), FunctionTimeoutError))
+await check('Calls run again after a timeout', () => expectValue('answer', [], 42))
+await check('A busy timer left behind times out the next call', async () => {
+  await expectValue('leaveTimer', [], 1)
+  await new Promise(resolve => setTimeout(resolve, 50))
+  await expectError(() => engine.executeFunction('afterTimer', []), FunctionTimeoutError)
+})
+await check('Calls run again after a timer was left behind', () => expectValue('afterTimer', [], 2))
+await check('A cancelled run stops', async () => {
+  const controller = new AbortController()
+  const running = engine.executeFunction('wait', [], { signal: controller.signal })
+  setTimeout(() => controller.abort(), 50)
+  await expectError(() => running, FunctionCancelledError)
+})
+await check('A result over the output limit fails', () => expectError(() => engine.executeFunction('bigResult', []), FunctionLimitError, 'output'))
+await check('A result with a small toJSON is measured as copied', () => expectError(() => engine.executeFunction('smallJson', []), FunctionLimitError, 'output'))
+await check('A map is measured with its contents', () => expectError(() => engine.executeFunction('bigMap', []), FunctionLimitError, 'output'))
+await check('An argument over the data limit fails', () => expectError(() => engine.executeFunction('bigArgument', ['x'.repeat(2 * 1024 * 1024)]), FunctionLimitError, 'data'))
+await check('Built-ins cannot be replaced', () => expectValue('replaceStringify', [], 'refused'))
+await check('Limits still hold after a call tried to replace a built-in', () => expectError(() => engine.executeFunction('bigResult', []), FunctionLimitError, 'output'))
+await check('Functions have no network', async () => {
+  const message = await engine.executeFunction('network', [])
+  if (!String(message).includes('not available')) throw new Error(`fetch gave ${JSON.stringify(message)}`)
+})
+
+if (failures.length > 0) {
+  failures.forEach(failure => console.error(`✗ ${failure}`))
+  process.exit(1)
+}
+console.log(`All ${count} sandbox checks passed`)
+process.exit(0)
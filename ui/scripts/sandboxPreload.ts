@@ -0,0 +1,4 @@
+// Loaded into the sandbox worker by checkSandbox.ts. Bun applies no
+// Content-Security-Policy, so this shuts the worker's network the way the
+// header does in the browser; without it the worker runs no functions.
+globalThis.fetch = () => Promise.reject(new TypeError('Blocked by the sandbox Content-Security-Policy'))
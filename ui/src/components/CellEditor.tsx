@@ -1,14 +1,19 @@
-import { createSignal, onMount } from 'solid-js'
+import { createSignal, createUniqueId, onMount, For, Show } from 'solid-js'
 import type { Component } from 'solid-js'
+import type { LookupOption } from '../services/foreignKeys'
 
 interface CellEditorProps {
   initialValue: any
+  options?: LookupOption[]  // values to pick from, for foreign key columns
   onSave: (value: string) => void
   onCancel: () => void
 }
 
+const MAX_OPTIONS = 1000
+
 const CellEditor: Component<CellEditorProps> = (props) => {
   const [value, setValue] = createSignal(String(props.initialValue ?? ''))
+  const listId = createUniqueId()
   let inputRef: HTMLInputElement
   let isCommitted = false
 
@@ -37,33 +42,43 @@ const CellEditor: Component<CellEditorProps> = (props) => {
   }
 
   return (
-    <input
-      ref={(el) => {
-        inputRef = el
-        // Focus immediately when the element is created
-        if (el) {
-          el.focus()
-          el.select()
-        }
-      }}
-      type="text"
-      class="w-full px-1 py-0.5 border rounded bg-white"
-      value={value()}
-      onInput={(e) => setValue(e.currentTarget.value)}
-      onBlur={handleCommit}
-      onKeyDown={(e) => {
-        if (e.key === 'Enter') {
-          e.preventDefault()
-          handleCommit()
-        } else if (e.key === 'Escape') {
-          e.preventDefault()
-          handleCancel()
-        } else if (e.key === 'Tab') {
-          // Allow Tab to trigger blur naturally, which will save
-          // Don't prevent default so tab navigation works
-        }
-      }}
-    />
+    <>
+      <input
+        ref={(el) => {
+          inputRef = el
+          // Focus immediately when the element is created
+          if (el) {
+            el.focus()
+            el.select()
+          }
+        }}
+        type="text"
+        list={props.options ? listId : undefined}
+        class="w-full px-1 py-0.5 border rounded bg-white"
+        value={value()}
+        onInput={(e) => setValue(e.currentTarget.value)}
+        onBlur={handleCommit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault()
+            handleCommit()
+          } else if (e.key === 'Escape') {
+            e.preventDefault()
+            handleCancel()
+          } else if (e.key === 'Tab') {
+            // Allow Tab to trigger blur naturally, which will save
+            // Don't prevent default so tab navigation works
+          }
+        }}
+      />
+      <Show when={props.options}>
+        <datalist id={listId}>
+          <For each={props.options!.slice(0, MAX_OPTIONS)}>
+            {(option) => <option value={String(option.value)}>{option.label}</option>}
+          </For>
+        </datalist>
+      </Show>
+    </>
   )
 }
 
@@ -0,0 +1,36 @@
+import { Component, For, Show } from 'solid-js'
+import { ConstraintViolation } from '../services/constraints'
+
+interface ConstraintViolationListProps {
+  violations: ConstraintViolation[]
+  rowLabel?: string  // what row numbers refer to, e.g. "Row" or "Line"
+  rowOffset?: number // added to row indexes to get the number shown
+}
+
+const MAX_SHOWN = 100
+
+const ConstraintViolationList: Component<ConstraintViolationListProps> = (props) => {
+  return (
+    <div class="text-sm">
+      <ul class="max-h-48 overflow-y-auto space-y-0.5">
+        <For each={props.violations.slice(0, MAX_SHOWN)}>
+          {(violation) => (
+            <li>
+              <span class="font-medium">
+                {props.rowLabel || 'Row'} {violation.row + (props.rowOffset ?? 1)}:
+              </span>{' '}
+              {violation.message}
+            </li>
+          )}
+        </For>
+      </ul>
+      <Show when={props.violations.length > MAX_SHOWN}>
+        <p class="mt-1 text-xs opacity-75">
+          and {props.violations.length - MAX_SHOWN} more
+        </p>
+      </Show>
+    </div>
+  )
+}
+
+export default ConstraintViolationList
@@ -0,0 +1,125 @@
+import { Component, createSignal, createEffect, createMemo, Show } from 'solid-js'
+import { Table } from '../models/types'
+import { ImportMode, mergeRows } from '../services/constraints'
+import ConstraintViolationList from './ConstraintViolationList'
+import { CommonDialog, Button } from './common'
+
+export interface CsvImport {
+  fileName: string
+  headers: string[]
+  rows: Record<string, any>[]
+}
+
+interface CsvImportDialogProps {
+  table: Table
+  data: CsvImport | null
+  onClose: () => void
+  onImport: (rows: Record<string, any>[]) => void
+}
+
+const MODES: { value: ImportMode, label: string, description: string }[] = [
+  { value: 'reject', label: 'Reject', description: 'Import nothing if any row breaks a key constraint' },
+  { value: 'skip', label: 'Skip', description: 'Leave out rows that break a key constraint' },
+  { value: 'upsert', label: 'Upsert', description: 'Update the existing row with the same key' }
+]
+
+const CsvImportDialog: Component<CsvImportDialogProps> = (props) => {
+  const [mode, setMode] = createSignal<ImportMode>('reject')
+
+  createEffect(() => {
+    if (props.data) setMode('reject')
+  })
+
+  const result = createMemo(() => props.data ? mergeRows(props.table, props.data.rows, mode()) : null)
+  const ignoredHeaders = () => props.data?.headers.filter(h => !props.table.columns.some(c => c.name === h)) || []
+  const missingColumns = () => props.table.columns.filter(c => !props.data?.headers.includes(c.name))
+  const blocked = () => mode() === 'reject' && (result()?.violations.length || 0) > 0
+
+  // Columns missing from the file get their defaults in added rows
+  const handleImport = () => {
+    const merged = result()
+    if (!merged || blocked()) return
+    props.onImport(merged.rows.map(row => {
+      const missing = props.table.columns.filter(c => !(c.name in row))
+      if (missing.length === 0) return row
+      const filled = { ...row }
+      missing.forEach(c => { filled[c.name] = c.defaultValue ?? null })
+      return filled
+    }))
+  }
+
+  const footer = (
+    <div class="flex justify-end gap-2">
+      <Button variant="ghost" onClick={props.onClose}>
+        Cancel
+      </Button>
+      <Button variant="primary" onClick={handleImport} disabled={blocked()}>
+        Import
+      </Button>
+    </div>
+  )
+
+  return (
+    <CommonDialog
+      isOpen={props.data !== null}
+      onClose={props.onClose}
+      title={`Import CSV into ${props.table.title}`}
+      maxWidth="max-w-lg"
+      footer={footer}
+    >
+      <Show when={props.data && result()}>
+        <div class="space-y-4 text-sm">
+          <p class="text-gray-600">
+            <span class="font-medium text-gray-900">{props.data!.fileName}</span>
+            {' '}has {props.data!.rows.length} rows
+          </p>
+
+          <Show when={ignoredHeaders().length > 0 || missingColumns().length > 0}>
+            <ul class="p-3 bg-amber-50 border border-amber-200 rounded text-amber-800 space-y-1">
+              <Show when={ignoredHeaders().length > 0}>
+                <li>Not in this table, ignored: {ignoredHeaders().join(', ')}</li>
+              </Show>
+              <Show when={missingColumns().length > 0}>
+                <li>Not in the file, left at their defaults: {missingColumns().map(c => c.name).join(', ')}</li>
+              </Show>
+            </ul>
+          </Show>
+
+          <div class="space-y-2">
+            <div class="font-medium text-gray-700">Rows with a key that is already taken</div>
+            {MODES.map(option => (
+              <label class="flex items-start gap-2">
+                <input
+                  type="radio"
+                  class="mt-1"
+                  checked={mode() === option.value}
+                  onChange={() => setMode(option.value)}
+                />
+                <span>
+                  <span class="font-medium">{option.label}</span>
+                  <span class="text-gray-600"> — {option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <p class="text-gray-600">
+            {blocked()
+              ? 'Nothing will be imported.'
+              : `${result()!.inserted} rows will be added, ${result()!.updated} updated` +
+                (result()!.violations.length > 0 ? ` and ${result()!.violations.length} skipped.` : '.')}
+          </p>
+
+          <Show when={result()!.violations.length > 0}>
+            <div class="p-3 bg-red-50 border border-red-200 rounded text-red-700">
+              {/* Line 1 of the file is the header */}
+              <ConstraintViolationList violations={result()!.violations} rowLabel="Line" rowOffset={2} />
+            </div>
+          </Show>
+        </div>
+      </Show>
+    </CommonDialog>
+  )
+}
+
+export default CsvImportDialog
@@ -1,10 +1,38 @@
-import { Component, For, createSignal, Show } from 'solid-js'
-import { AppFunction, FunctionParam, ParamType, Table } from '../models/types'
+import { Component, For, createMemo, createSignal, Show, onCleanup } from 'solid-js'
+import { AppFunction, FunctionLimits, FunctionParam, Layout, ParamType, Table, View } from '../models/types'
 import { secureFunctionEngine } from '../services/secureFunctionEngine'
+import { queryEngine } from '../services/queryEngine'
+import { MAX_CALL_DEPTH, StopReason, resolveLimits, stopReason } from '../services/sandbox/limits'
+import { functionUsage } from '../services/functionGraph'
 
 interface FunctionEditorProps {
   function: AppFunction
   onUpdate: (func: AppFunction) => void
+  tables?: Table[]        // what tests read with tables.get and views.run
+  views?: View[]
+  functions?: AppFunction[]
+  layouts?: Layout[]      // with views and functions, where the function is used
+  projectLimits?: FunctionLimits
+  onSelect?: (id: string, type: 'view' | 'function' | 'layout') => void
+  onUpdateProjectLimits?: (limits: FunctionLimits | undefined) => void
+}
+
+const LIMIT_FIELDS: { key: keyof FunctionLimits, label: string }[] = [
+  { key: 'timeoutMs', label: 'Timeout (ms)' },
+  { key: 'maxDataMb', label: 'Data in and out (MB)' },
+  { key: 'maxOutputKb', label: 'Output (KB)' }
+]
+
+// Limits with one field set from an input, or cleared when the input is empty
+const withLimit = (limits: FunctionLimits | undefined, key: keyof FunctionLimits, text: string): FunctionLimits | undefined => {
+  const updated = { ...limits }
+  const value = Number(text)
+  if (text.trim() === '' || !(value > 0)) {
+    delete updated[key]
+  } else {
+    updated[key] = value
+  }
+  return Object.keys(updated).length > 0 ? updated : undefined
 }
 
 const FunctionEditor: Component<FunctionEditorProps> = (props) => {
@@ -14,9 +42,20 @@ const FunctionEditor: Component<FunctionEditorProps> = (props) => {
   const [showAddParam, setShowAddParam] = createSignal(false)
   const [testResult, setTestResult] = createSignal<any>(null)
   const [testError, setTestError] = createSignal<string>('')
+  const [testStopped, setTestStopped] = createSignal<StopReason | undefined>()
+  const [testRun, setTestRun] = createSignal<AbortController | null>(null)
+  const [showProjectLimits, setShowProjectLimits] = createSignal(false)
   const [consoleOutput, setConsoleOutput] = createSignal<string[]>([])
   const [showTest, setShowTest] = createSignal(false)
 
+  onCleanup(() => testRun()?.abort())
+
+  const usage = createMemo(() => functionUsage(props.function, {
+    functions: props.functions ?? [],
+    views: props.views ?? [],
+    layouts: props.layouts ?? []
+  }))
+
   const paramTypes: ParamType[] = [
     'string', 'number', 'boolean', 'null', 'object', 'array',
     'table', 'view', 'rows', 'columns', 'any'
@@ -39,7 +78,10 @@ const FunctionEditor: Component<FunctionEditorProps> = (props) => {
     return colors[type] || 'bg-gray-100 text-gray-700'
   }
 
-  const testFunction = () => {
+  const testFunction = async () => {
+    testRun()?.abort()
+    const run = new AbortController()
+    setTestRun(run)
     try {
       secureFunctionEngine.clearConsoleOutput()
       
@@ -57,24 +99,63 @@ const FunctionEditor: Component<FunctionEditorProps> = (props) => {
         }
       })
       
-      const result = secureFunctionEngine.execute(
+      const tables = props.tables ?? []
+      const views = props.views ?? []
+      const functions = props.functions ?? [props.function]
+      queryEngine.setTables(tables)
+      queryEngine.setViews(views)
+      queryEngine.setFunctions(functions)
+
+      const result = await secureFunctionEngine.execute(
         props.function,
         testArgs,
-        [], // tables
-        [], // views
-        [] // functions
+        tables,
+        views,
+        functions,
+        { signal: run.signal, data: queryEngine }
       )
+      if (testRun() !== run) return
       
       setTestResult(result)
       setTestError('')
+      setTestStopped(undefined)
       setConsoleOutput(secureFunctionEngine.getConsoleOutput())
     } catch (error) {
+      // A newer test cancelled this one
+      if (testRun() !== run) return
       setTestError(error.message)
+      setTestStopped(stopReason(error))
       setTestResult(null)
       setConsoleOutput(secureFunctionEngine.getConsoleOutput())
+    } finally {
+      if (testRun() === run) setTestRun(null)
     }
   }
 
+  const limitFields = (
+    limits: FunctionLimits | undefined,
+    fallback: Required<FunctionLimits>,
+    onChange: (limits: FunctionLimits | undefined) => void
+  ) => (
+    <div class="grid grid-cols-3 gap-3">
+      <For each={LIMIT_FIELDS}>
+        {(field) => (
+          <div>
+            <label class="block text-xs text-gray-600 mb-1">{field.label}</label>
+            <input
+              type="number"
+              min="1"
+              class="w-full px-3 py-2 border rounded text-sm"
+              value={limits?.[field.key] ?? ''}
+              placeholder={String(fallback[field.key])}
+              onChange={(e) => onChange(withLimit(limits, field.key, e.currentTarget.value))}
+            />
+          </div>
+        )}
+      </For>
+    </div>
+  )
+
   const addParameter = () => {
     if (!newParamName().trim()) return
     
@@ -105,6 +186,22 @@ const FunctionEditor: Component<FunctionEditorProps> = (props) => {
     props.onUpdate({ ...props.function, params: newParams })
   }
 
+  // Names of functions or titles of views and layouts, which open them when clicked
+  const itemLinks = (items: { id: string, name?: string, title?: string }[], type: 'view' | 'function' | 'layout') => (
+    <For each={items}>
+      {(item, index) => (
+        <>
+          {index() > 0 && ', '}
+          <Show when={props.onSelect} fallback={<span class="font-mono">{item.name ?? item.title}</span>}>
+            <button class="font-mono text-blue-600 hover:underline" onClick={() => props.onSelect?.(item.id, type)}>
+              {item.name ?? item.title}
+            </button>
+          </Show>
+        </>
+      )}
+    </For>
+  )
+
   const getFunctionSignature = () => {
     const params = props.function.params
       .map(p => `${p.name}: ${p.type}`)
@@ -264,30 +361,124 @@ const FunctionEditor: Component<FunctionEditorProps> = (props) => {
         <textarea
           class="w-full h-64 px-3 py-2 border rounded font-mono text-sm bg-gray-50"
           value={props.function.body}
-          placeholder="// Available variables: All parameters by name&#10;// For table/view params: .rows, .columns properties&#10;// Return the computed value&#10;&#10;return param1 + param2"
+          placeholder="// Available variables: All parameters by name&#10;// For table/view params: .rows, .columns properties&#10;// Read data by name: await tables.get('orders'), await views.run('totals')&#10;// Return the computed value&#10;&#10;return param1 + param2"
           onInput={(e) => props.onUpdate({ ...props.function, body: e.target.value })}
         />
       </div>
 
+      <div class="mb-6">
+        <label class="block text-sm font-medium mb-2">Dependencies</label>
+        <div class="border rounded p-3 space-y-1 text-sm">
+          <div>
+            <span class="text-gray-600">Uses: </span>
+            <Show when={usage().uses.length > 0} fallback={<span class="text-gray-400">no other functions</span>}>
+              {itemLinks(usage().uses, 'function')}
+            </Show>
+          </div>
+          <div>
+            <span class="text-gray-600">Used by: </span>
+            <Show
+              when={usage().usedBy.length + usage().views.length + usage().layouts.length > 0}
+              fallback={<span class="text-gray-400">nothing</span>}
+            >
+              <Show when={usage().usedBy.length > 0}>
+                <div class="ml-4">Functions: {itemLinks(usage().usedBy, 'function')}</div>
+              </Show>
+              <Show when={usage().views.length > 0}>
+                <div class="ml-4">Views: {itemLinks(usage().views, 'view')}</div>
+              </Show>
+              <Show when={usage().layouts.length > 0}>
+                <div class="ml-4">Layouts: {itemLinks(usage().layouts, 'layout')}</div>
+              </Show>
+            </Show>
+          </div>
+          <Show when={usage().cycle}>
+            {(cycle) => (
+              <div class="text-amber-700">
+                Calls itself through <span class="font-mono">{cycle().join(' → ')}</span>. Calls nested more than {MAX_CALL_DEPTH} deep are stopped with an error.
+              </div>
+            )}
+          </Show>
+          <Show when={usage().uncallable}>
+            {(reason) => (
+              <div class="text-amber-700">Other functions can't call this one by name: {reason()}.</div>
+            )}
+          </Show>
+        </div>
+      </div>
+
+      <div class="mb-6">
+        <div class="flex items-center justify-between mb-2">
+          <label class="block text-sm font-medium">Limits</label>
+          <Show when={props.onUpdateProjectLimits}>
+            <button
+              class="text-sm text-blue-600 hover:text-blue-700"
+              onClick={() => setShowProjectLimits(!showProjectLimits())}
+            >
+              {showProjectLimits() ? 'Hide project limits' : 'Project limits'}
+            </button>
+          </Show>
+        </div>
+        {limitFields(
+          props.function.limits,
+          resolveLimits(undefined, props.projectLimits),
+          (limits) => props.onUpdate({ ...props.function, limits })
+        )}
+        <div class="text-xs text-gray-500 mt-1">
+          Empty fields use the project's limits. A call running past its timeout is stopped.
+        </div>
+        <Show when={showProjectLimits()}>
+          <div class="mt-3 p-3 border rounded bg-gray-50">
+            <div class="text-xs font-medium text-gray-700 mb-2">Limits for every function in this project</div>
+            {limitFields(props.projectLimits, resolveLimits(), (limits) => props.onUpdateProjectLimits?.(limits))}
+          </div>
+        </Show>
+      </div>
+
       <div class="mb-6">
         <div class="flex items-center justify-between mb-2">
           <label class="block text-sm font-medium">Test Function</label>
-          <button
-            class="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
-            onClick={() => {
-              setShowTest(!showTest())
-              if (!showTest()) testFunction()
-            }}
-          >
-            {showTest() ? 'Hide Test' : 'Run Test'}
-          </button>
+          <div class="flex gap-2">
+            <Show when={testRun()}>
+              <button
+                class="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                onClick={() => testRun()?.abort()}
+              >
+                Cancel
+              </button>
+            </Show>
+            <button
+              class="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+              onClick={() => {
+                setShowTest(!showTest())
+                if (showTest()) {
+                  testFunction()
+                } else {
+                  testRun()?.abort()
+                }
+              }}
+            >
+              {showTest() ? 'Hide Test' : 'Run Test'}
+            </button>
+          </div>
         </div>
         
         {showTest() && (
           <div class="border rounded p-4 space-y-3">
-            {testError() ? (
+            {testRun() ? (
+              <div class="text-sm text-gray-500">Running...</div>
+            ) : testStopped() === 'timeout' ? (
+              <div class="bg-amber-50 border border-amber-200 rounded p-3">
+                <div class="text-sm font-medium text-amber-900">Timed out:</div>
+                <div class="text-sm text-amber-700 font-mono">{testError()}</div>
+              </div>
+            ) : testStopped() === 'cancelled' ? (
+              <div class="bg-gray-50 border border-gray-200 rounded p-3 text-sm text-gray-700">
+                Test cancelled
+              </div>
+            ) : testError() ? (
               <div class="bg-red-50 border border-red-200 rounded p-3">
-                <div class="text-sm font-medium text-red-900">Error:</div>
+                <div class="text-sm font-medium text-red-900">{testStopped() === 'limit' ? 'Limit exceeded:' : 'Error:'}</div>
                 <div class="text-sm text-red-700 font-mono">{testError()}</div>
               </div>
             ) : testResult() !== null && (
@@ -323,9 +514,11 @@ const FunctionEditor: Component<FunctionEditorProps> = (props) => {
       <div class="bg-blue-50 border border-blue-200 rounded p-4">
         <h3 class="font-medium text-blue-900 mb-2">Usage Examples</h3>
         <div class="text-sm text-blue-800 space-y-1 font-mono">
-          <div>// In Views: SELECT {props.function.name}(column1, column2) FROM table</div>
+          <div>// In Views: SELECT FN.{props.function.name}(column1, column2) FROM table</div>
           <div>// In Layouts: ={props.function.name}(TableA, ViewB.rows)</div>
-          <div>// With tables: {props.function.name}(myTable).rows[0].columnName</div>
+          <div>// Helpers: max(rows, 'amount'), join(orders, customers, 'customer_id', 'id')</div>
+          <div>// Read data: const {'{'} rows {'}'} = await tables.get('orders')</div>
+          <div>// Other functions: const net = await {props.function.name}(amount, 10)</div>
           <div>// Debug: console.log('value:', myVariable)</div>
         </div>
       </div>
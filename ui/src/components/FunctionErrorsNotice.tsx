@@ -0,0 +1,30 @@
+import { Component, For, Show } from 'solid-js'
+import { QueryResult } from '../services/queryEngine'
+
+interface FunctionErrorsNoticeProps {
+  result: QueryResult
+}
+
+const MAX_SHOWN = 5
+
+// FN calls that failed while the query still ran, their values being NULL
+const FunctionErrorsNotice: Component<FunctionErrorsNoticeProps> = (props) => {
+  const errors = () => props.result.functionErrors || []
+  return (
+    <Show when={errors().length > 0}>
+      <div class="px-4 py-2 text-sm text-amber-700 bg-amber-50 border-b">
+        <span class="font-semibold">Some FN calls failed and gave NULL:</span>
+        <ul class="mt-1 space-y-0.5">
+          <For each={errors().slice(0, MAX_SHOWN)}>
+            {(error) => <li class="font-mono text-xs">{error}</li>}
+          </For>
+        </ul>
+        <Show when={errors().length > MAX_SHOWN}>
+          <div class="text-xs mt-1">and {errors().length - MAX_SHOWN} more</div>
+        </Show>
+      </div>
+    </Show>
+  )
+}
+
+export default FunctionErrorsNotice
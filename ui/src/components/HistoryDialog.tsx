@@ -0,0 +1,336 @@
+import { Component, createSignal, createEffect, createMemo, createResource, Show, For } from 'solid-js'
+import { ProjectData, Snapshot, SnapshotChange, Table } from '../models/types'
+import { snapshots, diffTables } from '../services/snapshots'
+import { Autosave } from '../services/autosave'
+import { CommonDialog, Button } from './common'
+
+interface HistoryDialogProps {
+  isOpen: boolean
+  projectId: string
+  current: ProjectData
+  autosave: Autosave
+  onClose: () => void
+  onRestore: (data: ProjectData) => void
+}
+
+const MAX_DIFF_ROWS = 200
+
+const KIND_LABELS: Record<SnapshotChange['kind'], string> = {
+  tables: 'Table',
+  views: 'View',
+  functions: 'Function',
+  layouts: 'Layout'
+}
+
+const formatTime = (date: Date) => new Date(date).toLocaleString()
+
+const formatCell = (value: any) =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+const HistoryDialog: Component<HistoryDialogProps> = (props) => {
+  const [history, setHistory] = createSignal<Snapshot[]>([])
+  const [selectedId, setSelectedId] = createSignal<string | null>(null)
+  const [snapshotName, setSnapshotName] = createSignal('')
+  const [compareTableId, setCompareTableId] = createSignal('')
+  const [compareWith, setCompareWith] = createSignal('current')  // snapshot id or 'current'
+  const [error, setError] = createSignal<string | null>(null)
+
+  const selected = () => history().find(s => s.id === selectedId()) || null
+
+  const refresh = async () => {
+    try {
+      const list = await snapshots.list(props.projectId)
+      setHistory(list)
+      if (!list.some(s => s.id === selectedId())) setSelectedId(list[0]?.id || null)
+    } catch (err) {
+      setError(`Failed to load history: ${(err as Error).message}`)
+    }
+  }
+
+  createEffect(() => {
+    if (props.isOpen) refresh()
+  })
+
+  // Stored state first, so snapshots include the latest edits
+  const takeSnapshot = async (options: { name?: string, automatic?: boolean }) => {
+    await props.autosave.flush()
+    return snapshots.create(props.projectId, options)
+  }
+
+  const handleCreate = async () => {
+    try {
+      const snapshot = await takeSnapshot({ name: snapshotName().trim() || undefined })
+      setSnapshotName('')
+      await refresh()
+      if (snapshot) setSelectedId(snapshot.id)
+    } catch (err) {
+      setError(`Failed to create snapshot: ${(err as Error).message}`)
+    }
+  }
+
+  const handleDelete = async (snapshot: Snapshot) => {
+    await snapshots.remove(snapshot)
+    await refresh()
+  }
+
+  // Restoring is itself undoable: the state it replaces is snapshotted first
+  const restore = async (loading: () => Promise<ProjectData>, what: string) => {
+    try {
+      const data = await loading()
+      await takeSnapshot({ name: `Before restoring ${what}`, automatic: true })
+      props.onRestore(data)
+      await refresh()
+    } catch (err) {
+      setError(`Failed to restore: ${(err as Error).message}`)
+    }
+  }
+
+  const restoreEntity = (snapshot: Snapshot, change: SnapshotChange) =>
+    restore(async () => {
+      const entity = change.kind === 'tables'
+        ? await snapshots.loadTable(snapshot, change.id)
+        : (snapshot.data[change.kind] as { id: string }[]).find(e => e.id === change.id)
+      if (!entity) throw new Error(`${KIND_LABELS[change.kind]} "${change.title}" is not in this snapshot`)
+      const entities: any[] = props.current[change.kind]
+      const exists = entities.some(e => e.id === change.id)
+      return {
+        ...props.current,
+        [change.kind]: exists ? entities.map(e => e.id === change.id ? entity : e) : [...entities, entity]
+      }
+    }, `${KIND_LABELS[change.kind].toLowerCase()} "${change.title}"`)
+
+  // Tables that can be compared: any in the selected snapshot, the comparison target or the current project
+  const comparableTables = createMemo(() => {
+    const tables = new Map<string, Table>()
+    const other = history().find(s => s.id === compareWith())
+    for (const table of [...(selected()?.data.tables || []), ...(other?.data.tables || []), ...props.current.tables]) {
+      if (!tables.has(table.id)) tables.set(table.id, table)
+    }
+    return [...tables.values()]
+  })
+
+  // Snapshot rows are read from their chunks, so the diff is loaded rather than computed in place
+  const [tableDiff] = createResource(
+    () => {
+      const snapshot = selected()
+      const id = compareTableId()
+      if (!snapshot || !id) return null
+      const other = history().find(s => s.id === compareWith())
+      if (compareWith() !== 'current' && !other) return null
+      return { snapshot, id, other, current: props.current }
+    },
+    async ({ snapshot, id, other, current }) => {
+      try {
+        const [table, target] = await Promise.all([
+          snapshots.loadTable(snapshot, id),
+          other ? snapshots.loadTable(other, id) : current.tables.find(t => t.id === id)
+        ])
+        // Older version on the left
+        const targetIsNewer = !other || new Date(other.createdAt) > new Date(snapshot.createdAt)
+        return targetIsNewer ? diffTables(table, target) : diffTables(target, table)
+      } catch (err) {
+        setError(`Failed to compare: ${(err as Error).message}`)
+        return null
+      }
+    }
+  )
+
+  const rowLabel = (row: Record<string, any> | undefined, keyColumns: string[]) =>
+    row && keyColumns.length > 0 ? keyColumns.map(c => formatCell(row[c])).join(', ') : ''
+
+  return (
+    <CommonDialog
+      isOpen={props.isOpen}
+      onClose={props.onClose}
+      title="Project History"
+      maxWidth="max-w-5xl"
+    >
+      <Show when={error()}>
+        <div class="mb-3 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700 flex justify-between">
+          <span>{error()}</span>
+          <button onClick={() => setError(null)}>×</button>
+        </div>
+      </Show>
+
+      <div class="flex gap-4 min-h-[28rem]">
+        <div class="w-72 flex-shrink-0 border-r pr-4 space-y-3">
+          <div class="flex gap-2">
+            <input
+              type="text"
+              class="flex-1 min-w-0 px-2 py-1 border rounded text-sm"
+              placeholder="Snapshot name..."
+              value={snapshotName()}
+              onInput={(e) => setSnapshotName(e.currentTarget.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleCreate()}
+            />
+            <Button size="sm" variant="primary" onClick={handleCreate}>
+              Save
+            </Button>
+          </div>
+
+          <Show when={history().length === 0}>
+            <p class="text-sm text-gray-500">No snapshots yet</p>
+          </Show>
+
+          <ul class="space-y-1 overflow-y-auto max-h-[32rem]">
+            <For each={history()}>
+              {(snapshot) => (
+                <li>
+                  <button
+                    class={`w-full text-left px-2 py-1.5 rounded text-sm ${
+                      snapshot.id === selectedId() ? 'bg-blue-100' : 'hover:bg-gray-100'
+                    }`}
+                    onClick={() => setSelectedId(snapshot.id)}
+                  >
+                    <div class="font-medium truncate">
+                      {snapshot.name || (snapshot.automatic ? 'Automatic snapshot' : 'Snapshot')}
+                    </div>
+                    <div class="text-xs text-gray-500">
+                      {formatTime(snapshot.createdAt)} · {snapshot.changes.length} changed
+                    </div>
+                  </button>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+
+        <div class="flex-1 min-w-0">
+          <Show when={selected()} fallback={<p class="text-sm text-gray-500">Select a snapshot</p>}>
+            {(snapshot) => (
+              <div class="space-y-4">
+                <div class="flex items-center justify-between">
+                  <div>
+                    <h3 class="font-semibold">{snapshot().name || formatTime(snapshot().createdAt)}</h3>
+                    <p class="text-xs text-gray-500">
+                      {snapshot().data.tables.length} tables, {snapshot().data.views.length} views,
+                      {' '}{snapshot().data.functions.length} functions, {snapshot().data.layouts.length} layouts
+                    </p>
+                  </div>
+                  <div class="flex gap-2">
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(snapshot())}>
+                      Delete
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="danger"
+                      onClick={() => restore(() => snapshots.loadData(snapshot()), `the project to ${formatTime(snapshot().createdAt)}`)}
+                    >
+                      Restore Project
+                    </Button>
+                  </div>
+                </div>
+
+                <div>
+                  <h4 class="text-sm font-medium text-gray-700 mb-1">Changed since the previous snapshot</h4>
+                  <Show when={snapshot().changes.length > 0} fallback={<p class="text-sm text-gray-500">Nothing changed</p>}>
+                    <ul class="divide-y border rounded text-sm">
+                      <For each={snapshot().changes}>
+                        {(change) => (
+                          <li class="flex items-center justify-between px-2 py-1">
+                            <span>
+                              <span class="text-gray-500">{KIND_LABELS[change.kind]}</span> {change.title}
+                              <span class={`ml-2 text-xs ${
+                                change.type === 'added' ? 'text-green-600' : change.type === 'removed' ? 'text-red-600' : 'text-amber-600'
+                              }`}>
+                                {change.type}
+                              </span>
+                            </span>
+                            <Show when={change.type !== 'removed'}>
+                              <Button size="sm" variant="ghost" onClick={() => restoreEntity(snapshot(), change)}>
+                                Restore this version
+                              </Button>
+                            </Show>
+                          </li>
+                        )}
+                      </For>
+                    </ul>
+                  </Show>
+                </div>
+
+                <div>
+                  <h4 class="text-sm font-medium text-gray-700 mb-1">Compare a table</h4>
+                  <div class="flex gap-2 text-sm">
+                    <select
+                      class="px-2 py-1 border rounded"
+                      value={compareTableId()}
+                      onChange={(e) => setCompareTableId(e.currentTarget.value)}
+                    >
+                      <option value="">Choose a table...</option>
+                      <For each={comparableTables()}>
+                        {(table) => <option value={table.id}>{table.title}</option>}
+                      </For>
+                    </select>
+                    <span class="py-1">with</span>
+                    <select
+                      class="px-2 py-1 border rounded"
+                      value={compareWith()}
+                      onChange={(e) => setCompareWith(e.currentTarget.value)}
+                    >
+                      <option value="current">Current version</option>
+                      <For each={history().filter(s => s.id !== snapshot().id)}>
+                        {(other) => <option value={other.id}>{other.name || formatTime(other.createdAt)}</option>}
+                      </For>
+                    </select>
+                  </div>
+
+                  <Show when={tableDiff()}>
+                    {(diff) => (
+                      <div class="mt-2 text-sm space-y-2">
+                        <p class="text-gray-600">
+                          {diff().rows.filter(r => r.type === 'added').length} added,
+                          {' '}{diff().rows.filter(r => r.type === 'removed').length} removed,
+                          {' '}{diff().rows.filter(r => r.type === 'changed').length} changed rows
+                          {diff().keyColumns.length > 0
+                            ? ` (matched by ${diff().keyColumns.join(', ')})`
+                            : ' (no primary key, rows matched by content)'}
+                        </p>
+                        <Show when={diff().addedColumns.length > 0 || diff().removedColumns.length > 0}>
+                          <p class="text-gray-600">
+                            <Show when={diff().addedColumns.length > 0}>Columns added: {diff().addedColumns.join(', ')}. </Show>
+                            <Show when={diff().removedColumns.length > 0}>Columns removed: {diff().removedColumns.join(', ')}.</Show>
+                          </p>
+                        </Show>
+                        <ul class="border rounded divide-y max-h-64 overflow-y-auto font-mono text-xs">
+                          <For each={diff().rows.slice(0, MAX_DIFF_ROWS)}>
+                            {(row) => (
+                              <li class={`px-2 py-1 ${
+                                row.type === 'added' ? 'bg-green-50' : row.type === 'removed' ? 'bg-red-50' : 'bg-amber-50'
+                              }`}>
+                                <span class="font-semibold">
+                                  {row.type === 'added' ? '+' : row.type === 'removed' ? '−' : '~'}
+                                </span>{' '}
+                                {rowLabel(row.after || row.before, diff().keyColumns)}
+                                <Show when={row.type === 'changed'}>
+                                  <For each={row.columns}>
+                                    {(column) => (
+                                      <div class="pl-4">
+                                        {column}: {formatCell(row.before![column])} → {formatCell(row.after![column])}
+                                      </div>
+                                    )}
+                                  </For>
+                                </Show>
+                                <Show when={row.type !== 'changed'}>
+                                  <div class="pl-4 text-gray-600 truncate">{JSON.stringify(row.after || row.before)}</div>
+                                </Show>
+                              </li>
+                            )}
+                          </For>
+                        </ul>
+                        <Show when={diff().rows.length > MAX_DIFF_ROWS}>
+                          <p class="text-xs text-gray-500">Showing the first {MAX_DIFF_ROWS} of {diff().rows.length} differences</p>
+                        </Show>
+                      </div>
+                    )}
+                  </Show>
+                </div>
+              </div>
+            )}
+          </Show>
+        </div>
+      </div>
+    </CommonDialog>
+  )
+}
+
+export default HistoryDialog
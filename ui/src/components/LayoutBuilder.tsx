@@ -1,5 +1,7 @@
-import { Component, For, Index, createSignal, onMount, onCleanup, Show, createEffect, batch } from 'solid-js'
-import { Layout, LayoutElement, Table, TableViewSettings, View, ChartSettings, TextElementSettings } from '../models/types'
+import { Component, For, Index, createSignal, onMount, onCleanup, Show, createEffect, createMemo, batch } from 'solid-js'
+import { Layout, LayoutElement, Table, TableViewSettings, View, ChartSettings, TextElementSettings, AppFunction } from '../models/types'
+import { secureFunctionEngine } from '../services/secureFunctionEngine'
+import { queryEngine } from '../services/queryEngine'
 import TableView from './TableView'
 import TableViewSettingsDialog from './TableViewSettings'
 import TextElement from './TextElement'
@@ -13,6 +15,7 @@ interface LayoutBuilderProps {
   onUpdate: (layout: Layout) => void
   tables?: Table[]  // Available tables for TableView
   views?: View[]    // Available views for charts
+  functions?: AppFunction[]  // Functions for text elements starting with "="
 }
 
 const GRID_SIZE = 23 // pixels per grid cell (reduced to 75%)
@@ -28,6 +31,23 @@ const LayoutBuilder: Component<LayoutBuilderProps> = (props) => {
   const [dropPreview, setDropPreview] = createSignal<{x: number, y: number} | null>(null)
   const [isEditingTitle, setIsEditingTitle] = createSignal(false)
   const [editedTitle, setEditedTitle] = createSignal(props.layout.title || '')
+
+  // Evaluates text elements such as "=total(orders)"; replaced when the project's
+  // data changes, so the elements evaluate again
+  const evaluateFormula = createMemo(() => {
+    const tables = props.tables ?? []
+    const views = props.views ?? []
+    const functions = props.functions ?? []
+    return (formula: string) => {
+      secureFunctionEngine.setTables(tables)
+      secureFunctionEngine.setViews(views)
+      secureFunctionEngine.setFunctions(functions)
+      queryEngine.setTables(tables)
+      queryEngine.setViews(views)
+      queryEngine.setFunctions(functions)
+      return secureFunctionEngine.evaluateExpression(formula, { data: queryEngine })
+    }
+  })
   const [showTableViewSettings, setShowTableViewSettings] = createSignal(false)
   const [settingsElement, setSettingsElement] = createSignal<LayoutElement | null>(null)
   const [settingsTable, setSettingsTable] = createSignal<Table | null>(null)
@@ -523,6 +543,7 @@ const LayoutBuilder: Component<LayoutBuilderProps> = (props) => {
               ) : element.type === 'text' ? (
                 <TextElement
                   content={element.data?.content || ''}
+                  evaluate={evaluateFormula()}
                   onSettingsClick={() => {
                     console.log('TextElement onSettingsClick called for:', element)
                     openSettings(element)
@@ -0,0 +1,131 @@
+import { Component, createSignal, createEffect, Show, For } from 'solid-js'
+import { Project } from '../models/types'
+import { ProjectDocument } from '../services/migrations'
+import { findImportConflicts, uniqueProjectName } from '../utils/exportUtils'
+import { CommonDialog, Button } from './common'
+
+interface ProjectImportDialogProps {
+  document: ProjectDocument | null
+  projects: Project[]
+  onClose: () => void
+  onImport: (name: string, replace?: Project) => void
+}
+
+const ProjectImportDialog: Component<ProjectImportDialogProps> = (props) => {
+  const [name, setName] = createSignal('')
+  const [replace, setReplace] = createSignal(false)
+
+  const conflicts = () => props.document ? findImportConflicts(props.document, props.projects) : []
+  // The project this archive was exported from, if it exists here
+  const original = () => conflicts().find(c => c.type === 'id')?.project
+  const nameTaken = () => props.projects.some(p =>
+    p.id !== (replace() ? original()?.id : undefined) &&
+    p.name.trim().toLowerCase() === name().trim().toLowerCase()
+  )
+
+  // Suggest a name that doesn't clash with an existing project
+  createEffect(() => {
+    if (!props.document) return
+    setReplace(false)
+    setName(uniqueProjectName(props.document.project.name, props.projects))
+  })
+
+  const handleImport = () => {
+    if (!name().trim()) return
+    props.onImport(name().trim(), replace() ? original() : undefined)
+  }
+
+  const footer = (
+    <div class="flex justify-end gap-2">
+      <Button variant="ghost" onClick={props.onClose}>
+        Cancel
+      </Button>
+      <Button
+        variant={replace() ? 'danger' : 'primary'}
+        onClick={handleImport}
+        disabled={!name().trim()}
+      >
+        {replace() ? 'Replace Project' : 'Import Project'}
+      </Button>
+    </div>
+  )
+
+  return (
+    <CommonDialog
+      isOpen={props.document !== null}
+      onClose={props.onClose}
+      title="Import Project"
+      maxWidth="max-w-lg"
+      footer={footer}
+    >
+      <Show when={props.document}>
+        {(document) => (
+          <div class="space-y-4">
+            <div class="text-sm text-gray-600">
+              <span class="font-medium text-gray-900">{document().project.name}</span>
+              {' '}with {document().tables.length} tables, {document().views.length} views,
+              {' '}{document().functions.length} functions and {document().layouts.length} layouts
+            </div>
+
+            <Show when={conflicts().length > 0}>
+              <ul class="p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800 space-y-1">
+                <For each={conflicts()}>
+                  {(conflict) => (
+                    <li>
+                      {conflict.type === 'id'
+                        ? `This file was exported from "${conflict.project.name}", which already exists here.`
+                        : `A project named "${conflict.project.name}" already exists.`}
+                    </li>
+                  )}
+                </For>
+              </ul>
+            </Show>
+
+            <Show when={original()}>
+              <div class="space-y-2 text-sm">
+                <label class="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={!replace()}
+                    onChange={() => {
+                      setReplace(false)
+                      setName(uniqueProjectName(document().project.name, props.projects))
+                    }}
+                  />
+                  Import as a new project
+                </label>
+                <label class="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={replace()}
+                    onChange={() => {
+                      setReplace(true)
+                      setName(original()!.name)
+                    }}
+                  />
+                  Replace "{original()!.name}" and discard its current contents
+                </label>
+              </div>
+            </Show>
+
+            <div>
+              <label class="block text-sm font-medium text-gray-700 mb-1">Project name</label>
+              <input
+                type="text"
+                class="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={name()}
+                onInput={(e) => setName(e.currentTarget.value)}
+                onKeyPress={(e) => e.key === 'Enter' && handleImport()}
+              />
+              <Show when={nameTaken()}>
+                <p class="mt-1 text-xs text-amber-700">Another project already has this name.</p>
+              </Show>
+            </div>
+          </div>
+        )}
+      </Show>
+    </CommonDialog>
+  )
+}
+
+export default ProjectImportDialog
@@ -0,0 +1,29 @@
+import { Component, Match, Switch } from 'solid-js'
+import { QueryResult } from '../services/queryEngine'
+
+interface QueryErrorMessageProps {
+  result: QueryResult
+}
+
+// A failed query's error; FN calls that timed out or were cancelled are shown apart from other errors
+const QueryErrorMessage: Component<QueryErrorMessageProps> = (props) => {
+  return (
+    <Switch fallback={
+      <div class="p-4 text-red-600 bg-red-50">
+        <span class="font-semibold">{props.result.stopped === 'limit' ? 'Limit exceeded:' : 'Error:'}</span> {props.result.error}
+      </div>
+    }>
+      <Match when={props.result.stopped === 'timeout'}>
+        <div class="p-4 text-amber-700 bg-amber-50">
+          <span class="font-semibold">Timed out:</span> {props.result.error}
+          <div class="text-sm mt-1">Raise the function's timeout under Limits if it needs more time.</div>
+        </div>
+      </Match>
+      <Match when={props.result.stopped === 'cancelled'}>
+        <div class="p-4 text-gray-600 bg-gray-50">Query cancelled</div>
+      </Match>
+    </Switch>
+  )
+}
+
+export default QueryErrorMessage
@@ -158,6 +158,7 @@ const Sidebar: Component<SidebarProps> = (props) => {
       
       <TableEditDialog
         table={editingTable()}
+        tables={props.tables}
         isOpen={editingTable() !== null}
         onClose={() => setEditingTable(null)}
         onSave={(updatedTable) => {
@@ -0,0 +1,168 @@
+import { Component, createSignal, createEffect, Show, For } from 'solid-js'
+import { projectRepository } from '../services/projectRepository'
+import { snapshots } from '../services/snapshots'
+import { ProjectUsage, formatBytes, storageMonitor } from '../services/storageUsage'
+import { CommonDialog, Button } from './common'
+
+interface StorageDialogProps {
+  isOpen: boolean
+  projectId: string
+  onClose: () => void
+}
+
+const StorageDialog: Component<StorageDialogProps> = (props) => {
+  const [usage, setUsage] = createSignal<ProjectUsage[]>([])
+  const [loading, setLoading] = createSignal(false)
+  const [error, setError] = createSignal<string | null>(null)
+
+  const current = () => usage().find(u => u.project.id === props.projectId)
+
+  const refresh = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      await storageMonitor.check(true)
+      const projects = await projectRepository.listProjects()
+      const measured: ProjectUsage[] = []
+      for (const project of projects) {
+        measured.push(await storageMonitor.projectUsage(project))
+      }
+      setUsage(measured.sort((a, b) => b.bytes - a.bytes))
+    } catch (err) {
+      setError(`Failed to measure storage: ${(err as Error).message}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  createEffect(() => {
+    if (props.isOpen) refresh()
+  })
+
+  const handleDeleteSnapshots = async () => {
+    try {
+      await snapshots.removeAutomatic(props.projectId)
+      await refresh()
+    } catch (err) {
+      setError(`Failed to delete snapshots: ${(err as Error).message}`)
+    }
+  }
+
+  const percent = () => {
+    const estimate = storageMonitor.estimate()
+    return estimate && estimate.quota > 0 ? Math.round(estimate.usage / estimate.quota * 100) : null
+  }
+
+  return (
+    <CommonDialog
+      isOpen={props.isOpen}
+      onClose={props.onClose}
+      title="Storage"
+      maxWidth="max-w-3xl"
+    >
+      <div class="space-y-5 text-sm">
+        <Show when={error()}>
+          <div class="p-2 bg-red-50 border border-red-200 rounded text-red-700">{error()}</div>
+        </Show>
+
+        <Show
+          when={storageMonitor.estimate()}
+          fallback={<p class="text-gray-500">This browser doesn't report how much storage is available.</p>}
+        >
+          {(estimate) => (
+            <div>
+              <div class="flex justify-between mb-1">
+                <span>{formatBytes(estimate().usage)} of {formatBytes(estimate().quota)} used</span>
+                <span>{percent()}%</span>
+              </div>
+              <div class="h-2 bg-gray-200 rounded overflow-hidden">
+                <div
+                  class={`h-full ${storageMonitor.nearlyFull() ? 'bg-red-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(percent() || 0, 100)}%` }}
+                />
+              </div>
+              <Show when={storageMonitor.nearlyFull()}>
+                <p class="mt-2 text-red-700">
+                  Storage is nearly full. Saving will fail once it runs out; delete snapshots or
+                  large tables, or export projects you no longer need here.
+                </p>
+              </Show>
+            </div>
+          )}
+        </Show>
+
+        <Show when={loading()}>
+          <p class="text-gray-500">Measuring...</p>
+        </Show>
+
+        <Show when={current()}>
+          {(project) => (
+            <div>
+              <div class="flex items-center justify-between mb-1">
+                <h3 class="font-semibold">This project: about {formatBytes(project().bytes)}</h3>
+                <Show when={project().snapshotBytes > 0}>
+                  <Button size="sm" variant="ghost" onClick={handleDeleteSnapshots}>
+                    Delete automatic snapshots
+                  </Button>
+                </Show>
+              </div>
+              <table class="w-full border rounded">
+                <thead class="bg-gray-50 text-left">
+                  <tr>
+                    <th class="px-2 py-1 font-medium">Table</th>
+                    <th class="px-2 py-1 font-medium text-right">Rows</th>
+                    <th class="px-2 py-1 font-medium text-right">Size</th>
+                  </tr>
+                </thead>
+                <tbody class="divide-y">
+                  <For each={project().tables}>
+                    {(table) => (
+                      <tr>
+                        <td class="px-2 py-1">
+                          {table.title}
+                          <Show when={table.chunked}>
+                            <span class="ml-2 text-xs text-gray-500">stored in chunks</span>
+                          </Show>
+                        </td>
+                        <td class="px-2 py-1 text-right">{table.rows.toLocaleString()}</td>
+                        <td class="px-2 py-1 text-right">{formatBytes(table.bytes)}</td>
+                      </tr>
+                    )}
+                  </For>
+                  <tr class="text-gray-600">
+                    <td class="px-2 py-1">Snapshots</td>
+                    <td />
+                    <td class="px-2 py-1 text-right">{formatBytes(project().snapshotBytes)}</td>
+                  </tr>
+                  <tr class="text-gray-600">
+                    <td class="px-2 py-1">Views, functions and layouts</td>
+                    <td />
+                    <td class="px-2 py-1 text-right">{formatBytes(project().otherBytes)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Show>
+
+        <Show when={usage().length > 1}>
+          <div>
+            <h3 class="font-semibold mb-1">All projects</h3>
+            <ul class="border rounded divide-y">
+              <For each={usage()}>
+                {(entry) => (
+                  <li class="flex justify-between px-2 py-1">
+                    <span class={entry.project.id === props.projectId ? 'font-medium' : ''}>{entry.project.name}</span>
+                    <span>{formatBytes(entry.bytes)}</span>
+                  </li>
+                )}
+              </For>
+            </ul>
+          </div>
+        </Show>
+      </div>
+    </CommonDialog>
+  )
+}
+
+export default StorageDialog
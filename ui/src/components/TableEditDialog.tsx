@@ -1,5 +1,5 @@
 import { Component, createSignal, For, Show, createEffect } from 'solid-js'
-import { Table, Column, Index, CellType } from '../models/types'
+import { Table, Column, Index, CellType, ForeignKey, OnDeleteAction } from '../models/types'
 import TextField from './common/TextField'
 import TextArea from './common/TextArea'
 import Select from './common/Select'
@@ -7,10 +7,13 @@ import Checkbox from './common/Checkbox'
 import Button from './common/Button'
 import CommonDialog from './common/CommonDialog'
 import TemplateSelectDialog from './TemplateSelectDialog'
+import ConstraintViolationList from './ConstraintViolationList'
 import { TableTemplate } from '../data/tableTemplates'
+import { ConstraintViolation, introducedViolations, keyConstraints } from '../services/constraints'
 
 interface TableEditDialogProps {
   table: Table | null
+  tables?: Table[]  // the project's tables, which foreign keys can refer to
   isOpen: boolean
   onClose: () => void
   onSave: (table: Table) => void
@@ -29,6 +32,14 @@ const TableEditDialog: Component<TableEditDialogProps> = (props) => {
   const [newIndexUnique, setNewIndexUnique] = createSignal(false)
   const [showAddIndex, setShowAddIndex] = createSignal(false)
   const [showTemplateDialog, setShowTemplateDialog] = createSignal(false)
+  const [violations, setViolations] = createSignal<ConstraintViolation[]>([])
+  const [foreignKeys, setForeignKeys] = createSignal<ForeignKey[]>(props.table?.foreignKeys || [])
+  const [showAddForeignKey, setShowAddForeignKey] = createSignal(false)
+  const [newForeignKeyName, setNewForeignKeyName] = createSignal('')
+  const [newForeignKeyColumns, setNewForeignKeyColumns] = createSignal<string[]>([])
+  const [newForeignKeyTableId, setNewForeignKeyTableId] = createSignal('')
+  const [newForeignKeyTarget, setNewForeignKeyTarget] = createSignal(0)  // index into referenceableKeys()
+  const [newForeignKeyOnDelete, setNewForeignKeyOnDelete] = createSignal<OnDeleteAction>('restrict')
 
   // Update signals when table prop changes
   createEffect(() => {
@@ -39,6 +50,8 @@ const TableEditDialog: Component<TableEditDialogProps> = (props) => {
       setPrimaryKeys(props.table.primaryKey || [])
       setUniqueConstraints(props.table.uniqueConstraints || [])
       setIndexes(props.table.indexes || [])
+      setForeignKeys(props.table.foreignKeys || [])
+      setViolations([])
     }
   })
 
@@ -75,6 +88,12 @@ const TableEditDialog: Component<TableEditDialogProps> = (props) => {
           }
           return index
         }))
+        
+        // Update foreign keys
+        setForeignKeys(prev => prev.map(fk => ({
+          ...fk,
+          columns: fk.columns.map(col => col === oldColumn.name ? value : col)
+        })))
       }
     }
     
@@ -168,7 +187,45 @@ const TableEditDialog: Component<TableEditDialogProps> = (props) => {
     const columnToDelete = columns().find(col => col.id === columnId)
     if (columnToDelete) {
       setPrimaryKeys(prev => prev.filter(pk => pk !== columnToDelete.name))
+      setForeignKeys(prev => prev.filter(fk => !fk.columns.includes(columnToDelete.name)))
+    }
+  }
+
+  const foreignKeyTable = () => (props.tables || []).find(t => t.id === newForeignKeyTableId())
+
+  // A foreign key refers to the primary key or a unique key of the other table
+  const referenceableKeys = () => {
+    const target = foreignKeyTable()
+    if (!target) return []
+    // The key of this table as edited here, for self references
+    const source = target.id === props.table?.id
+      ? { ...target, primaryKey: primaryKeys(), uniqueConstraints: uniqueConstraints(), indexes: indexes() }
+      : target
+    return keyConstraints(source).map(constraint => constraint.columns)
+  }
+
+  const addForeignKey = () => {
+    const referencedColumns = referenceableKeys()[newForeignKeyTarget()]
+    if (!referencedColumns || newForeignKeyColumns().length !== referencedColumns.length) return
+    
+    const newForeignKey: ForeignKey = {
+      name: newForeignKeyName() || `fk_${newForeignKeyColumns().join('_')}`,
+      columns: [...newForeignKeyColumns()],
+      referencedTableId: newForeignKeyTableId(),
+      referencedColumns,
+      onDelete: newForeignKeyOnDelete()
     }
+    setForeignKeys(prev => [...prev, newForeignKey])
+    resetForeignKeyForm()
+  }
+
+  const resetForeignKeyForm = () => {
+    setShowAddForeignKey(false)
+    setNewForeignKeyName('')
+    setNewForeignKeyColumns([])
+    setNewForeignKeyTableId('')
+    setNewForeignKeyTarget(0)
+    setNewForeignKeyOnDelete('restrict')
   }
 
   const applyTemplate = (template: TableTemplate) => {
@@ -215,9 +272,15 @@ const TableEditDialog: Component<TableEditDialogProps> = (props) => {
       columns: columns(),
       primaryKey: primaryKeys().length > 0 ? primaryKeys() : undefined,
       uniqueConstraints: uniqueConstraints().length > 0 ? uniqueConstraints() : undefined,
-      indexes: indexes().length > 0 ? indexes() : undefined
+      indexes: indexes().length > 0 ? indexes() : undefined,
+      foreignKeys: foreignKeys().length > 0 ? foreignKeys() : undefined
     }
     
+    // New or changed keys must hold for the rows already in the table
+    const newViolations = introducedViolations(props.table, updatedTable)
+    setViolations(newViolations)
+    if (newViolations.length > 0) return
+    
     props.onSave(updatedTable)
     props.onClose()
   }
@@ -248,6 +311,15 @@ const TableEditDialog: Component<TableEditDialogProps> = (props) => {
         maxWidth="max-w-4xl"
         footer={footer}
       >
+          <Show when={violations().length > 0}>
+            <div class="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700">
+              <p class="text-sm font-medium mb-1">
+                The keys can't be saved because existing rows break them. Fix these rows first:
+              </p>
+              <ConstraintViolationList violations={violations()} />
+            </div>
+          </Show>
+
           {/* Table Name and Comment */}
           <div class="mb-6 space-y-4">
             <div>
@@ -514,6 +586,149 @@ const TableEditDialog: Component<TableEditDialogProps> = (props) => {
               </For>
             </div>
           </div>
+
+          {/* Foreign Keys */}
+          <div class="mb-6">
+            <div class="flex items-center justify-between mb-3">
+              <h3 class="text-lg font-medium">Foreign Keys</h3>
+              <button
+                class="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+                onClick={() => setShowAddForeignKey(!showAddForeignKey())}
+              >
+                + Add Foreign Key
+              </button>
+            </div>
+
+            <Show when={showAddForeignKey()}>
+              <div class="bg-gray-50 rounded p-4 mb-3">
+                <div class="grid grid-cols-2 gap-3 mb-3">
+                  <div>
+                    <label class="block text-sm font-medium mb-1">Name</label>
+                    <input
+                      class="w-full px-2 py-1 border rounded"
+                      value={newForeignKeyName()}
+                      onInput={(e) => setNewForeignKeyName(e.currentTarget.value)}
+                      placeholder={`fk_${newForeignKeyColumns().join('_') || 'column_name'}`}
+                    />
+                  </div>
+                  <div>
+                    <label class="block text-sm font-medium mb-1">On Delete</label>
+                    <select
+                      class="w-full px-2 py-1 border rounded"
+                      value={newForeignKeyOnDelete()}
+                      onChange={(e) => setNewForeignKeyOnDelete(e.currentTarget.value as OnDeleteAction)}
+                    >
+                      <option value="restrict">Restrict: keep referenced rows</option>
+                      <option value="cascade">Cascade: delete referencing rows too</option>
+                      <option value="set null">Set null: empty the reference</option>
+                    </select>
+                  </div>
+                </div>
+                <div class="mb-3">
+                  <label class="block text-sm font-medium mb-1">Columns</label>
+                  <div class="flex flex-wrap gap-2">
+                    <For each={columns()}>
+                      {(column) => (
+                        <label class="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={newForeignKeyColumns().includes(column.name)}
+                            onChange={(e) => {
+                              if (e.currentTarget.checked) {
+                                setNewForeignKeyColumns(prev => [...prev, column.name])
+                              } else {
+                                setNewForeignKeyColumns(prev => prev.filter(c => c !== column.name))
+                              }
+                            }}
+                          />
+                          <span class="text-sm">{column.name}</span>
+                        </label>
+                      )}
+                    </For>
+                  </div>
+                </div>
+                <div class="grid grid-cols-2 gap-3 mb-3">
+                  <div>
+                    <label class="block text-sm font-medium mb-1">References Table</label>
+                    <select
+                      class="w-full px-2 py-1 border rounded"
+                      value={newForeignKeyTableId()}
+                      onChange={(e) => {
+                        setNewForeignKeyTableId(e.currentTarget.value)
+                        setNewForeignKeyTarget(0)
+                      }}
+                    >
+                      <option value="">Choose a table...</option>
+                      <For each={props.tables || []}>
+                        {(table) => <option value={table.id}>{table.title}</option>}
+                      </For>
+                    </select>
+                  </div>
+                  <div>
+                    <label class="block text-sm font-medium mb-1">Referenced Key</label>
+                    <select
+                      class="w-full px-2 py-1 border rounded"
+                      value={newForeignKeyTarget()}
+                      onChange={(e) => setNewForeignKeyTarget(Number(e.currentTarget.value))}
+                      disabled={referenceableKeys().length === 0}
+                    >
+                      <For each={referenceableKeys()}>
+                        {(key, i) => <option value={i()}>{key.join(', ')}</option>}
+                      </For>
+                    </select>
+                  </div>
+                </div>
+                <Show when={foreignKeyTable() && referenceableKeys().length === 0}>
+                  <p class="mb-3 text-sm text-amber-700">
+                    {foreignKeyTable()!.title} has no primary key or unique key to refer to.
+                  </p>
+                </Show>
+                <Show when={referenceableKeys()[newForeignKeyTarget()] && newForeignKeyColumns().length > 0 &&
+                  newForeignKeyColumns().length !== referenceableKeys()[newForeignKeyTarget()].length}>
+                  <p class="mb-3 text-sm text-amber-700">
+                    Choose {referenceableKeys()[newForeignKeyTarget()].length} column(s), one for each column of the referenced key.
+                  </p>
+                </Show>
+                <div class="flex gap-2">
+                  <button
+                    class="px-3 py-1 text-sm bg-green-500 text-white rounded hover:bg-green-600"
+                    onClick={addForeignKey}
+                  >
+                    Add
+                  </button>
+                  <button
+                    class="px-3 py-1 text-sm bg-gray-500 text-white rounded hover:bg-gray-600"
+                    onClick={resetForeignKeyForm}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            </Show>
+
+            <div class="space-y-2">
+              <For each={foreignKeys()}>
+                {(fk) => (
+                  <div class="flex items-center justify-between bg-green-50 rounded p-2">
+                    <div>
+                      <span class="text-sm font-medium">{fk.name}</span>
+                      <span class="ml-2 text-xs text-gray-600">
+                        ({fk.columns.join(', ')}) → {(props.tables || []).find(t => t.id === fk.referencedTableId)?.title || 'missing table'}
+                        ({fk.referencedColumns.join(', ')})
+                      </span>
+                      <span class="ml-2 text-xs text-green-700 uppercase">on delete {fk.onDelete}</span>
+                    </div>
+                    <button
+                      class="text-red-500 hover:text-red-700 text-sm"
+                      onClick={() => setForeignKeys(prev => prev.filter(f => f.name !== fk.name))}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                )}
+              </For>
+            </div>
+          </div>
       </CommonDialog>
       
       <TemplateSelectDialog
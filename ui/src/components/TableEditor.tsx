@@ -5,7 +5,11 @@ import SearchDialog, { SearchOptions } from './SearchDialog'
 import ConfirmDialog from './common/ConfirmDialog'
 import CellEditor from './CellEditor'
 import DateTimeEditor from './DateTimeEditor'
-import { exportToCSV, exportToTSV, exportToJSON, downloadFile } from '../utils/exportUtils'
+import ConstraintViolationList from './ConstraintViolationList'
+import CsvImportDialog, { CsvImport } from './CsvImportDialog'
+import { exportToCSV, exportToTSV, exportToJSON, downloadFile, parseCSV, csvToRows } from '../utils/exportUtils'
+import { ConstraintViolation, findViolations, introducedViolations } from '../services/constraints'
+import { LookupOption, findOrphans, lookupOptions, planRowDeletion } from '../services/foreignKeys'
 
 // ============================================================================
 // INTERFACES
@@ -13,7 +17,8 @@ import { exportToCSV, exportToTSV, exportToJSON, downloadFile } from '../utils/e
 
 interface TableEditorProps {
   table: Table
-  onUpdate: (table: Table) => void
+  tables?: Table[]  // the project's tables, for foreign keys
+  onUpdate: (table: Table) => void  // also called for other tables changed by ON DELETE actions
 }
 
 interface SearchResult {
@@ -61,6 +66,7 @@ const TableEditor: Component<TableEditorProps> = (props) => {
   const [showColumnDialog, setShowColumnDialog] = createSignal(false)
   const [showSearchDialog, setShowSearchDialog] = createSignal(false)
   const [showFilters, setShowFilters] = createSignal(false)
+  const [csvImport, setCsvImport] = createSignal<CsvImport | null>(null)
   const [columnToDelete, setColumnToDelete] = createSignal<Column | null>(null)
   const [columnContextMenu, setColumnContextMenu] = createSignal<{
     x: number
@@ -96,6 +102,27 @@ const TableEditor: Component<TableEditorProps> = (props) => {
   
   // Row validation state
   const [rowValidationStatus, setRowValidationStatus] = createSignal<Map<number, { valid: boolean, errors: string[] }>>(new Map())
+  // Why the last edit was rejected: keys it would duplicate, or rows still referenced
+  const [rejectedViolations, setRejectedViolations] = createSignal<ConstraintViolation[]>([])
+  
+  // Key constraint violations and orphaned foreign key values, by row
+  const keyViolations = createMemo(() => {
+    const byRow = new Map<number, ConstraintViolation[]>()
+    const violations = [...findViolations(props.table), ...findOrphans(props.table, props.tables || [])]
+    violations.forEach(violation => {
+      byRow.set(violation.row, [...(byRow.get(violation.row) || []), violation])
+    })
+    return byRow
+  })
+  
+  // Values to pick from for single-column foreign keys, by column
+  const lookups = createMemo(() => {
+    const byColumn = new Map<string, LookupOption[]>()
+    for (const fk of props.table.foreignKeys || []) {
+      if (fk.columns.length === 1) byColumn.set(fk.columns[0], lookupOptions(fk, props.table, props.tables || []))
+    }
+    return byColumn
+  })
   
   // Validate a single row
   const validateRow = (row: Record<string, any>, rowIndex: number): { valid: boolean, errors: string[], invalidColumns: Set<string> } => {
@@ -144,6 +171,12 @@ const TableEditor: Component<TableEditorProps> = (props) => {
       }
     })
     
+    // Check key constraints and foreign keys
+    keyViolations().get(rowIndex)?.forEach(violation => {
+      errors.push(violation.message)
+      violation.columns.forEach(column => invalidColumns.add(column))
+    })
+    
     return { valid: errors.length === 0, errors, invalidColumns }
   }
   
@@ -291,6 +324,17 @@ const TableEditor: Component<TableEditorProps> = (props) => {
   // KEYBOARD HANDLING
   // ============================================================================
   
+  // Every edit is applied through here, so none can add a duplicate key
+  const commitTable = (newTable: Table): boolean => {
+    const violations = introducedViolations(props.table, newTable)
+    setRejectedViolations(violations)
+    if (violations.length > 0) return false
+    
+    addToHistory(newTable)
+    props.onUpdate(newTable)
+    return true
+  }
+
   const handleKeyDown = (e: KeyboardEvent) => {
     const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0
     const ctrlKey = isMac ? e.metaKey : e.ctrlKey
@@ -418,8 +462,7 @@ const TableEditor: Component<TableEditorProps> = (props) => {
       }
     })
     
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    commitTable(newTable)
   }
 
   const getCellsInSelection = (sel: Selection): CellPosition[] => {
@@ -506,8 +549,7 @@ const TableEditor: Component<TableEditorProps> = (props) => {
       }
     })
     
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    commitTable(newTable)
   }
 
   const pasteSelection = async () => {
@@ -564,8 +606,7 @@ const TableEditor: Component<TableEditorProps> = (props) => {
       })
     })
     
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    commitTable(newTable)
   }
 
   // ============================================================================
@@ -576,8 +617,7 @@ const TableEditor: Component<TableEditorProps> = (props) => {
     const newRows = [...props.table.rows]
     newRows[rowIndex] = { ...newRows[rowIndex], [columnName]: value }
     const newTable = { ...props.table, rows: newRows }
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    if (!commitTable(newTable)) return
     
     // Revalidate the updated row
     const updatedValidation = new Map(rowValidationStatus())
@@ -678,9 +718,15 @@ const TableEditor: Component<TableEditorProps> = (props) => {
         newRow[col.name] = null
       }
     })
+    
+    // A single numeric primary key gets the next free value rather than its default
+    const primaryKey = props.table.primaryKey
+    if (primaryKey?.length === 1 && props.table.columns.find(c => c.name === primaryKey[0])?.type === 'number') {
+      newRow[primaryKey[0]] = props.table.rows.reduce((max, row) => Math.max(max, Number(row[primaryKey[0]]) || 0), 0) + 1
+    }
+    
     const newTable = { ...props.table, rows: [...props.table.rows, newRow] }
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    if (!commitTable(newTable)) return
     
     // Validate the new row
     const newRowIndex = props.table.rows.length
@@ -689,23 +735,27 @@ const TableEditor: Component<TableEditorProps> = (props) => {
     setRowValidationStatus(updatedValidation)
   }
 
+  // Rows referenced through foreign keys are deleted according to their ON DELETE action
+  const deleteRows = (rowIndexes: number[]) => {
+    const plan = planRowDeletion(props.table, rowIndexes, props.tables || [])
+    if (plan.blocked.length > 0) {
+      setRejectedViolations(plan.blocked)
+      return
+    }
+    
+    // Other tables are updated first, as updating this one may replace the editor.
+    // Their changes are not part of this editor's undo history.
+    const [newTable, ...others] = plan.tables
+    others.forEach(table => props.onUpdate(table))
+    commitTable(newTable)
+  }
+
   const deleteRow = (rowIndex: number) => {
-    const newRows = [...props.table.rows]
-    newRows.splice(rowIndex, 1)
-    const newTable = { ...props.table, rows: newRows }
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    deleteRows([rowIndex])
   }
 
   const deleteSelectedRows = () => {
-    const rowsToDelete = Array.from(selectedRows()).sort((a, b) => b - a) // Sort descending to delete from bottom
-    const newRows = [...props.table.rows]
-    rowsToDelete.forEach(index => {
-      newRows.splice(index, 1)
-    })
-    const newTable = { ...props.table, rows: newRows }
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    deleteRows(Array.from(selectedRows()))
     setSelectedRows(new Set())
     setContextMenu(null)
   }
@@ -734,8 +784,7 @@ const TableEditor: Component<TableEditorProps> = (props) => {
       columns: [...props.table.columns, newColumn],
       rows: newRows
     }
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    commitTable(newTable)
     setShowColumnDialog(false)
   }
   
@@ -788,8 +837,7 @@ const TableEditor: Component<TableEditorProps> = (props) => {
       }
     }
     
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    commitTable(newTable)
     setColumnToDelete(null)
     setColumnContextMenu(null)
   }
@@ -823,8 +871,7 @@ const TableEditor: Component<TableEditorProps> = (props) => {
       columns: newColumns,
       rows: newRows
     }
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    commitTable(newTable)
   }
 
   const renameColumn = (columnId: string, newName: string) => {
@@ -851,8 +898,7 @@ const TableEditor: Component<TableEditorProps> = (props) => {
     })
     
     const newTable = { ...props.table, columns: newColumns, rows: newRows }
-    addToHistory(newTable)
-    props.onUpdate(newTable)
+    commitTable(newTable)
   }
 
   const handleSort = (columnName: string) => {
@@ -930,6 +976,32 @@ const TableEditor: Component<TableEditorProps> = (props) => {
     downloadFile(json, `${props.table.title}.json`, 'application/json')
   }
 
+  // Read a CSV file into this table; CsvImportDialog asks how to treat rows with taken keys
+  const handleImportCSV = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.csv'
+    
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (!file) return
+      
+      const text = await file.text()
+      if (!text.trim()) return
+      
+      const { headers, records } = parseCSV(text)
+      setCsvImport({ fileName: file.name, headers, rows: csvToRows(props.table, headers, records) })
+    }
+    
+    input.click()
+  }
+
+  const handleCsvImported = (rows: Record<string, any>[]) => {
+    if (commitTable({ ...props.table, rows })) {
+      setCsvImport(null)
+    }
+  }
+
   // ============================================================================
   // SEARCH OPERATIONS
   // ============================================================================
@@ -1022,9 +1094,9 @@ const TableEditor: Component<TableEditorProps> = (props) => {
     })
     
     if (count > 0) {
-      addToHistory(newTable)
-      props.onUpdate(newTable)
-      alert(`Replaced ${count} occurrence(s)`)
+      if (commitTable(newTable)) {
+        alert(`Replaced ${count} occurrence(s)`)
+      }
     } else {
       alert('No matches found')
     }
@@ -1072,6 +1144,12 @@ const TableEditor: Component<TableEditorProps> = (props) => {
   
   return (
     <div class="p-4" onMouseUp={handleMouseUp}>
+      {/* Rows of large tables are loaded after the project; editing before then would lose them */}
+      <Show when={props.table.rowsPending}>
+        <div class="fixed inset-0 z-40 flex items-center justify-center bg-white/60 text-gray-600">
+          Loading rows...
+        </div>
+      </Show>
       <div class="flex items-center justify-between mb-4">
         <h2 class="text-xl font-bold">{props.table.title}</h2>
         <div class="flex items-center gap-2">
@@ -1110,6 +1188,12 @@ const TableEditor: Component<TableEditorProps> = (props) => {
           >
             Redo
           </button>
+          <button
+            class="px-3 py-1.5 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+            onClick={handleImportCSV}
+          >
+            Import CSV
+          </button>
           <button
             class="px-3 py-1.5 text-sm bg-green-500 text-white rounded hover:bg-green-600"
             onClick={handleExportCSV}
@@ -1125,6 +1209,16 @@ const TableEditor: Component<TableEditorProps> = (props) => {
         </div>
       </div>
       
+      <Show when={rejectedViolations().length > 0}>
+        <div class="mb-3 p-2 bg-red-50 border border-red-200 rounded text-red-700">
+          <div class="flex justify-between text-sm font-medium mb-1">
+            <span>The change was not applied because of these rows</span>
+            <button onClick={() => setRejectedViolations([])}>×</button>
+          </div>
+          <ConstraintViolationList violations={rejectedViolations()} />
+        </div>
+      </Show>
+      
       <div class="overflow-auto border rounded max-h-[600px] relative">
         <table class="min-w-full select-none">
           <thead class="bg-gray-50 sticky top-0 z-10">
@@ -1328,6 +1422,7 @@ const TableEditor: Component<TableEditorProps> = (props) => {
                           ) : (
                             <CellEditor
                               initialValue={row[column.name]}
+                              options={lookups().get(column.name)}
                               onSave={(value) => {
                                 setEditingCell(null)
                                 setTimeout(() => {
@@ -1396,6 +1491,13 @@ const TableEditor: Component<TableEditorProps> = (props) => {
         onConfirm={handleAddColumn}
       />
       
+      <CsvImportDialog
+        table={props.table}
+        data={csvImport()}
+        onClose={() => setCsvImport(null)}
+        onImport={handleCsvImported}
+      />
+      
       <SearchDialog
         isOpen={showSearchDialog()}
         onClose={() => {
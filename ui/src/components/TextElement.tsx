@@ -1,7 +1,8 @@
-import { Component, Show } from 'solid-js'
+import { Component, Show, createResource } from 'solid-js'
 
 interface TextElementProps {
   content: string
+  evaluate?: (formula: string) => Promise<any>  // shows the result of content that starts with =
   onSettingsClick?: () => void
   fontSize?: number
   fontWeight?: string
@@ -12,7 +13,24 @@ interface TextElementProps {
   fontFamily?: string
 }
 
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') return JSON.stringify(value, null, 2)
+  return String(value)
+}
+
 const TextElement: Component<TextElementProps> = (props) => {
+  const [formula] = createResource(
+    () => props.evaluate && props.content.startsWith('=') && { content: props.content, evaluate: props.evaluate },
+    async ({ content, evaluate }) => {
+      try {
+        return { text: formatValue(await evaluate(content)) }
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) }
+      }
+    }
+  )
+
   const style = {
     'font-size': props.fontSize ? `${props.fontSize}px` : '14px',
     'font-weight': props.fontWeight || 'normal',
@@ -49,7 +67,13 @@ const TextElement: Component<TextElementProps> = (props) => {
         <Show when={props.content} fallback={
           <span class="text-gray-400 italic">Click settings to add text...</span>
         }>
-          {props.content}
+          <Show when={props.evaluate && props.content.startsWith('=')} fallback={props.content}>
+            <Show when={!formula.loading} fallback={<span class="text-gray-400">Calculating...</span>}>
+              <Show when={formula()?.error} fallback={formula()?.text}>
+                <span class="text-red-600">{formula()?.error}</span>
+              </Show>
+            </Show>
+          </Show>
         </Show>
       </div>
     </div>
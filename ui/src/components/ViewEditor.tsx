@@ -1,46 +1,48 @@
-import { Component, createSignal, For, Show, createEffect } from 'solid-js'
+import { Component, createSignal, For, Show, createEffect, onCleanup } from 'solid-js'
 import { View, Table, AppFunction } from '../models/types'
-import { queryEngine } from '../services/queryEngine'
+import { QueryResult, queryEngine } from '../services/queryEngine'
+import QueryErrorMessage from './QueryErrorMessage'
+import FunctionErrorsNotice from './FunctionErrorsNotice'
 
 interface ViewEditorProps {
   view: View
   tables: Table[]
+  views?: View[]
   functions: AppFunction[]
   onUpdate: (view: View) => void
 }
 
 const ViewEditor: Component<ViewEditorProps> = (props) => {
-  const [queryResult, setQueryResult] = createSignal<{
-    columns: string[]
-    rows: any[]
-    error?: string
-  }>({ columns: [], rows: [] })
+  const [queryResult, setQueryResult] = createSignal<QueryResult>({ columns: [], rows: [] })
   
   const [isExecuting, setIsExecuting] = createSignal(false)
+  const [currentRun, setCurrentRun] = createSignal<AbortController | null>(null)
 
-  // Update query engine with available tables and functions
+  onCleanup(() => currentRun()?.abort())
+
+  // Update query engine with available tables, views and functions
   createEffect(() => {
     queryEngine.setTables(props.tables)
+    queryEngine.setViews(props.views ?? [])
     queryEngine.setFunctions(props.functions)
   })
 
-  const executeQuery = () => {
+  const executeQuery = async () => {
     if (!props.view.query.trim()) {
       setQueryResult({ columns: [], rows: [], error: 'Please enter a query' })
       return
     }
 
+    const run = new AbortController()
+    setCurrentRun(run)
     setIsExecuting(true)
     
     try {
-      const result = queryEngine.executeQuery(props.view.query)
+      const result = await queryEngine.executeQuery(props.view.query, { signal: run.signal })
       setQueryResult(result)
       
-      // Update source tables based on query
-      const tables = queryEngine.getAvailableTables()
-      const referencedTables = tables.filter(t => 
-        props.view.query.toLowerCase().includes(t.toLowerCase())
-      )
+      // Update source tables and views based on query
+      const referencedTables = queryEngine.getQueryDependencies(props.view.query)
       
       if (JSON.stringify(referencedTables) !== JSON.stringify(props.view.sourceTables)) {
         props.onUpdate({ ...props.view, sourceTables: referencedTables })
@@ -53,6 +55,7 @@ const ViewEditor: Component<ViewEditorProps> = (props) => {
       })
     } finally {
       setIsExecuting(false)
+      setCurrentRun(null)
     }
   }
 
@@ -79,13 +82,22 @@ const ViewEditor: Component<ViewEditorProps> = (props) => {
         <div class="mt-2 text-xs text-gray-600">
           <div class="font-semibold mb-1">Supported SQL features:</div>
           <div class="grid grid-cols-2 gap-1">
-            <div>• SELECT columns or *</div>
-            <div>• WHERE conditions (=, !=, {'<'}, {'>'}, LIKE)</div>
-            <div>• JOIN table ON condition</div>
-            <div>• ORDER BY column ASC/DESC</div>
-            <div>• LIMIT number</div>
-            <div>• Aggregate functions (COUNT, SUM, AVG, MAX, MIN)</div>
-            <div>• FN.functionName() for custom functions</div>
+            <div>• SELECT [DISTINCT] columns or *</div>
+            <div>• WHERE conditions (=, !=, {'<'}, {'>'}, [NOT] LIKE, IN, BETWEEN, IS NULL)</div>
+            <div>• AND / OR / NOT with parentheses, arithmetic and ||</div>
+            <div>• [LEFT/RIGHT/FULL/CROSS] JOIN table alias ON condition</div>
+            <div>• Other views in FROM and JOIN</div>
+            <div>• IN (SELECT ...), EXISTS (SELECT ...), (SELECT ...) as a value</div>
+            <div>• WITH name AS (SELECT ...) SELECT ... FROM name</div>
+            <div>• ORDER BY column ASC/DESC [NULLS FIRST/LAST], ...</div>
+            <div>• LIMIT number [OFFSET number]</div>
+            <div>• Aggregate functions (COUNT, SUM, AVG, MAX, MIN), COUNT(DISTINCT column)</div>
+            <div>• GROUP BY columns, HAVING conditions</div>
+            <div>• ROW_NUMBER, RANK, DENSE_RANK, LAG, LEAD, SUM(...) OVER (PARTITION BY ... ORDER BY ...)</div>
+            <div>• UPPER, LOWER, TRIM, SUBSTR, LENGTH, ROUND, ABS, COALESCE, NULLIF</div>
+            <div>• CASE WHEN ... THEN ... ELSE ... END, CAST(x AS number)</div>
+            <div>• DATE_TRUNC('month', d), EXTRACT(year FROM d), DATE_DIFF('day', a, b)</div>
+            <div>• FN.functionName(column, 10) for custom functions</div>
             <div>• Column aliases with AS</div>
           </div>
         </div>
@@ -99,6 +111,14 @@ const ViewEditor: Component<ViewEditorProps> = (props) => {
         >
           {isExecuting() ? 'Executing...' : 'Execute Query'}
         </button>
+        <Show when={currentRun()}>
+          <button
+            class="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+            onClick={() => currentRun()?.abort()}
+          >
+            Cancel
+          </button>
+        </Show>
         
         <Show when={props.view.sourceTables.length > 0}>
           <div class="text-sm text-gray-600">
@@ -115,10 +135,9 @@ const ViewEditor: Component<ViewEditorProps> = (props) => {
       
       <div class="flex-1 overflow-auto border rounded bg-gray-50">
         <Show when={queryResult().error}>
-          <div class="p-4 text-red-600 bg-red-50">
-            <span class="font-semibold">Error:</span> {queryResult().error}
-          </div>
+          <QueryErrorMessage result={queryResult()} />
         </Show>
+        <FunctionErrorsNotice result={queryResult()} />
         
         <Show when={!queryResult().error && (queryResult().columns.length > 0 || queryResult().rows.length > 0)}>
           <div class="overflow-auto">
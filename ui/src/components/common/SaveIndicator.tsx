@@ -0,0 +1,88 @@
+import { Component, For, Show } from 'solid-js'
+import { Autosave } from '../../services/autosave'
+import { storageMonitor } from '../../services/storageUsage'
+import Button from './Button'
+
+interface SaveIndicatorProps {
+  autosave: Autosave
+  onManageStorage?: () => void
+}
+
+const SaveIndicator: Component<SaveIndicatorProps> = (props) => {
+  const labels = {
+    saved: { text: 'All changes saved', class: 'text-gray-500' },
+    unsaved: { text: 'Unsaved changes', class: 'text-amber-600' },
+    saving: { text: 'Saving...', class: 'text-gray-500' },
+    error: { text: 'Save failed, retrying', class: 'text-red-600' }
+  }
+  const label = () => labels[props.autosave.status()]
+  const recovered = () => props.autosave.recovered()
+
+  return (
+    <div class="flex items-center gap-2 text-sm">
+      <Show when={recovered() > 0}>
+        <span class="flex items-center gap-1 px-2 py-0.5 rounded bg-blue-50 text-blue-700">
+          Recovered {recovered()} unsaved {recovered() === 1 ? 'change' : 'changes'} from your last session
+          <button
+            class="hover:text-blue-900"
+            onClick={() => props.autosave.dismissRecovered()}
+            title="Dismiss"
+          >
+            ×
+          </button>
+        </span>
+      </Show>
+      <Show when={storageMonitor.nearlyFull() && props.autosave.status() !== 'error'}>
+        <button
+          class="px-2 py-0.5 rounded bg-amber-50 text-amber-700 hover:bg-amber-100"
+          onClick={() => props.onManageStorage?.()}
+          title="Browser storage is nearly full"
+        >
+          Storage nearly full
+        </button>
+      </Show>
+      <span class={label().class} title={props.autosave.error() || undefined}>{label().text}</span>
+
+      <Show when={props.autosave.error()}>
+        <div class="fixed bottom-4 left-4 z-50 w-96 p-3 bg-white border border-red-300 rounded-lg shadow-lg">
+          <p class="text-red-700">{props.autosave.error()}</p>
+          <div class="mt-2 flex justify-end gap-2">
+            <Show when={props.onManageStorage}>
+              <Button size="sm" variant="ghost" onClick={() => props.onManageStorage!()}>
+                Manage storage
+              </Button>
+            </Show>
+            <Button size="sm" variant="primary" onClick={() => props.autosave.flush()}>
+              Retry now
+            </Button>
+          </div>
+        </div>
+      </Show>
+
+      <Show when={props.autosave.conflicts().length > 0}>
+        <div class="fixed bottom-4 right-4 z-50 w-96 p-3 bg-white border border-amber-300 rounded-lg shadow-lg space-y-3">
+          <For each={props.autosave.conflicts()}>
+            {(conflict) => (
+              <div>
+                <p class="text-amber-800">
+                  "{conflict.title}" was {conflict.theirs ? 'changed' : 'deleted'} in another tab
+                  while you were editing it here.
+                </p>
+                <div class="mt-2 flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => props.autosave.resolveConflict(conflict.key, 'theirs')}>
+                    Use theirs
+                  </Button>
+                  <Button size="sm" variant="primary" onClick={() => props.autosave.resolveConflict(conflict.key, 'mine')}>
+                    Keep mine
+                  </Button>
+                </div>
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+    </div>
+  )
+}
+
+export default SaveIndicator
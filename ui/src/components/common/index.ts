@@ -2,4 +2,5 @@ export { default as Button } from './Button'
 export { default as CommonDialog } from './CommonDialog'
 export { default as ConfirmDialog } from './ConfirmDialog'
 export { default as PageHeader } from './PageHeader'
-export { default as ResizablePanel } from './ResizablePanel'
\ No newline at end of file
+export { default as ResizablePanel } from './ResizablePanel'
+export { default as SaveIndicator } from './SaveIndicator'
\ No newline at end of file
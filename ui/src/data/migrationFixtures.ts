@@ -0,0 +1,184 @@
+import { MIGRATIONS, ProjectDocument, SCHEMA_VERSION, migrateDocument } from '../services/migrations'
+
+/**
+ * Saved projects in each historical format, with what they must look like after
+ * migrating to the current one. Add a fixture for every new migration step and
+ * update the expectations of older fixtures when a step changes their outcome.
+ *
+ * Run `bun run check-migrations`, or `checkMigrations()` from the browser console
+ * of a dev build (`bun run dev`).
+ */
+export interface MigrationFixture {
+  name: string
+  document: any  // as it was stored, so deliberately loosely typed
+  expected: ProjectDocument
+}
+
+const created = new Date('2024-01-05T00:00:00.000Z')
+const updated = new Date('2024-02-10T00:00:00.000Z')
+
+export const migrationFixtures: MigrationFixture[] = [
+  {
+    name: 'Unversioned localStorage project',
+    document: {
+      schemaVersion: 0,
+      project: { id: 'project-1', name: 'Sales', createdAt: '2024-01-05', updatedAt: '2024-02-10' },
+      tables: [{
+        id: 'table_1',
+        title: 'orders',
+        columns: [{ id: 'col_1', name: 'amount', type: 'number' }],
+        rows: [{ amount: 10 }],
+        createdAt: '2024-01-05T00:00:00.000Z',
+        updatedAt: '2024-02-10T00:00:00.000Z',
+        projectId: 'project-1'
+      }],
+      views: [{ id: 'view_1', title: 'big', query: 'SELECT * FROM orders WHERE amount > 5', projectId: 'project-1' }],
+      // Functions used to be created without a project id
+      functions: [{ id: 'function_1', name: 'tax', body: 'return x * 1.1', returnType: 'number', projectId: '', params: [{ name: 'x', type: 'number' }] }],
+      layouts: [{ id: 'layout_1', title: 'Dashboard', projectId: 'project-1' }]
+    },
+    expected: {
+      schemaVersion: 3,
+      project: { id: 'project-1', name: 'Sales', createdAt: created, updatedAt: updated },
+      tables: [{
+        id: 'table_1',
+        title: 'orders',
+        columns: [{ id: 'col_1', name: 'amount', type: 'number' }],
+        rows: [{ amount: 10 }],
+        primaryKey: [],
+        uniqueConstraints: [],
+        indexes: [],
+        createdAt: created,
+        updatedAt: updated,
+        projectId: 'project-1'
+      }],
+      views: [{ id: 'view_1', title: 'big', query: 'SELECT * FROM orders WHERE amount > 5', sourceTables: [], projectId: 'project-1' }],
+      functions: [{ id: 'function_1', name: 'tax', body: 'return x * 1.1', returnType: 'number', projectId: 'project-1', params: [{ name: 'x', type: 'number' }] }],
+      layouts: [{ id: 'layout_1', title: 'Dashboard', elements: [], projectId: 'project-1' }]
+    }
+  },
+  {
+    name: 'Per-kind localStorage keys with parts missing',
+    document: {
+      schemaVersion: 0,
+      project: { id: 'project-2', createdAt: '2024-01-05' },
+      views: [{ id: 'view_2', title: 'all', query: 'SELECT * FROM t' }]
+    },
+    expected: {
+      schemaVersion: 3,
+      project: { id: 'project-2', name: 'Untitled Project', createdAt: created, updatedAt: created },
+      tables: [],
+      views: [{ id: 'view_2', title: 'all', query: 'SELECT * FROM t', sourceTables: [], projectId: 'project-2' }],
+      functions: [],
+      layouts: []
+    }
+  },
+  {
+    name: 'Format 1 project with string timestamps',
+    document: {
+      schemaVersion: 1,
+      project: { id: 'project-3', name: 'Ops', createdAt: '2024-01-05T00:00:00.000Z', updatedAt: '2024-02-10T00:00:00.000Z' },
+      tables: [{
+        id: 'table_3', title: 'tickets', columns: [], rows: [], primaryKey: ['id'], uniqueConstraints: [], indexes: [],
+        createdAt: '2024-01-05T00:00:00.000Z', projectId: 'project-3'
+      }],
+      views: [],
+      functions: [],
+      layouts: []
+    },
+    expected: {
+      schemaVersion: 3,
+      project: { id: 'project-3', name: 'Ops', createdAt: created, updatedAt: updated },
+      tables: [{
+        id: 'table_3', title: 'tickets', columns: [], rows: [], primaryKey: ['id'], uniqueConstraints: [], indexes: [],
+        createdAt: created, updatedAt: created, projectId: 'project-3'
+      }],
+      views: [],
+      functions: [],
+      layouts: []
+    }
+  },
+  {
+    name: 'Format 2 project with memory limits',
+    document: {
+      schemaVersion: 2,
+      project: { id: 'project-4', name: 'Reports', createdAt: created, updatedAt: updated, functionLimits: { timeoutMs: 2000, maxMemoryMb: 16 } },
+      tables: [],
+      views: [],
+      functions: [
+        { id: 'function_4', name: 'report', body: 'return 1', returnType: 'number', projectId: 'project-4', params: [], limits: { maxMemoryMb: 8 } },
+        { id: 'function_5', name: 'plain', body: 'return 2', returnType: 'number', projectId: 'project-4', params: [] }
+      ],
+      layouts: []
+    },
+    expected: {
+      schemaVersion: 3,
+      project: { id: 'project-4', name: 'Reports', createdAt: created, updatedAt: updated, functionLimits: { timeoutMs: 2000, maxDataMb: 16 } },
+      tables: [],
+      views: [],
+      functions: [
+        { id: 'function_4', name: 'report', body: 'return 1', returnType: 'number', projectId: 'project-4', params: [], limits: { maxDataMb: 8 } },
+        { id: 'function_5', name: 'plain', body: 'return 2', returnType: 'number', projectId: 'project-4', params: [] }
+      ],
+      layouts: []
+    }
+  }
+]
+
+// Path of the first difference between two values, or null when they are equal
+const difference = (actual: any, expected: any, path = '$'): string | null => {
+  if (expected instanceof Date || actual instanceof Date) {
+    const same = actual instanceof Date && expected instanceof Date && actual.getTime() === expected.getTime()
+    return same ? null : path
+  }
+  if (typeof expected !== 'object' || expected === null || typeof actual !== 'object' || actual === null) {
+    return Object.is(actual, expected) ? null : path
+  }
+  if (Array.isArray(expected) !== Array.isArray(actual)) return path
+
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)])
+  for (const key of keys) {
+    if (expected[key] === undefined && actual[key] === undefined) continue
+    const found = difference(actual[key], expected[key], `${path}.${key}`)
+    if (found) return found
+  }
+  return null
+}
+
+/**
+ * Migrate every fixture and compare it with its expected document. Also checks
+ * that the registry is in order and that migrating a current document is a no-op.
+ */
+export const checkMigrations = (): { name: string, ok: boolean, message?: string }[] => {
+  const results: { name: string, ok: boolean, message?: string }[] = []
+
+  const versions = MIGRATIONS.map(m => m.version)
+  const ordered = versions.every((version, i) => version === i + 1)
+  results.push({
+    name: 'Migration registry',
+    ok: ordered,
+    message: ordered ? undefined : `Versions must be 1, 2, 3, ... in order but are ${versions.join(', ')}`
+  })
+
+  for (const fixture of migrationFixtures) {
+    try {
+      const migrated = migrateDocument(structuredClone(fixture.document))
+      const diff = difference(migrated, fixture.expected) ??
+        difference(migrateDocument(structuredClone(migrated)), fixture.expected)
+      results.push({ name: fixture.name, ok: diff === null, message: diff ? `Differs at ${diff}` : undefined })
+    } catch (error) {
+      results.push({ name: fixture.name, ok: false, message: (error as Error).message })
+    }
+  }
+
+  const untested = versions.filter(version =>
+    !migrationFixtures.some(f => (f.document.schemaVersion || 0) < version))
+  if (untested.length > 0) {
+    results.push({ name: 'Coverage', ok: false, message: `No fixture starts before format ${untested.join(', ')}` })
+  }
+  if (migrationFixtures.some(f => f.expected.schemaVersion !== SCHEMA_VERSION)) {
+    results.push({ name: 'Expectations', ok: false, message: `Every fixture must expect format ${SCHEMA_VERSION}` })
+  }
+
+  return results
+}
@@ -4,6 +4,12 @@ import { render } from 'solid-js/web';
 
 import App from './App';
 
+declare global {
+  interface Window {
+    checkMigrations?: typeof import('./data/migrationFixtures').checkMigrations;
+  }
+}
+
 const root = document.getElementById('root');
 
 if (import.meta.env.DEV && !(root instanceof HTMLElement)) {
@@ -12,4 +18,11 @@ if (import.meta.env.DEV && !(root instanceof HTMLElement)) {
   );
 }
 
+if (import.meta.env.DEV) {
+  // Lets the migration fixtures be checked from the browser console
+  import('./data/migrationFixtures').then(({ checkMigrations }) => {
+    window.checkMigrations = checkMigrations;
+  });
+}
+
 render(() => <App />, root!);
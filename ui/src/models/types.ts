@@ -1,6 +1,9 @@
 export interface Project {
   id: string
   name: string
+  description?: string
+  schemaVersion?: number  // version of the stored format, see services/migrations.ts
+  functionLimits?: FunctionLimits  // defaults for the project's functions
   createdAt: Date
   updatedAt: Date
 }
@@ -22,6 +25,16 @@ export interface Index {
   unique?: boolean
 }
 
+export type OnDeleteAction = 'restrict' | 'cascade' | 'set null'
+
+export interface ForeignKey {
+  name: string
+  columns: string[]             // column names in this table
+  referencedTableId: string
+  referencedColumns: string[]   // column names in the referenced table, in the same order
+  onDelete: OnDeleteAction      // what happens to referencing rows when a referenced row is deleted
+}
+
 export interface Table {
   id: string
   projectId: string
@@ -32,8 +45,19 @@ export interface Table {
   primaryKey?: string[]  // column names for composite primary key
   uniqueConstraints?: Index[]
   indexes?: Index[]
+  foreignKeys?: ForeignKey[]
   createdAt: Date,
   updatedAt: Date,
+  rowChunks?: number     // rows are stored in this many chunks rather than in `rows`, see services/rowStorage.ts
+  rowsPending?: boolean  // chunked rows that haven't been loaded yet; `rows` is empty until they are
+}
+
+export interface RowChunk {
+  id: string  // "tableId:index"
+  tableId: string
+  projectId: string
+  index: number
+  rows: Record<string, any>[]
 }
 
 export interface View {
@@ -71,6 +95,15 @@ export interface AppFunction {
   returnType: ParamType
   body: string
   description?: string
+  limits?: FunctionLimits  // overrides the project's limits
+}
+
+// Limits on each call of a function; unset ones fall back to the project's,
+// then to DEFAULT_FUNCTION_LIMITS in services/sandbox/limits.ts
+export interface FunctionLimits {
+  timeoutMs?: number    // wall-clock time
+  maxDataMb?: number    // size of the arguments, the data read and the returned value, not of all memory used
+  maxOutputKb?: number  // returned value plus console output
 }
 
 export interface Layout {
@@ -80,6 +113,40 @@ export interface Layout {
   elements: LayoutElement[]
 }
 
+// Everything stored for one project besides its metadata
+export interface ProjectData {
+  tables: Table[]
+  views: View[]
+  functions: AppFunction[]
+  layouts: Layout[]
+}
+
+// A saved copy of a whole project, see services/snapshots.ts
+export interface Snapshot {
+  id: string
+  projectId: string
+  name?: string
+  automatic: boolean  // taken while editing rather than by the user
+  createdAt: Date
+  data: ProjectData          // its tables have no rows when rowChunks is set
+  rowChunks?: Record<string, string[]>  // tableId → SnapshotChunks holding the table's rows, in order
+  changes: SnapshotChange[]  // entities that differ from the previous snapshot
+}
+
+// Rows of a table in a snapshot, stored once for all snapshots with the same rows
+export interface SnapshotChunk {
+  id: string  // "projectId:hash of the rows"
+  projectId: string
+  rows: Record<string, any>[]
+}
+
+export interface SnapshotChange {
+  kind: keyof ProjectData
+  id: string
+  title: string
+  type: 'added' | 'modified' | 'removed'
+}
+
 export interface LayoutElement {
   id: string
   type: 'table' | 'view' | 'function' | 'text' | 'chart' | 'tableView'
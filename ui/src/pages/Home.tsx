@@ -1,38 +1,33 @@
 import { Component, For, createSignal, onMount } from 'solid-js'
 import { A, useNavigate } from '@solidjs/router'
+import { Project } from '../models/types'
+import { projectRepository } from '../services/projectRepository'
+import { ProjectDocument } from '../services/migrations'
+import { discardJournal } from '../services/autosave'
+import { parseProjectArchive, remapProject } from '../utils/exportUtils'
+import ProjectImportDialog from '../components/ProjectImportDialog'
 
-interface Project {
-  id: string
-  name: string
-  description?: string
-  createdAt: string
-  updatedAt: string
-}
+const formatDate = (date: Date) => new Date(date).toISOString().split('T')[0]
 
 const Home: Component = () => {
   const navigate = useNavigate()
   
-  // Load projects from localStorage
-  const loadProjects = (): Project[] => {
-    const stored = localStorage.getItem('excess-projects')
-    return stored ? JSON.parse(stored) : []
-  }
-  
-  // Save projects to localStorage
-  const saveProjects = (projectList: Project[]) => {
-    localStorage.setItem('excess-projects', JSON.stringify(projectList))
-  }
-  
   const [projects, setProjects] = createSignal<Project[]>([])
   const [newProjectName, setNewProjectName] = createSignal('')
   const [newProjectDescription, setNewProjectDescription] = createSignal('')
   const [showNewProjectForm, setShowNewProjectForm] = createSignal(false)
+  const [importing, setImporting] = createSignal<ProjectDocument | null>(null)
+  const [importError, setImportError] = createSignal<string | null>(null)
   
-  onMount(() => {
-    setProjects(loadProjects())
+  onMount(async () => {
+    try {
+      setProjects(await projectRepository.listProjects())
+    } catch (error) {
+      console.error('Failed to load projects:', error)
+    }
   })
   
-  const createProject = () => {
+  const createProject = async () => {
     const name = newProjectName().trim()
     if (!name) return
     
@@ -40,13 +35,17 @@ const Home: Component = () => {
       id: `project-${Date.now()}`,
       name,
       description: newProjectDescription().trim() || undefined,
-      createdAt: new Date().toISOString().split('T')[0],
-      updatedAt: new Date().toISOString().split('T')[0]
+      createdAt: new Date(),
+      updatedAt: new Date()
     }
     
-    const updatedProjects = [...projects(), newProject]
-    setProjects(updatedProjects)
-    saveProjects(updatedProjects)
+    try {
+      await projectRepository.createProject(newProject)
+    } catch (error) {
+      console.error('Failed to create project:', error)
+      return
+    }
+    setProjects([...projects(), newProject])
     
     // Reset form
     setNewProjectName('')
@@ -57,6 +56,45 @@ const Home: Component = () => {
     navigate(`/projects/${newProject.id}`)
   }
 
+  // Read an exported project file and let the user choose how to import it
+  const chooseImportFile = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.json'
+    
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (!file) return
+      
+      try {
+        setImportError(null)
+        setImporting(parseProjectArchive(await file.text()))
+      } catch (error) {
+        setImportError(`Could not import ${file.name}: ${(error as Error).message}`)
+      }
+    }
+    
+    input.click()
+  }
+  
+  const importProject = async (name: string, replace?: Project) => {
+    const archive = importing()
+    if (!archive) return
+    
+    const { project, data } = remapProject(archive, { id: replace?.id, name })
+    try {
+      if (replace) discardJournal(replace.id)
+      await projectRepository.importProject(project, data)
+    } catch (error) {
+      setImportError(`Could not import ${archive.project.name}: ${(error as Error).message}`)
+      return
+    } finally {
+      setImporting(null)
+    }
+    
+    navigate(`/projects/${project.id}`)
+  }
+
   return (
     <div class="min-h-screen bg-gray-50">
       <header class="bg-white shadow-sm border-b">
@@ -69,14 +107,29 @@ const Home: Component = () => {
         <div class="mb-8">
           <div class="flex justify-between items-center mb-6">
             <h2 class="text-xl font-semibold text-gray-800">Your Projects</h2>
-            <button
-              class="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              onClick={() => setShowNewProjectForm(true)}
-            >
-              + New Project
-            </button>
+            <div class="flex gap-3">
+              <button
+                class="px-4 py-2 bg-white border text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+                onClick={chooseImportFile}
+              >
+                Import Project
+              </button>
+              <button
+                class="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                onClick={() => setShowNewProjectForm(true)}
+              >
+                + New Project
+              </button>
+            </div>
           </div>
 
+          {importError() && (
+            <div class="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex justify-between">
+              <span>{importError()}</span>
+              <button class="hover:text-red-900" onClick={() => setImportError(null)}>×</button>
+            </div>
+          )}
+
           {showNewProjectForm() && (
             <div class="mb-6 p-4 bg-white rounded-lg shadow">
               <h3 class="text-lg font-medium mb-3">Create New Project</h3>
@@ -132,8 +185,8 @@ const Home: Component = () => {
                     <p class="text-gray-600 text-sm mb-4">{project.description}</p>
                   )}
                   <div class="text-xs text-gray-500">
-                    <div>Created: {project.createdAt}</div>
-                    <div>Updated: {project.updatedAt}</div>
+                    <div>Created: {formatDate(project.createdAt)}</div>
+                    <div>Updated: {formatDate(project.updatedAt)}</div>
                   </div>
                 </A>
               )}
@@ -153,6 +206,13 @@ const Home: Component = () => {
           </div>
         </div>
       </main>
+
+      <ProjectImportDialog
+        document={importing()}
+        projects={projects()}
+        onClose={() => setImporting(null)}
+        onImport={importProject}
+      />
     </div>
   )
 }
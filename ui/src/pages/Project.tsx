@@ -1,4 +1,4 @@
-import { Component, createSignal, Show, onMount, createEffect, Switch, Match, createMemo } from 'solid-js'
+import { Component, batch, createSignal, Show, onMount, createEffect, Switch, Match, createMemo } from 'solid-js'
 import { useParams, A, useNavigate } from '@solidjs/router'
 import Sidebar from '../components/Sidebar'
 import TableEditor from '../components/TableEditor'
@@ -7,16 +7,14 @@ import ViewCreationDialog from '../components/ViewCreationDialog'
 import ViewEditDialog from '../components/ViewEditDialog'
 import FunctionEditor from '../components/FunctionEditor'
 import LayoutBuilder from '../components/LayoutBuilder'
-import { Table, View, AppFunction, Layout, Column } from '@/models/types'
-import { ResizablePanel, PageHeader, Button } from '../components/common'
-
-interface ProjectData {
-  id: string
-  name: string
-  description?: string
-  createdAt: string
-  updatedAt: string
-}
+import HistoryDialog from '../components/HistoryDialog'
+import StorageDialog from '../components/StorageDialog'
+import { Table, View, AppFunction, Layout, Column, ProjectData, Project as ProjectInfo, FunctionLimits } from '@/models/types'
+import { ResizablePanel, PageHeader, Button, SaveIndicator } from '../components/common'
+import { projectRepository } from '../services/projectRepository'
+import { secureFunctionEngine } from '../services/secureFunctionEngine'
+import { createAutosave } from '../services/autosave'
+import { exportProject, downloadFile, parseCSV } from '../utils/exportUtils'
 
 const Project: Component = () => {
   const params = useParams()
@@ -24,12 +22,24 @@ const Project: Component = () => {
   
   // State for project info
   const [projectName, setProjectName] = createSignal<string>('')
+  const [projectInfo, setProjectInfo] = createSignal<ProjectInfo | null>(null)
   
   // State for the current project
   const [tables, setTables] = createSignal<Table[]>([])
   const [views, setViews] = createSignal<View[]>([])
   const [functions, setFunctions] = createSignal<AppFunction[]>([])
   const [layouts, setLayouts] = createSignal<Layout[]>([])
+  const [loaded, setLoaded] = createSignal(false)
+  const [loadError, setLoadError] = createSignal<string | null>(null)  // the project can't be edited when set
+  const setProjectData = (data: ProjectData) => batch(() => {
+    setTables(data.tables)
+    setViews(data.views)
+    setFunctions(data.functions)
+    setLayouts(data.layouts)
+  })
+  
+  // Changes saved in another tab are merged into this page's state
+  const autosave = createAutosave(params.projectId, setProjectData)
   
   // State for active item
   const [activeId, setActiveId] = createSignal<string | null>(null)
@@ -39,62 +49,58 @@ const Project: Component = () => {
   const [showCreateTableDialog, setShowCreateTableDialog] = createSignal(false)
   const [showCreateViewDialog, setShowCreateViewDialog] = createSignal(false)
   const [editingView, setEditingView] = createSignal<View | null>(null)
+  const [showHistory, setShowHistory] = createSignal(false)
+  const [showStorage, setShowStorage] = createSignal(false)
   
   
   // Load project data on mount and handle URL parameters
-  onMount(() => {
-    // Load project metadata
-    const stored = localStorage.getItem('excess-projects')
-    if (stored) {
-      const projects: ProjectData[] = JSON.parse(stored)
-      const currentProject = projects.find(p => p.id === params.projectId)
-      if (currentProject) {
-        setProjectName(currentProject.name)
-      } else {
-        // If project not found, use a default name or redirect
-        setProjectName('Untitled Project')
-      }
-    }
-    
-    // Load project data (tables, views, functions, layouts)
-    const projectDataKey = `excess-project-${params.projectId}`
-    const projectData = localStorage.getItem(projectDataKey)
-    if (projectData) {
-      const data = JSON.parse(projectData)
-      setTables(data.tables || [])
-      setViews(data.views || [])
-      setFunctions(data.functions || [])
-      setLayouts(data.layouts || [])
+  onMount(async () => {
+    try {
+      const project = await projectRepository.getProject(params.projectId)
+      // If project not found, use a default name
+      setProjectName(project?.name || 'Untitled Project')
+      setProjectInfo(project)
+      secureFunctionEngine.setProjectLimits(project?.functionLimits)
       
-      // Set active item from URL params
-      if (params.tableId) {
-        setActiveId(params.tableId)
-        setActiveType('table')
-      } else if (params.viewId) {
-        setActiveId(params.viewId)
-        setActiveType('view')
-      } else if (params.functionId) {
-        setActiveId(params.functionId)
-        setActiveType('function')
-      } else if (params.layoutId) {
-        setActiveId(params.layoutId)
-        setActiveType('layout')
-      }
+      // Load project data (tables, views, functions, layouts)
+      const data = await autosave.load()
+      setTables(data.tables)
+      setViews(data.views)
+      setFunctions(data.functions)
+      setLayouts(data.layouts)
+      setLoaded(true)
+    } catch (error) {
+      // Nothing is shown or saved, so the empty state can't overwrite what is stored
+      console.error('Failed to load project:', error)
+      setLoadError((error as Error).message)
+      return
     }
     
+    // Set active item from URL params
+    if (params.tableId) {
+      setActiveId(params.tableId)
+      setActiveType('table')
+    } else if (params.viewId) {
+      setActiveId(params.viewId)
+      setActiveType('view')
+    } else if (params.functionId) {
+      setActiveId(params.functionId)
+      setActiveType('function')
+    } else if (params.layoutId) {
+      setActiveId(params.layoutId)
+      setActiveType('layout')
+    }
   })
   
-  // Auto-save project data whenever it changes
+  // Track changes for autosave once the project has been loaded
   createEffect(() => {
-    const projectDataKey = `excess-project-${params.projectId}`
-    const data = {
+    if (!loaded()) return
+    autosave.track({
       tables: tables(),
       views: views(),
       functions: functions(),
       layouts: layouts()
-    }
-    localStorage.setItem(projectDataKey, JSON.stringify(data))
-    console.log('Project data saved:', data)
+    })
   })
   
   const handleSelect = (id: string, type: 'table' | 'view' | 'function' | 'layout') => {
@@ -133,13 +139,20 @@ const Project: Component = () => {
     setFunctions(prev => prev.map(f => f.id === updatedFunction.id ? updatedFunction : f))
   }
   
+  const handleUpdateProjectLimits = async (functionLimits: FunctionLimits | undefined) => {
+    const project = projectInfo()
+    if (!project) return
+    setProjectInfo({ ...project, functionLimits })
+    secureFunctionEngine.setProjectLimits(functionLimits)
+    try {
+      await projectRepository.updateProjectFields(project.id, { functionLimits })
+    } catch (error) {
+      console.error('Failed to save project limits:', error)
+    }
+  }
+  
   const handleUpdateLayout = (updatedLayout: Layout) => {
-    console.log('handleUpdateLayout called with:', updatedLayout)
-    setLayouts(prev => {
-      const updated = prev.map(l => l.id === updatedLayout.id ? updatedLayout : l)
-      console.log('Updated layouts:', updated)
-      return updated
-    })
+    setLayouts(prev => prev.map(l => l.id === updatedLayout.id ? updatedLayout : l))
   }
   
   const handleDelete = (id: string, type: 'table' | 'view' | 'function' | 'layout') => {
@@ -205,12 +218,9 @@ const Project: Component = () => {
       if (!file) return
       
       const text = await file.text()
-      const lines = text.trim().split('\n')
+      if (!text.trim()) return
       
-      if (lines.length === 0) return
-      
-      // Parse headers
-      const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''))
+      const { headers, records } = parseCSV(text)
       
       // Create columns from headers
       const columns = headers.map((name, i) => ({
@@ -221,13 +231,11 @@ const Project: Component = () => {
       } as Column))
       
       // Parse rows
-      const rows = lines.slice(1).map(line => {
-        // Handle CSV with potential commas in quoted values
-        const values = line.match(/(".*?"|[^,]+)(?=\s*,|\s*$)/g) || []
+      const rows = records.map(values => {
         const row: Record<string, any> = {}
         
         columns.forEach((col, i) => {
-          let value = values[i]?.trim().replace(/^"|"$/g, '') || null
+          const value = values[i]
           
           // Try to infer type from first few rows
           if (value !== null && value !== '') {
@@ -277,6 +285,18 @@ const Project: Component = () => {
     input.click()
   }
   
+  // Export the whole project as a single file
+  const handleExportProject = async () => {
+    const project = await projectRepository.getProject(params.projectId)
+    if (!project) return
+
+    // Export what is stored, which includes the rows of large tables still loading here
+    await autosave.flush()
+    const content = exportProject(project, await projectRepository.loadProjectData(params.projectId))
+    const fileName = project.name.replace(/[^a-zA-Z0-9_-]/g, '_') || 'project'
+    downloadFile(content, `${fileName}.excess.json`, 'application/json')
+  }
+  
   // Handle creating a new table from dialog
   const handleCreateTable = (tableData: Omit<Table, 'id'>) => {
     const id = `table_${Date.now()}`
@@ -326,7 +346,7 @@ const Project: Component = () => {
           name: `new_function`,
           body: '// Write your function here\nreturn null;',
           returnType: 'any',
-          projectId: '',
+          projectId: params.projectId,
           params: []
         }
         setFunctions(prev => [...prev, newFunction])
@@ -355,67 +375,117 @@ const Project: Component = () => {
           label: '← Projects'
         }}
         actions={
-          <Button
-            variant="secondary"
-            onClick={handleImportCSV}
-          >
-            📁 Import CSV
-          </Button>
+          <Show when={loaded()}>
+            <SaveIndicator autosave={autosave} onManageStorage={() => setShowStorage(true)} />
+            <Button
+              variant="secondary"
+              onClick={handleImportCSV}
+            >
+              📁 Import CSV
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={handleExportProject}
+            >
+              📦 Export Project
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => setShowHistory(true)}
+            >
+              🕘 History
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => setShowStorage(true)}
+            >
+              💾 Storage
+            </Button>
+          </Show>
         }
       />
       
-      <div class="flex-1 flex overflow-hidden">
-        <ResizablePanel class="bg-gray-50 border-r h-full">
-          <Sidebar
-            tables={tables()}
-            views={views()}
-            functions={functions()}
-            layouts={layouts()}
-            activeId={activeId()}
-            activeType={activeType()}
-            onSelect={handleSelect}
-            onRename={handleRename}
-            onUpdateTable={handleUpdateTable}
-            onEditView={handleEditView}
-            onAddNew={handleAddNew}
-            onDelete={handleDelete}
-          />
-        </ResizablePanel>
+      <Show
+        when={!loadError()}
+        fallback={
+          <div class="flex-1 flex items-center justify-center">
+            <div class="text-red-600">Failed to load project: {loadError()}</div>
+          </div>
+        }
+      >
+        <div class="flex-1 flex overflow-hidden">
+          <ResizablePanel class="bg-gray-50 border-r h-full">
+            <Sidebar
+              tables={tables()}
+              views={views()}
+              functions={functions()}
+              layouts={layouts()}
+              activeId={activeId()}
+              activeType={activeType()}
+              onSelect={handleSelect}
+              onRename={handleRename}
+              onUpdateTable={handleUpdateTable}
+              onEditView={handleEditView}
+              onAddNew={handleAddNew}
+              onDelete={handleDelete}
+            />
+          </ResizablePanel>
         
-        <main class="flex-1 overflow-auto bg-white">
-          <Show when={getActiveTable()} keyed>
-            {(table) => <TableEditor table={table} onUpdate={handleUpdateTable} />}
-          </Show>
-          <Show when={getActiveFunction()} keyed>
-            {(func) => <FunctionEditor function={func} onUpdate={handleUpdateFunction} />}
-          </Show>
-          <Show when={getActiveLayout()} keyed>
-            {(layout) => <LayoutBuilder layout={layout} onUpdate={handleUpdateLayout} tables={tables()} />}
-          </Show>
+          <main class="flex-1 overflow-auto bg-white">
+            <Show when={getActiveTable()} keyed>
+              {(table) => <TableEditor table={table} tables={tables()} onUpdate={handleUpdateTable} />}
+            </Show>
+            <Show when={getActiveFunction()} keyed>
+              {(func) => (
+                <FunctionEditor
+                  function={func}
+                  onUpdate={handleUpdateFunction}
+                  tables={tables()}
+                  views={views()}
+                  functions={functions()}
+                  layouts={layouts()}
+                  projectLimits={projectInfo()?.functionLimits}
+                  onUpdateProjectLimits={projectInfo() ? handleUpdateProjectLimits : undefined}
+                  onSelect={handleSelect}
+                />
+              )}
+            </Show>
+            <Show when={getActiveLayout()} keyed>
+              {(layout) => (
+                <LayoutBuilder
+                  layout={layout}
+                  onUpdate={handleUpdateLayout}
+                  tables={tables()}
+                  views={views()}
+                  functions={functions()}
+                />
+              )}
+            </Show>
           
-          <Show when={!activeId()}>
-            <div class="flex items-center justify-center h-full text-gray-400">
-              <div class="text-center">
-                <p class="text-xl mb-4">Select an item from the sidebar or create a new one</p>
-                <div class="flex gap-3 justify-center">
-                  <button
-                    class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-                    onClick={() => handleAddNew('table')}
-                  >
-                    Create Table
-                  </button>
-                  <button
-                    class="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
-                    onClick={() => handleAddNew('view')}
-                  >
-                    Create View
-                  </button>
+            <Show when={!activeId()}>
+              <div class="flex items-center justify-center h-full text-gray-400">
+                <div class="text-center">
+                  <p class="text-xl mb-4">Select an item from the sidebar or create a new one</p>
+                  <div class="flex gap-3 justify-center">
+                    <button
+                      class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                      onClick={() => handleAddNew('table')}
+                    >
+                      Create Table
+                    </button>
+                    <button
+                      class="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+                      onClick={() => handleAddNew('view')}
+                    >
+                      Create View
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
-          </Show>
-        </main>
-      </div>
+            </Show>
+          </main>
+        </div>
+      </Show>
       
       {/* Table Create Dialog */}
       <TableCreateDialog
@@ -432,6 +502,22 @@ const Project: Component = () => {
         onSave={handleCreateView}
       />
       
+      {/* Snapshots and restore */}
+      <HistoryDialog
+        isOpen={showHistory()}
+        projectId={params.projectId}
+        current={{ tables: tables(), views: views(), functions: functions(), layouts: layouts() }}
+        autosave={autosave}
+        onClose={() => setShowHistory(false)}
+        onRestore={setProjectData}
+      />
+      
+      <StorageDialog
+        isOpen={showStorage()}
+        projectId={params.projectId}
+        onClose={() => setShowStorage(false)}
+      />
+      
       {/* View Edit Dialog */}
       <ViewEditDialog
         view={editingView()}
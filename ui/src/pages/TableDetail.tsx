@@ -1,11 +1,13 @@
-import { Component, createSignal, onMount, Show, createEffect } from 'solid-js'
+import { Component, batch, createSignal, onMount, Show, createEffect } from 'solid-js'
 import { useParams, useNavigate, A } from '@solidjs/router'
 import TableEditor from '@/components/TableEditor'
 import Sidebar from '@/components/Sidebar'
 import TableCreateDialog from '@/components/TableCreateDialog'
 import ViewCreationDialog from '@/components/ViewCreationDialog'
 import { Table, View, AppFunction, Layout } from '@/models/types'
-import { ResizablePanel, PageHeader } from '@/components/common'
+import { ResizablePanel, PageHeader, SaveIndicator } from '@/components/common'
+import { projectRepository } from '@/services/projectRepository'
+import { createAutosave } from '@/services/autosave'
 
 const TableDetail: Component = () => {
   const params = useParams()
@@ -18,6 +20,15 @@ const TableDetail: Component = () => {
   const [layouts, setLayouts] = createSignal<Layout[]>([])
   const [projectName, setProjectName] = createSignal<string>('')
   const [loading, setLoading] = createSignal(true)
+  const [loaded, setLoaded] = createSignal(false)
+  // Changes saved in another tab are merged into this page's state
+  const autosave = createAutosave(params.projectId, data => batch(() => {
+    setTables(data.tables)
+    setViews(data.views)
+    setFunctions(data.functions)
+    setLayouts(data.layouts)
+    setTable(data.tables.find(t => t.id === params.tableId) || null)
+  }))
   const [error, setError] = createSignal<string | null>(null)
   const [showCreateTableDialog, setShowCreateTableDialog] = createSignal(false)
   const [showCreateViewDialog, setShowCreateViewDialog] = createSignal(false)
@@ -30,19 +41,10 @@ const TableDetail: Component = () => {
     loadTableData()
   });
 
-  const loadTableData = () => {
+  const loadTableData = async () => {
     try {
       // Load project data
-      const projectsData = localStorage.getItem('excess-projects')
-      if (!projectsData) {
-        setError('No projects found')
-        setLoading(false)
-        return
-      }
-
-      const projects = JSON.parse(projectsData)
-      const project = projects.find((p: any) => p.id === params.projectId)
-      
+      const project = await projectRepository.getProject(params.projectId)
       if (!project) {
         setError('Project not found')
         setLoading(false)
@@ -52,22 +54,14 @@ const TableDetail: Component = () => {
       setProjectName(project.name)
 
       // Load table data
-      const storageKey = `excess-project-${params.projectId}`
-      const storedData = localStorage.getItem(storageKey)
-      
-      if (!storedData) {
-        setError('No table data found')
-        setLoading(false)
-        return
-      }
-
-      const projectData = JSON.parse(storedData)
-      setTables(projectData.tables || [])
-      setViews(projectData.views || [])
-      setFunctions(projectData.functions || [])
-      setLayouts(projectData.layouts || [])
+      const projectData = await autosave.load()
+      setTables(projectData.tables)
+      setViews(projectData.views)
+      setFunctions(projectData.functions)
+      setLayouts(projectData.layouts)
+      setLoaded(true)
       
-      const foundTable = projectData.tables?.find((t: Table) => t.id === params.tableId)
+      const foundTable = projectData.tables.find((t: Table) => t.id === params.tableId)
       
       if (!foundTable) {
         setError('Table not found')
@@ -85,24 +79,9 @@ const TableDetail: Component = () => {
   }
 
   const handleTableUpdate = (updatedTable: Table) => {
-    try {
-      // Update table in storage
-      const storageKey = `excess-project-${params.projectId}`
-      const storedData = localStorage.getItem(storageKey)
-      
-      if (!storedData) return
-
-      const projectData = JSON.parse(storedData)
-      const tableIndex = projectData.tables?.findIndex((t: Table) => t.id === params.tableId)
-      
-      if (tableIndex !== undefined && tableIndex >= 0) {
-        projectData.tables[tableIndex] = updatedTable
-        localStorage.setItem(storageKey, JSON.stringify(projectData))
-        setTable(updatedTable)
-        setTables(projectData.tables)
-      }
-    } catch (err) {
-      console.error('Error updating table:', err)
+    setTables(prev => prev.map(t => t.id === updatedTable.id ? updatedTable : t))
+    if (updatedTable.id === params.tableId) {
+      setTable(updatedTable)
     }
   }
 
@@ -165,18 +144,15 @@ const TableDetail: Component = () => {
     navigate(`/projects/${params.projectId}/views/${id}`)
   }
 
-  // Auto-save project data whenever it changes
+  // Track changes for autosave once the project has been loaded
   createEffect(() => {
-    const projectDataKey = `excess-project-${params.projectId}`
-    const data = {
+    if (!loaded()) return
+    autosave.track({
       tables: tables(),
       views: views(),
       functions: functions(),
       layouts: layouts()
-    }
-    if (tables().length > 0 || views().length > 0 || functions().length > 0 || layouts().length > 0) {
-      localStorage.setItem(projectDataKey, JSON.stringify(data))
-    }
+    })
   })
 
   return (
@@ -187,6 +163,7 @@ const TableDetail: Component = () => {
           href: '/',
           label: '← Projects'
         }}
+        actions={<SaveIndicator autosave={autosave} />}
       />
       
       <div class="flex-1 flex overflow-hidden">
@@ -222,6 +199,7 @@ const TableDetail: Component = () => {
           <Show when={!loading() && !error() && table()}>
             <TableEditor
               table={table()!}
+              tables={tables()}
               onUpdate={handleTableUpdate}
             />
           </Show>
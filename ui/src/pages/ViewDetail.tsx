@@ -1,12 +1,17 @@
-import { Component, createSignal, createEffect, For, Show, onMount } from 'solid-js'
+import { Component, batch, createSignal, createEffect, For, Show, onMount, onCleanup } from 'solid-js'
 import { useParams, A, useNavigate } from '@solidjs/router'
 import { View, Table, AppFunction, Layout } from '../models/types'
-import { queryEngine } from '../services/queryEngine'
+import { QueryResult, queryEngine } from '../services/queryEngine'
+import { createAutosave } from '../services/autosave'
+import { projectRepository } from '../services/projectRepository'
+import { secureFunctionEngine } from '../services/secureFunctionEngine'
 import Sidebar from '../components/Sidebar'
 import ViewEditDialog from '../components/ViewEditDialog'
 import TableCreateDialog from '../components/TableCreateDialog'
 import ViewCreationDialog from '../components/ViewCreationDialog'
-import { ResizablePanel, PageHeader, Button } from '../components/common'
+import QueryErrorMessage from '../components/QueryErrorMessage'
+import FunctionErrorsNotice from '../components/FunctionErrorsNotice'
+import { ResizablePanel, PageHeader, Button, SaveIndicator } from '../components/common'
 
 const ViewDetail: Component = () => {
   const params = useParams()
@@ -17,13 +22,18 @@ const ViewDetail: Component = () => {
   const [functions, setFunctions] = createSignal<AppFunction[]>([])
   const [layouts, setLayouts] = createSignal<Layout[]>([])
   const [loading, setLoading] = createSignal(true)
+  const [loaded, setLoaded] = createSignal(false)
+  // Changes saved in another tab are merged into this page's state
+  const autosave = createAutosave(params.projectId, data => batch(() => {
+    setTables(data.tables)
+    setViews(data.views)
+    setFunctions(data.functions)
+    setLayouts(data.layouts)
+    setView(data.views.find(v => v.id === params.viewId) || null)
+  }))
   const [error, setError] = createSignal<string>('')
   
-  const [queryResult, setQueryResult] = createSignal<{
-    columns: string[]
-    rows: any[]
-    error?: string
-  }>({ columns: [], rows: [] })
+  const [queryResult, setQueryResult] = createSignal<QueryResult>({ columns: [], rows: [] })
   
   const [isExecuting, setIsExecuting] = createSignal(false)
   const [autoRefresh, setAutoRefresh] = createSignal(false)
@@ -37,70 +47,51 @@ const ViewDetail: Component = () => {
     loadData()
   })
 
-  const loadData = () => {
+  const loadData = async () => {
     try {
       setLoading(true)
       
-      // Load all project data from localStorage
-      const projectDataKey = `excess-project-${params.projectId}`
-      const storedData = localStorage.getItem(projectDataKey)
+      const project = await projectRepository.getProject(params.projectId)
+      secureFunctionEngine.setProjectLimits(project?.functionLimits)
+
+      // Load all project data
+      const data = await autosave.load()
+      setTables(data.tables)
+      setViews(data.views)
+      setFunctions(data.functions)
+      setLayouts(data.layouts)
+      setLoaded(true)
       
-      if (storedData) {
-        const data = JSON.parse(storedData)
-        console.log('Loaded project data:', data)
-        setTables(data.tables || [])
-        setViews(data.views || [])
-        setFunctions(data.functions || [])
-        setLayouts(data.layouts || [])
-        
-        // Find current view
-        const currentView = data.views?.find((v: View) => v.id === params.viewId)
-        if (currentView) {
-          setView(currentView)
-        } else {
-          setError('View not found')
-        }
+      // Find current view
+      const currentView = data.views.find((v: View) => v.id === params.viewId)
+      if (currentView) {
+        setView(currentView)
       } else {
-        // Fallback to old storage format
-        const storedViews = localStorage.getItem(`views_${params.projectId}`)
-        const storedTables = localStorage.getItem(`tables_${params.projectId}`)
-        const storedFunctions = localStorage.getItem(`functions_${params.projectId}`)
-        const storedLayouts = localStorage.getItem(`layouts_${params.projectId}`)
-        
-        if (storedViews) {
-          const viewsData: View[] = JSON.parse(storedViews)
-          setViews(viewsData)
-          const currentView = viewsData.find(v => v.id === params.viewId)
-          if (currentView) {
-            setView(currentView)
-          } else {
-            setError('View not found')
-          }
-        }
-        
-        if (storedTables) {
-          setTables(JSON.parse(storedTables))
-        }
-        
-        if (storedFunctions) {
-          setFunctions(JSON.parse(storedFunctions))
-        }
-        
-        if (storedLayouts) {
-          setLayouts(JSON.parse(storedLayouts))
-        }
+        setError('View not found')
       }
     } catch (err) {
-      setError('Failed to load view data')
+      setError(`Failed to load view data: ${(err as Error).message}`)
       console.error(err)
     } finally {
       setLoading(false)
     }
   }
 
-  // Update query engine with available tables and functions
+  // Track changes for autosave once the project has been loaded
+  createEffect(() => {
+    if (!loaded()) return
+    autosave.track({
+      tables: tables(),
+      views: views(),
+      functions: functions(),
+      layouts: layouts()
+    })
+  })
+
+  // Update query engine with available tables, views and functions
   createEffect(() => {
     queryEngine.setTables(tables())
+    queryEngine.setViews(views())
     queryEngine.setFunctions(functions())
   })
 
@@ -123,7 +114,14 @@ const ViewDetail: Component = () => {
     }
   })
 
-  const executeQuery = () => {
+  // Queries finish asynchronously; only the latest one's result is shown, and
+  // starting a query cancels the FN calls of the one before
+  let latestQuery = 0
+  const [currentRun, setCurrentRun] = createSignal<AbortController | null>(null)
+
+  onCleanup(() => currentRun()?.abort())
+
+  const executeQuery = async () => {
     const currentView = view()
     console.log('Executing query for view:', currentView)
     if (!currentView || !currentView.query.trim()) {
@@ -131,20 +129,29 @@ const ViewDetail: Component = () => {
       return
     }
 
+    const queryId = ++latestQuery
+    currentRun()?.abort()
+    const run = new AbortController()
+    setCurrentRun(run)
     setIsExecuting(true)
     
     try {
-      const result = queryEngine.executeQuery(currentView.query)
+      const result = await queryEngine.executeQuery(currentView.query, { signal: run.signal })
+      if (queryId !== latestQuery) return
       console.log('Query result:', result)
       setQueryResult(result)
     } catch (error) {
+      if (queryId !== latestQuery) return
       setQueryResult({ 
         columns: [], 
         rows: [], 
         error: error instanceof Error ? error.message : 'Query execution failed' 
       })
     } finally {
-      setIsExecuting(false)
+      if (queryId === latestQuery) {
+        setIsExecuting(false)
+        setCurrentRun(null)
+      }
     }
   }
 
@@ -203,22 +210,13 @@ const ViewDetail: Component = () => {
   }
 
   const handleRename = (id: string, type: 'table' | 'view' | 'function' | 'layout', newName: string) => {
-    // Update name in local state and save to localStorage
+    // Update name in local state; the auto-save effect persists it
     if (type === 'view') {
       setViews(prev => prev.map(v => v.id === id ? { ...v, title: newName } : v))
       if (view()?.id === id) {
         setView(prev => prev ? { ...prev, title: newName } : prev)
       }
     }
-    // Save to localStorage
-    const projectDataKey = `excess-project-${params.projectId}`
-    const data = {
-      tables: tables(),
-      views: views(),
-      functions: functions(),
-      layouts: layouts()
-    }
-    localStorage.setItem(projectDataKey, JSON.stringify(data))
   }
 
   const handleUpdateTable = () => {
@@ -249,15 +247,6 @@ const ViewDetail: Component = () => {
       projectId: params.projectId
     }
     setTables(prev => [...prev, newTable])
-    // Save to localStorage
-    const projectDataKey = `excess-project-${params.projectId}`
-    const data = {
-      tables: tables(),
-      views: views(),
-      functions: functions(),
-      layouts: layouts()
-    }
-    localStorage.setItem(projectDataKey, JSON.stringify(data))
     // Navigate to the new table
     navigate(`/projects/${params.projectId}/tables/${id}`)
   }
@@ -270,15 +259,6 @@ const ViewDetail: Component = () => {
       projectId: params.projectId
     }
     setViews(prev => [...prev, newView])
-    // Save to localStorage
-    const projectDataKey = `excess-project-${params.projectId}`
-    const data = {
-      tables: tables(),
-      views: views(),
-      functions: functions(),
-      layouts: layouts()
-    }
-    localStorage.setItem(projectDataKey, JSON.stringify(data))
     // Navigate to the new view
     navigate(`/projects/${params.projectId}/views/${id}`)
   }
@@ -299,15 +279,6 @@ const ViewDetail: Component = () => {
       // Re-execute query with updated settings
       executeQuery()
     }
-    // Save to localStorage
-    const projectDataKey = `excess-project-${params.projectId}`
-    const data = {
-      tables: tables(),
-      views: views(),
-      functions: functions(),
-      layouts: layouts()
-    }
-    localStorage.setItem(projectDataKey, JSON.stringify(data))
   }
 
   return (
@@ -320,6 +291,7 @@ const ViewDetail: Component = () => {
         }}
         actions={
           <>
+            <SaveIndicator autosave={autosave} />
             <button
               class="p-2 hover:bg-gray-100 rounded"
               onClick={() => setShowSidebar(!showSidebar())}
@@ -335,6 +307,14 @@ const ViewDetail: Component = () => {
             >
               {isExecuting() ? 'Refreshing...' : 'Refresh'}
             </Button>
+            <Show when={currentRun()}>
+              <Button
+                variant="secondary"
+                onClick={() => currentRun()?.abort()}
+              >
+                Cancel
+              </Button>
+            </Show>
           
           <div class="flex items-center gap-2">
             <label class="flex items-center gap-2 text-sm">
@@ -418,10 +398,9 @@ const ViewDetail: Component = () => {
             
             <div class="flex-1 overflow-auto">
               <Show when={queryResult().error}>
-                <div class="p-4 text-red-600 bg-red-50">
-                  <span class="font-semibold">Error:</span> {queryResult().error}
-                </div>
+                <QueryErrorMessage result={queryResult()} />
               </Show>
+              <FunctionErrorsNotice result={queryResult()} />
               
               <Show when={!queryResult().error && queryResult().columns.length > 0}>
                 <div class="h-full overflow-auto">
@@ -0,0 +1,362 @@
+import { Accessor, createSignal, onCleanup } from 'solid-js'
+import { ProjectData, Table } from '../models/types'
+import { EntityChange, EntityKind, KINDS, projectRepository } from './projectRepository'
+import { reviveTimestamps } from './migrations'
+import { tabSync } from './tabSync'
+import { snapshots } from './snapshots'
+import { isQuotaError, storageMonitor } from './storageUsage'
+
+export type SaveStatus = 'saved' | 'unsaved' | 'saving' | 'error'
+
+const SAVE_DELAY = 1000
+const RETRY_DELAY = 5000
+const JOURNAL_PREFIX = 'excess-journal-'
+
+// Entities not yet in IndexedDB, serialized and keyed by "kind:id"; null marks a deletion
+type JournalEntries = Record<string, string | null>
+
+/**
+ * Write-ahead journal kept in localStorage, which unlike IndexedDB is written
+ * synchronously and so survives the tab closing mid-save. Entries are recorded
+ * before a save starts and dropped once that exact content has been written.
+ */
+class Journal {
+  constructor(private key: string) {}
+
+  read(): JournalEntries {
+    try {
+      return JSON.parse(localStorage.getItem(this.key) || '{}')
+    } catch {
+      return {}
+    }
+  }
+
+  record(entries: JournalEntries) {
+    this.write({ ...this.read(), ...entries })
+  }
+
+  commit(entries: JournalEntries) {
+    const journal = this.read()
+    for (const [key, value] of Object.entries(entries)) {
+      if (journal[key] === value) delete journal[key]
+    }
+    this.write(journal)
+  }
+
+  private write(journal: JournalEntries) {
+    try {
+      if (Object.keys(journal).length === 0) {
+        localStorage.removeItem(this.key)
+      } else {
+        localStorage.setItem(this.key, JSON.stringify(journal))
+      }
+    } catch (error) {
+      // Saving still works without the journal; only crash recovery is lost
+      console.warn('Failed to update the autosave journal:', error)
+    }
+  }
+}
+
+const parseKey = (key: string) => {
+  const split = key.indexOf(':')
+  return { kind: key.slice(0, split) as EntityKind, id: key.slice(split + 1) }
+}
+
+// Copy of the data with one entity replaced, added at the end, or removed when null
+const replaceEntity = (data: ProjectData, kind: EntityKind, id: string, entity: any | null): ProjectData => {
+  const entities: any[] = data[kind].filter(e => e.id !== id)
+  if (entity) {
+    const index = data[kind].findIndex(e => e.id === id)
+    entities.splice(index === -1 ? entities.length : index, 0, entity)
+  }
+  return { ...data, [kind]: entities }
+}
+
+// Drop unsaved changes for a project, e.g. because it is being replaced
+export const discardJournal = (projectId: string) => {
+  localStorage.removeItem(`${JOURNAL_PREFIX}${projectId}`)
+}
+
+// An entity changed both here and in another tab
+export interface SyncConflict {
+  key: string
+  title: string
+  mine: any | null    // the unsaved version in this tab, null if deleted here
+  theirs: any | null  // the version the other tab saved, null if deleted there
+}
+
+export interface Autosave {
+  status: Accessor<SaveStatus>
+  error: Accessor<string | null>  // why the last save failed
+  recovered: Accessor<number>  // changes restored from the journal by the last load
+  conflicts: Accessor<SyncConflict[]>
+  load: () => Promise<ProjectData>
+  track: (data: ProjectData) => void
+  flush: () => Promise<void>
+  dismissRecovered: () => void
+  resolveConflict: (key: string, keep: 'mine' | 'theirs') => void
+}
+
+/**
+ * Autosave for a project page. Call `load` instead of loading through the
+ * repository, then pass the current data to `track` from an effect.
+ *
+ * Changes are found by comparing each entity with the object last saved, so a
+ * keystroke only costs a reference check per entity. Changed entities go to the
+ * journal immediately and to IndexedDB once editing pauses. Pending changes are
+ * written when the page is left or hidden.
+ *
+ * Entities saved by another tab are merged in through `apply`, which should
+ * set the page's state to the data it is given. An entity with unsaved edits
+ * here is not overwritten; it becomes a conflict for the user to resolve and
+ * isn't saved until then.
+ */
+export const createAutosave = (projectId: string, apply: (data: ProjectData) => void): Autosave => {
+  const [status, setStatus] = createSignal<SaveStatus>('saved')
+  const [error, setError] = createSignal<string | null>(null)
+  const [recovered, setRecovered] = createSignal(0)
+  const [conflicts, setConflicts] = createSignal<SyncConflict[]>([])
+  const journal = new Journal(`${JOURNAL_PREFIX}${projectId}`)
+
+  let saved = new Map<string, any>()  // "kind:id" → entity object as last saved
+  let latest: ProjectData | null = null
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let inFlight = 0
+  const writing = new Map<string, number>()  // "kind:id" → number of unfinished writes
+  let failed = false
+
+  const changedEntities = (data: ProjectData) => {
+    const changes = new Map<string, any | null>()
+    const present = new Set<string>()
+    for (const kind of KINDS) {
+      for (const entity of data[kind]) {
+        const key = `${kind}:${entity.id}`
+        present.add(key)
+        if (saved.get(key) !== entity) changes.set(key, entity)
+      }
+    }
+    for (const key of saved.keys()) {
+      if (!present.has(key)) changes.set(key, null)
+    }
+    return changes
+  }
+
+  const serialize = (changes: Map<string, any | null>): JournalEntries =>
+    Object.fromEntries([...changes].map(([key, entity]) => [key, entity ? JSON.stringify(entity) : null]))
+
+  const updateStatus = () => {
+    if (failed) setStatus('error')
+    else if (latest && changedEntities(latest).size > 0) setStatus('unsaved')
+    else if (inFlight > 0) setStatus('saving')
+    else setStatus('saved')
+  }
+
+  const schedule = (delay: number) => {
+    clearTimeout(timer)
+    timer = setTimeout(flush, delay)
+  }
+
+  const flush = (): Promise<void> => {
+    clearTimeout(timer)
+    timer = undefined
+    const changes = latest ? changedEntities(latest) : new Map()
+    conflicts().forEach(conflict => changes.delete(conflict.key))
+    if (changes.size === 0) return Promise.resolve()
+
+    // Treat the changes as saved while they are written so they aren't sent twice
+    const previous = new Map(saved)
+    for (const [key, entity] of changes) {
+      if (entity) saved.set(key, entity)
+      else saved.delete(key)
+    }
+
+    const entries = serialize(changes)
+    const list: EntityChange[] = [...changes].map(([key, entity]) => ({ ...parseKey(key), entity }))
+
+    // Keep the state from before this edit when it's time for an automatic snapshot
+    snapshots.autoSnapshot(projectId)
+
+    inFlight++
+    changes.forEach((_, key) => writing.set(key, (writing.get(key) || 0) + 1))
+    updateStatus()
+    // Enqueued synchronously, so a load requested after this call sees the write
+    return projectRepository.saveChanges(projectId, list)
+      .then(() => {
+        failed = false
+        setError(null)
+        journal.commit(entries)
+        storageMonitor.check()
+      })
+      .catch(error => {
+        console.error('Failed to save project data:', error)
+        failed = true
+        if (isQuotaError(error)) {
+          setError('Browser storage is full. Your changes are kept in this tab and will be saved once space is freed, e.g. by deleting snapshots or large tables.')
+          storageMonitor.check(true)
+        } else {
+          setError(`Saving failed: ${error?.message || error}`)
+        }
+        // Mark whatever wasn't replaced since as unsaved again, then retry
+        for (const key of changes.keys()) {
+          if (saved.get(key) !== changes.get(key)) continue
+          if (previous.has(key)) saved.set(key, previous.get(key))
+          else saved.delete(key)
+        }
+        schedule(RETRY_DELAY)
+      })
+      .finally(() => {
+        inFlight--
+        changes.forEach((_, key) => {
+          const count = writing.get(key)! - 1
+          if (count === 0) writing.delete(key)
+          else writing.set(key, count)
+        })
+        updateStatus()
+      })
+  }
+
+  const track = (data: ProjectData) => {
+    latest = data
+    const changes = changedEntities(data)
+    if (changes.size > 0) {
+      journal.record(serialize(changes))
+      schedule(SAVE_DELAY)
+    }
+    updateStatus()
+  }
+
+  const load = async (): Promise<ProjectData> => {
+    flush()
+    const stored = await projectRepository.loadProjectData(projectId, { lazyRows: true })
+
+    saved = new Map()
+    for (const kind of KINDS) {
+      for (const entity of stored[kind]) saved.set(`${kind}:${entity.id}`, entity)
+    }
+
+    // Reapply changes that never reached IndexedDB, e.g. because the tab closed
+    let data = stored
+    const written: JournalEntries = {}
+    let count = 0
+    for (const [key, value] of Object.entries(journal.read())) {
+      const { kind, id } = parseKey(key)
+      if (!KINDS.includes(kind)) continue
+
+      const current = saved.get(key)
+      if ((current ? JSON.stringify(current) : null) === value) {
+        written[key] = value
+        continue
+      }
+
+      data = replaceEntity(data, kind, id, value === null ? null : reviveTimestamps(JSON.parse(value)))
+      count++
+    }
+    journal.commit(written)
+
+    latest = data
+    setRecovered(count)
+    setConflicts([])
+    updateStatus()
+    data.tables.filter(table => table.rowsPending).forEach(loadRows)
+    storageMonitor.check(true)
+    return data
+  }
+
+  // Fill in the rows of a large table once they have been read
+  const loadRows = (table: Table) => {
+    projectRepository.loadTableRows(table)
+      .then(rows => {
+        const current = latest?.tables.find(t => t.id === table.id)
+        if (!latest || !current?.rowsPending) return
+        const { rowsPending, ...fields } = current
+        const filled = { ...fields, rows }
+        const key = `tables:${table.id}`
+        if (saved.get(key) === current) saved.set(key, filled)
+        latest = replaceEntity(latest, 'tables', table.id, filled)
+        apply(latest)
+        updateStatus()
+      })
+      .catch(error => console.error(`Failed to load the rows of table ${table.title}:`, error))
+  }
+
+  // Merge entities another tab has saved
+  const receive = (changes: EntityChange[]) => {
+    if (!latest) return
+    let data = latest
+    let found = conflicts()
+
+    for (const { kind, id, entity } of changes) {
+      const key = `${kind}:${id}`
+      const mine = data[kind].find(e => e.id === id) ?? null
+      const unchanged = !writing.has(key) && mine === (saved.get(key) ?? null)
+      const same = JSON.stringify(mine) === JSON.stringify(entity)
+
+      if (unchanged || same) {
+        data = replaceEntity(data, kind, id, entity)
+        found = found.filter(c => c.key !== key)
+      } else {
+        const title = (entity || mine).title || (entity || mine).name || id
+        found = [...found.filter(c => c.key !== key), { key, title, mine, theirs: entity }]
+      }
+      // What they saved is now what is stored
+      if (entity) saved.set(key, entity)
+      else saved.delete(key)
+    }
+
+    setConflicts(found)
+    if (data !== latest) {
+      latest = data
+      apply(data)
+      // Large tables come as the other tab had them, possibly with their rows still unread
+      const received = new Set(changes.filter(c => c.kind === 'tables').map(c => c.id))
+      data.tables.filter(table => table.rowsPending && received.has(table.id)).forEach(loadRows)
+    }
+    updateStatus()
+  }
+
+  const resolveConflict = (key: string, keep: 'mine' | 'theirs') => {
+    const conflict = conflicts().find(c => c.key === key)
+    if (!conflict || !latest) return
+    setConflicts(conflicts().filter(c => c !== conflict))
+
+    if (keep === 'theirs') {
+      const { kind, id } = parseKey(key)
+      journal.commit({ [key]: conflict.mine ? JSON.stringify(conflict.mine) : null })
+      latest = replaceEntity(latest, kind, id, conflict.theirs)
+      apply(latest)
+      if (kind === 'tables' && conflict.theirs?.rowsPending) loadRows(conflict.theirs)
+    } else {
+      schedule(SAVE_DELAY)
+    }
+    updateStatus()
+  }
+
+  const unsubscribe = tabSync.subscribe((id, changes) => {
+    if (id === projectId) receive(changes)
+  })
+
+  const flushIfHidden = () => {
+    if (document.visibilityState === 'hidden') flush()
+  }
+  document.addEventListener('visibilitychange', flushIfHidden)
+  window.addEventListener('pagehide', flush)
+
+  onCleanup(() => {
+    unsubscribe()
+    document.removeEventListener('visibilitychange', flushIfHidden)
+    window.removeEventListener('pagehide', flush)
+    flush()
+  })
+
+  return {
+    status,
+    error,
+    recovered,
+    conflicts,
+    load,
+    track,
+    flush,
+    dismissRecovered: () => setRecovered(0),
+    resolveConflict
+  }
+}
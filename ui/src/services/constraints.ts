@@ -0,0 +1,190 @@
+import { Table } from '../models/types'
+
+// How imported rows that clash with existing keys are handled
+export type ImportMode = 'reject' | 'skip' | 'upsert'
+
+export interface KeyConstraint {
+  name: string
+  columns: string[]
+  primary: boolean
+}
+
+export interface ConstraintViolation {
+  row: number             // index of the offending row
+  constraint: string
+  columns: string[]       // columns of the constraint, to highlight
+  key: string             // constraint and key value, the same for every row repeating that key
+  conflictsWith?: number  // row that already has the key; absent when a primary key is missing
+  message: string
+}
+
+export interface ImportResult {
+  rows: Record<string, any>[]
+  inserted: number
+  updated: number
+  violations: ConstraintViolation[]  // indexes refer to the imported rows
+}
+
+const isMissing = (value: any) => value === null || value === undefined || value === ''
+
+// Cells hold numbers and booleans as text once edited, so 5 and "5" are the same key
+const keyValue = (value: any) => typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+const formatValue = (value: any) => typeof value === 'string' ? `"${value}"` : JSON.stringify(value)
+
+/**
+ * The primary key and unique constraints of a table, including unique indexes.
+ */
+export const keyConstraints = (table: Table): KeyConstraint[] => {
+  const constraints: KeyConstraint[] = []
+  if (table.primaryKey && table.primaryKey.length > 0) {
+    constraints.push({ name: 'PRIMARY KEY', columns: table.primaryKey, primary: true })
+  }
+  const unique = [...(table.uniqueConstraints || []), ...(table.indexes || []).filter(index => index.unique)]
+  for (const index of unique) {
+    if (index.columns.length > 0) constraints.push({ name: index.name, columns: index.columns, primary: false })
+  }
+  return constraints
+}
+
+/**
+ * The key of a row made of the given columns, or null when part of it is
+ * missing: unique constraints and foreign keys don't apply to such rows, as in
+ * SQL, and primary keys reject them.
+ */
+export const keyOf = (row: Record<string, any>, columns: string[]): string | null => {
+  const values = columns.map(c => row[c])
+  return values.some(isMissing) ? null : JSON.stringify(values.map(keyValue))
+}
+
+const rowKey = (row: Record<string, any>, constraint: KeyConstraint) => keyOf(row, constraint.columns)
+
+const describeKey = (row: Record<string, any>, constraint: KeyConstraint) =>
+  `${constraint.primary ? 'primary key' : `unique key ${constraint.name}`} ` +
+  `(${constraint.columns.map(c => `${c} = ${formatValue(row[c])}`).join(', ')})`
+
+const missingKey = (row: number, constraint: KeyConstraint): ConstraintViolation => ({
+  row,
+  constraint: constraint.name,
+  columns: constraint.columns,
+  key: `${constraint.name}:`,
+  message: `Primary key ${constraint.columns.join(', ')} is empty`
+})
+
+/**
+ * Rows that repeat a primary or unique key of an earlier row, or leave part of
+ * the primary key empty. The first row holding a key is not reported.
+ */
+export const findViolations = (table: Table, rows: Record<string, any>[] = table.rows): ConstraintViolation[] => {
+  const violations: ConstraintViolation[] = []
+  for (const constraint of keyConstraints(table)) {
+    const seen = new Map<string, number>()
+    rows.forEach((row, index) => {
+      const key = rowKey(row, constraint)
+      if (key === null) {
+        if (constraint.primary) violations.push(missingKey(index, constraint))
+        return
+      }
+      const first = seen.get(key)
+      if (first === undefined) {
+        seen.set(key, index)
+        return
+      }
+      violations.push({
+        row: index,
+        constraint: constraint.name,
+        columns: constraint.columns,
+        key: `${constraint.name}:${key}`,
+        conflictsWith: first,
+        message: `Duplicate ${describeKey(row, constraint)}, already in row ${first + 1}`
+      })
+    })
+  }
+  return violations
+}
+
+/**
+ * Duplicate keys an edit would add to a table. Keys that were already
+ * duplicated before the edit don't count, so older data never blocks editing.
+ */
+export const introducedViolations = (before: Table, after: Table): ConstraintViolation[] => {
+  const duplicated = (table: Table) => findViolations(table).filter(v => v.conflictsWith !== undefined)
+  const existing = new Set(duplicated(before).map(v => v.key))
+  return duplicated(after).filter(v => !existing.has(v.key))
+}
+
+/**
+ * Add imported rows to a table. Rows whose keys clash with a row already in the
+ * table, or with an earlier imported row, are handled according to `mode`:
+ * - reject: nothing is imported if any row clashes
+ * - skip: clashing rows are left out
+ * - upsert: a clashing row updates the row it matches, unless it matches several
+ * Rows that are left out are reported in `violations`.
+ */
+export const mergeRows = (table: Table, incoming: Record<string, any>[], mode: ImportMode): ImportResult => {
+  const constraints = keyConstraints(table)
+  const primary = constraints.find(c => c.primary)
+  const rows = [...table.rows]
+  const keys = constraints.map(() => new Map<string, number>())  // per constraint: key → index in rows
+
+  const addKeys = (row: Record<string, any>, at: number) => constraints.forEach((constraint, i) => {
+    const key = rowKey(row, constraint)
+    if (key !== null && !keys[i].has(key)) keys[i].set(key, at)
+  })
+  const removeKeys = (row: Record<string, any>, at: number) => constraints.forEach((constraint, i) => {
+    const key = rowKey(row, constraint)
+    if (key !== null && keys[i].get(key) === at) keys[i].delete(key)
+  })
+  rows.forEach(addKeys)
+
+  let inserted = 0
+  let updated = 0
+  const violations: ConstraintViolation[] = []
+
+  incoming.forEach((row, index) => {
+    if (primary && rowKey(row, primary) === null) {
+      violations.push(missingKey(index, primary))
+      return
+    }
+
+    const matches = new Map<number, KeyConstraint>()  // matched row → first constraint it matched on
+    constraints.forEach((constraint, i) => {
+      const key = rowKey(row, constraint)
+      const at = key === null ? undefined : keys[i].get(key)
+      if (at !== undefined && !matches.has(at)) matches.set(at, constraint)
+    })
+
+    if (matches.size === 0) {
+      addKeys(row, rows.length)
+      rows.push(row)
+      inserted++
+      return
+    }
+
+    const [[at, constraint]] = matches
+    if (mode === 'upsert' && matches.size === 1) {
+      const merged = { ...rows[at], ...row }
+      removeKeys(rows[at], at)
+      rows[at] = merged
+      addKeys(merged, at)
+      updated++
+      return
+    }
+
+    violations.push({
+      row: index,
+      constraint: constraint.name,
+      columns: constraint.columns,
+      key: `${constraint.name}:${rowKey(row, constraint)}`,
+      conflictsWith: at,
+      message: matches.size > 1
+        ? `Keys match ${matches.size} different rows (${[...matches.keys()].map(i => i + 1).join(', ')})`
+        : `Duplicate ${describeKey(row, constraint)}, already in row ${at + 1}`
+    })
+  })
+
+  if (mode === 'reject' && violations.length > 0) {
+    return { rows: table.rows, inserted: 0, updated: 0, violations }
+  }
+  return { rows, inserted, updated, violations }
+}
@@ -1,7 +1,47 @@
-import { Project, Table, View, AppFunction, Layout } from '../models/types'
+import { Project, Table, View, AppFunction, Layout, Snapshot, SnapshotChunk, RowChunk } from '../models/types'
 
 const DB_NAME = 'ExcessDB'
-const DB_VERSION = 1
+
+// Object store changes, in order; step i upgrades the database to version i + 1.
+// Only append steps: browsers run the ones newer than the version they have.
+const STORE_UPGRADES: ((db: IDBDatabase) => void)[] = [
+  db => {
+    const projectStore = db.createObjectStore('projects', { keyPath: 'id' })
+    projectStore.createIndex('name', 'name', { unique: false })
+    projectStore.createIndex('updatedAt', 'updatedAt', { unique: false })
+
+    const tableStore = db.createObjectStore('tables', { keyPath: 'id' })
+    tableStore.createIndex('projectId', 'projectId', { unique: false })
+    tableStore.createIndex('title', 'title', { unique: false })
+
+    const viewStore = db.createObjectStore('views', { keyPath: 'id' })
+    viewStore.createIndex('projectId', 'projectId', { unique: false })
+    viewStore.createIndex('title', 'title', { unique: false })
+
+    const functionStore = db.createObjectStore('functions', { keyPath: 'id' })
+    functionStore.createIndex('projectId', 'projectId', { unique: false })
+    functionStore.createIndex('name', 'name', { unique: false })
+
+    const layoutStore = db.createObjectStore('layouts', { keyPath: 'id' })
+    layoutStore.createIndex('projectId', 'projectId', { unique: false })
+    layoutStore.createIndex('title', 'title', { unique: false })
+  },
+  db => {
+    const snapshotStore = db.createObjectStore('snapshots', { keyPath: 'id' })
+    snapshotStore.createIndex('projectId', 'projectId', { unique: false })
+  },
+  db => {
+    const chunkStore = db.createObjectStore('rowChunks', { keyPath: 'id' })
+    chunkStore.createIndex('tableId', 'tableId', { unique: false })
+    chunkStore.createIndex('projectId', 'projectId', { unique: false })
+  },
+  db => {
+    const snapshotChunkStore = db.createObjectStore('snapshotChunks', { keyPath: 'id' })
+    snapshotChunkStore.createIndex('projectId', 'projectId', { unique: false })
+  }
+]
+
+const DB_VERSION = STORE_UPGRADES.length
 
 class Database {
   private db: IDBDatabase | null = null
@@ -18,36 +58,8 @@ class Database {
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result
-
-        // Create object stores if they don't exist
-        if (!db.objectStoreNames.contains('projects')) {
-          const projectStore = db.createObjectStore('projects', { keyPath: 'id' })
-          projectStore.createIndex('name', 'name', { unique: false })
-          projectStore.createIndex('updatedAt', 'updatedAt', { unique: false })
-        }
-
-        if (!db.objectStoreNames.contains('tables')) {
-          const tableStore = db.createObjectStore('tables', { keyPath: 'id' })
-          tableStore.createIndex('projectId', 'projectId', { unique: false })
-          tableStore.createIndex('title', 'title', { unique: false })
-        }
-
-        if (!db.objectStoreNames.contains('views')) {
-          const viewStore = db.createObjectStore('views', { keyPath: 'id' })
-          viewStore.createIndex('projectId', 'projectId', { unique: false })
-          viewStore.createIndex('title', 'title', { unique: false })
-        }
-
-        if (!db.objectStoreNames.contains('functions')) {
-          const functionStore = db.createObjectStore('functions', { keyPath: 'id' })
-          functionStore.createIndex('projectId', 'projectId', { unique: false })
-          functionStore.createIndex('name', 'name', { unique: false })
-        }
-
-        if (!db.objectStoreNames.contains('layouts')) {
-          const layoutStore = db.createObjectStore('layouts', { keyPath: 'id' })
-          layoutStore.createIndex('projectId', 'projectId', { unique: false })
-          layoutStore.createIndex('title', 'title', { unique: false })
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          STORE_UPGRADES[version](db)
         }
       }
     })
@@ -98,7 +110,7 @@ class Database {
 
   async deleteProject(id: string): Promise<void> {
     // Delete project and all related data
-    const stores = ['tables', 'views', 'functions', 'layouts']
+    const stores = ['tables', 'views', 'functions', 'layouts', 'snapshots', 'snapshotChunks', 'rowChunks']
     
     // Delete related items
     for (const storeName of stores) {
@@ -165,6 +177,49 @@ class Database {
     })
   }
 
+  // Row chunk methods, for tables whose rows are stored separately
+  async saveRowChunk(chunk: RowChunk): Promise<void> {
+    const store = this.getStore('rowChunks', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.put(chunk)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async getRowChunks(tableId: string): Promise<RowChunk[]> {
+    const store = this.getStore('rowChunks')
+    const index = store.index('tableId')
+    
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(tableId)
+      request.onsuccess = () => resolve(request.result.sort((a: RowChunk, b: RowChunk) => a.index - b.index))
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Delete a table's chunks from the given position on
+  async deleteRowChunks(tableId: string, fromIndex: number = 0): Promise<void> {
+    const store = this.getStore('rowChunks', 'readwrite')
+    const index = store.index('tableId')
+    
+    return new Promise((resolve, reject) => {
+      const request = index.openCursor(IDBKeyRange.only(tableId))
+      
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (cursor) {
+          if ((cursor.value as RowChunk).index >= fromIndex) cursor.delete()
+          cursor.continue()
+        } else {
+          resolve()
+        }
+      }
+      
+      request.onerror = () => reject(request.error)
+    })
+  }
+
   // View methods
   async saveView(view: View): Promise<void> {
     const store = this.getStore('views', 'readwrite')
@@ -254,6 +309,87 @@ class Database {
       request.onerror = () => reject(request.error)
     })
   }
+
+  // Snapshot methods
+  async saveSnapshot(snapshot: Snapshot): Promise<void> {
+    const store = this.getStore('snapshots', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.put(snapshot)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async getSnapshotsByProject(projectId: string): Promise<Snapshot[]> {
+    const store = this.getStore('snapshots')
+    const index = store.index('projectId')
+    
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(projectId)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async deleteSnapshot(id: string): Promise<void> {
+    const store = this.getStore('snapshots', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.delete(id)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Snapshot chunk methods, for the rows of tables in snapshots
+  async saveSnapshotChunk(chunk: SnapshotChunk): Promise<void> {
+    const store = this.getStore('snapshotChunks', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.put(chunk)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async getSnapshotChunk(id: string): Promise<SnapshotChunk | null> {
+    const store = this.getStore('snapshotChunks')
+    return new Promise((resolve, reject) => {
+      const request = store.get(id)
+      request.onsuccess = () => resolve(request.result || null)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async getSnapshotChunksByProject(projectId: string): Promise<SnapshotChunk[]> {
+    const store = this.getStore('snapshotChunks')
+    const index = store.index('projectId')
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(projectId)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Ids only, without reading the rows
+  async getSnapshotChunkIds(projectId: string): Promise<string[]> {
+    const store = this.getStore('snapshotChunks')
+    const index = store.index('projectId')
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAllKeys(projectId)
+      request.onsuccess = () => resolve(request.result as string[])
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async deleteSnapshotChunk(id: string): Promise<void> {
+    const store = this.getStore('snapshotChunks', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.delete(id)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
 }
 
 export const db = new Database()
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { ForeignKey, Table } from '../models/types'
+import { ConstraintViolation, keyOf } from './constraints'
+
+export interface LookupOption {
+  value: any
+  label: string
+}
+
+export interface DeletePlan {
+  tables: Table[]                 // every table the delete changes, with its new rows; the deleting table first
+  blocked: ConstraintViolation[]  // rows that can't be deleted, by index in the deleting table
+}
+
+interface WorkingTable {
+  table: Table
+  rows: Record<string, any>[]
+  deleted: Set<number>
+}
+
+const ON_DELETE_LABELS: Record<ForeignKey['onDelete'], string> = {
+  'restrict': 'ON DELETE RESTRICT',
+  'cascade': 'ON DELETE CASCADE',
+  'set null': 'ON DELETE SET NULL'
+}
+
+const describeValues = (row: Record<string, any>, columns: string[]) =>
+  columns.map(c => `${c} = ${JSON.stringify(row[c])}`).join(', ')
+
+// The table a foreign key refers to; `table` itself for self references
+const referencedTable = (fk: ForeignKey, table: Table, tables: Table[]) =>
+  fk.referencedTableId === table.id ? table : tables.find(t => t.id === fk.referencedTableId)
+
+/**
+ * Rows whose foreign key values match no row of the referenced table. Keys
+ * with an empty part are not checked, and neither are references to tables
+ * whose rows are still loading.
+ */
+export const findOrphans = (table: Table, tables: Table[]): ConstraintViolation[] => {
+  const violations: ConstraintViolation[] = []
+  for (const fk of table.foreignKeys || []) {
+    const referenced = referencedTable(fk, table, tables)
+    if (!referenced || referenced.rowsPending) continue
+
+    const keys = new Set(referenced.rows.map(row => keyOf(row, fk.referencedColumns)))
+    table.rows.forEach((row, index) => {
+      const key = keyOf(row, fk.columns)
+      if (key === null || keys.has(key)) return
+      violations.push({
+        row: index,
+        constraint: fk.name,
+        columns: fk.columns,
+        key: `${fk.name}:${key}`,
+        message: `${describeValues(row, fk.columns)} has no match in ${referenced.title}`
+      })
+    })
+  }
+  return violations
+}
+
+/**
+ * Values a single-column foreign key can take, labelled with the first other
+ * text column of the referenced row, such as a name.
+ */
+export const lookupOptions = (fk: ForeignKey, table: Table, tables: Table[]): LookupOption[] => {
+  const referenced = referencedTable(fk, table, tables)
+  if (!referenced || fk.referencedColumns.length !== 1) return []
+
+  const column = fk.referencedColumns[0]
+  const labelColumn = referenced.columns.find(c => c.name !== column && c.type === 'string')?.name
+  return referenced.rows
+    .filter(row => keyOf(row, [column]) !== null)
+    .map(row => ({
+      value: row[column],
+      label: labelColumn && row[labelColumn] != null ? String(row[labelColumn]) : ''
+    }))
+}
+
+/**
+ * Work out what deleting rows of a table does to the rows that refer to them,
+ * following each foreign key's ON DELETE action: restrict blocks the delete,
+ * cascade deletes the referencing rows in turn, and set null empties their
+ * foreign key columns.
+ */
+export const planRowDeletion = (table: Table, rowIndexes: number[], tables: Table[]): DeletePlan => {
+  const all = [table, ...tables.filter(t => t.id !== table.id)]
+  const working = new Map<string, WorkingTable>()
+  const open = (t: Table): WorkingTable => {
+    if (!working.has(t.id)) working.set(t.id, { table: t, rows: [...t.rows], deleted: new Set() })
+    return working.get(t.id)!
+  }
+
+  // Deleted rows, each with the row of `table` whose deletion removed it
+  const queue: { table: Table, rows: Record<string, any>[], origins: number[] }[] = []
+  const start = open(table)
+  rowIndexes.forEach(index => start.deleted.add(index))
+  queue.push({ table, rows: rowIndexes.map(index => table.rows[index]), origins: rowIndexes })
+
+  const blocked: ConstraintViolation[] = []
+  while (queue.length > 0) {
+    const removed = queue.shift()!
+    for (const child of all) {
+      for (const fk of child.foreignKeys || []) {
+        if (fk.referencedTableId !== removed.table.id) continue
+
+        const origins = new Map<string, number>()  // referenced key → origin
+        removed.rows.forEach((row, i) => {
+          const key = keyOf(row, fk.referencedColumns)
+          if (key !== null && !origins.has(key)) origins.set(key, removed.origins[i])
+        })
+        if (origins.size === 0) continue
+
+        if (child.rowsPending) {
+          blocked.push({
+            row: removed.origins[0],
+            constraint: fk.name,
+            columns: fk.columns,
+            key: `${fk.name}:`,
+            message: `${child.title} may refer to it, and its rows are still loading`
+          })
+          continue
+        }
+
+        const state = open(child)
+        const cascaded: Record<string, any>[] = []
+        const cascadedOrigins: number[] = []
+        state.rows.forEach((row, index) => {
+          if (state.deleted.has(index)) return
+          const key = keyOf(row, fk.columns)
+          const origin = key === null ? undefined : origins.get(key)
+          if (origin === undefined) return
+
+          if (fk.onDelete === 'restrict') {
+            blocked.push({
+              row: origin,
+              constraint: fk.name,
+              columns: fk.columns,
+              key: `${fk.name}:${key}`,
+              message: `Row ${index + 1} of ${child.title} refers to it (${fk.name}, ${ON_DELETE_LABELS[fk.onDelete]})`
+            })
+          } else if (fk.onDelete === 'cascade') {
+            state.deleted.add(index)
+            cascaded.push(row)
+            cascadedOrigins.push(origin)
+          } else {
+            state.rows[index] = { ...row, ...Object.fromEntries(fk.columns.map(c => [c, null])) }
+          }
+        })
+        if (cascaded.length > 0) queue.push({ table: child, rows: cascaded, origins: cascadedOrigins })
+      }
+    }
+  }
+
+  const changed = [...working.values()].filter(({ table: t, rows, deleted }) =>
+    t.id === table.id || deleted.size > 0 || rows.some((row, index) => row !== t.rows[index])
+  )
+  return {
+    tables: changed.map(({ table, rows, deleted }) => ({
+      ...table,
+      rows: rows.filter((_, index) => !deleted.has(index))
+    })),
+    blocked
+  }
+}
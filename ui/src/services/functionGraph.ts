@@ -0,0 +1,84 @@
+import { AppFunction, Layout, View } from '../models/types'
+import { uncallableReason } from './sandbox/helpers'
+
+/**
+ * Which project functions call which, found by reading their bodies, and where
+ * views and layouts call them. Shown in the function editor so that a shared
+ * function's callers are known before it is changed.
+ */
+
+export interface FunctionUsage {
+  uses: AppFunction[]    // project functions it calls
+  usedBy: AppFunction[]  // project functions calling it
+  views: View[]          // views calling it as FN.name(...)
+  layouts: Layout[]      // layouts with a text element calling it
+  cycle?: string[]       // calls leading from it back to itself, e.g. ['a', 'b', 'a']
+  uncallable?: string    // why other functions can't call it by name
+}
+
+// Comments and string literals, where a name followed by "(" isn't a call
+const COMMENTS_AND_STRINGS = /\/\/[^\n]*|\/\*[\s\S]*?\*\/|'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|`(?:\\.|[^`\\])*`/g
+
+// A name followed by "(", other than a method call except through `functions`
+const CALL = /(?<![\w$.])(?:functions\s*\.\s*)?([A-Za-z_$][\w$]*)\s*\(/g
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// The project functions a function's body calls
+export const calledFunctions = (func: AppFunction, functions: AppFunction[]): AppFunction[] => {
+  const callable = new Map(functions.filter(f => !uncallableReason(f.name)).map(f => [f.name, f]))
+  const params = new Set(func.params.map(p => p.name))
+  const called = new Set<AppFunction>()
+  for (const match of func.body.replace(COMMENTS_AND_STRINGS, ' ').matchAll(CALL)) {
+    const callee = callable.get(match[1])
+    if (callee && !params.has(match[1])) called.add(callee)
+  }
+  return Array.from(called)
+}
+
+// A chain of calls from `start` back to itself, if there is one
+const findCycle = (start: AppFunction, graph: Map<AppFunction, AppFunction[]>): string[] | undefined => {
+  const visited = new Set<AppFunction>()
+  const path = [start]
+  const visit = (func: AppFunction): boolean => {
+    for (const callee of graph.get(func) || []) {
+      if (callee === start) {
+        path.push(callee)
+        return true
+      }
+      if (visited.has(callee)) continue
+      visited.add(callee)
+      path.push(callee)
+      if (visit(callee)) return true
+      path.pop()
+    }
+    return false
+  }
+  return visit(start) ? path.map(f => f.name) : undefined
+}
+
+export const functionUsage = (
+  func: AppFunction,
+  project: { functions: AppFunction[], views: View[], layouts: Layout[] }
+): FunctionUsage => {
+  // The function being edited may be newer than the project's copy
+  const functions = project.functions.map(f => f.id === func.id ? func : f)
+  if (!functions.includes(func)) functions.push(func)
+  const graph = new Map(functions.map(f => [f, calledFunctions(f, functions)]))
+
+  const inQuery = new RegExp(`\\bFN\\.${escapeRegExp(func.name)}\\s*\\(`, 'i')
+  const inFormula = (element: Layout['elements'][number]) => {
+    const content = element.type === 'text' ? element.data?.content : undefined
+    return typeof content === 'string' && content.startsWith('=') &&
+      content.substring(1).trim().match(/^(\w+)\(/)?.[1] === func.name
+  }
+
+  return {
+    uses: graph.get(func)!.filter(f => f !== func),
+    usedBy: functions.filter(f => f !== func && graph.get(f)!.includes(func)),
+    views: project.views.filter(v => inQuery.test(v.query)),
+    layouts: project.layouts.filter(l => l.elements.some(inFormula)),
+    cycle: findCycle(func, graph),
+    uncallable: uncallableReason(func.name)
+  }
+}
@@ -0,0 +1,136 @@
+import { Project, ProjectData } from '../models/types'
+
+/**
+ * A project as stored, tagged with the version of the format it was saved in.
+ * Documents saved before versioning existed have schemaVersion 0.
+ */
+export interface ProjectDocument extends ProjectData {
+  schemaVersion: number
+  project: Project
+}
+
+export interface Migration {
+  version: number      // the version a document has after this step
+  description: string
+  migrate: (document: ProjectDocument) => ProjectDocument
+}
+
+const toDate = (value: any, fallback: Date): Date => {
+  if (value instanceof Date) return value
+  const date = value != null ? new Date(value) : fallback
+  return isNaN(date.getTime()) ? fallback : date
+}
+
+// Turn the timestamps of a project or table read back from JSON into dates
+export const reviveTimestamps = <T extends { createdAt?: any, updatedAt?: any }>(entity: T): T => ({
+  ...entity,
+  ...(typeof entity.createdAt === 'string' && { createdAt: new Date(entity.createdAt) }),
+  ...(typeof entity.updatedAt === 'string' && { updatedAt: new Date(entity.updatedAt) })
+})
+
+/**
+ * Steps that bring stored projects up to date, in order. Append a step whenever
+ * a change to models/types.ts affects saved data, and add fixtures for it in
+ * data/migrationFixtures.ts. Steps must not depend on anything but the document.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Attach every entity to its project and fill in fields missing from early saves',
+    migrate: document => {
+      const projectId = document.project.id
+      return {
+        ...document,
+        project: { ...document.project, name: document.project.name || 'Untitled Project' },
+        tables: (document.tables || []).map(table => ({
+          ...table,
+          projectId,
+          columns: table.columns || [],
+          rows: table.rows || [],
+          primaryKey: table.primaryKey || [],
+          uniqueConstraints: table.uniqueConstraints || [],
+          indexes: table.indexes || []
+        })),
+        views: (document.views || []).map(view => ({
+          ...view,
+          projectId,
+          query: view.query || '',
+          sourceTables: view.sourceTables || []
+        })),
+        functions: (document.functions || []).map(func => ({
+          ...func,
+          projectId,
+          params: func.params || [],
+          returnType: func.returnType || 'any',
+          body: func.body || ''
+        })),
+        layouts: (document.layouts || []).map(layout => ({
+          ...layout,
+          projectId,
+          elements: layout.elements || []
+        }))
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Store project and table timestamps as dates rather than JSON strings',
+    migrate: document => {
+      const createdAt = toDate(document.project.createdAt, new Date())
+      const updatedAt = toDate(document.project.updatedAt, createdAt)
+      return {
+        ...document,
+        project: { ...document.project, createdAt, updatedAt },
+        tables: document.tables.map(table => ({
+          ...table,
+          createdAt: toDate(table.createdAt, createdAt),
+          updatedAt: toDate(table.updatedAt, toDate(table.createdAt, createdAt))
+        }))
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Rename the memory limit of functions to the data limit, since it measures data in and out',
+    migrate: document => {
+      const renamed = (limits: any) => {
+        if (!limits || !('maxMemoryMb' in limits)) return limits
+        const { maxMemoryMb, ...rest } = limits
+        return { ...rest, maxDataMb: maxMemoryMb }
+      }
+      return {
+        ...document,
+        project: {
+          ...document.project,
+          ...(document.project.functionLimits && { functionLimits: renamed(document.project.functionLimits) })
+        },
+        functions: document.functions.map(func => ({ ...func, ...(func.limits && { limits: renamed(func.limits) }) }))
+      }
+    }
+  }
+]
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Run every step newer than the document's version, oldest first.
+ */
+export const migrateDocument = (document: ProjectDocument): ProjectDocument => {
+  const from = document.schemaVersion || 0
+  if (from > SCHEMA_VERSION) {
+    throw new Error(
+      `Project "${document.project.name}" was saved by a newer version of Excess ` +
+      `(format ${from}; this version reads up to ${SCHEMA_VERSION})`
+    )
+  }
+
+  return MIGRATIONS
+    .filter(migration => migration.version > from)
+    .reduce((current, migration) => {
+      try {
+        return { ...migration.migrate(current), schemaVersion: migration.version }
+      } catch (error) {
+        throw new Error(`Migration to format ${migration.version} (${migration.description}) failed: ${(error as Error).message}`)
+      }
+    }, document)
+}
@@ -0,0 +1,396 @@
+import { Project, ProjectData, Table, View, AppFunction, Layout } from '../models/types'
+import { db } from './database'
+import { ProjectDocument, SCHEMA_VERSION, migrateDocument } from './migrations'
+import { tabSync } from './tabSync'
+import { rowStorage } from './rowStorage'
+
+export type EntityKind = keyof ProjectData
+
+// An entity to write, or to delete when `entity` is null
+export interface EntityChange {
+  kind: EntityKind
+  id: string
+  entity: any | null
+}
+
+interface EntityStore {
+  load: (projectId: string) => Promise<{ id: string }[]>
+  save: (entity: any) => Promise<void>
+  remove: (id: string) => Promise<void>
+}
+
+const STORES: Record<EntityKind, EntityStore> = {
+  tables: { load: id => db.getTablesByProject(id), save: t => rowStorage.saveTable(t), remove: id => rowStorage.deleteTable(id) },
+  views: { load: id => db.getViewsByProject(id), save: v => db.saveView(v), remove: id => db.deleteView(id) },
+  functions: { load: id => db.getFunctionsByProject(id), save: f => db.saveFunction(f), remove: id => db.deleteFunction(id) },
+  layouts: { load: id => db.getLayoutsByProject(id), save: l => db.saveLayout(l), remove: id => db.deleteLayout(id) }
+}
+
+export const KINDS = Object.keys(STORES) as EntityKind[]
+
+// Keys written by earlier versions that kept every project in localStorage
+const LEGACY_PROJECT_LIST_KEY = 'excess-projects'
+const LEGACY_PROJECT_PREFIX = 'excess-project-'
+
+/**
+ * Loads and saves projects through the IndexedDB `Database`. Stored projects
+ * older than the current format are migrated when the repository opens.
+ *
+ * Saves are diffed against what was last loaded or written, so only changed
+ * entities are put and removed ones deleted. Loads and saves run one at a time
+ * in the order they were requested, so a load never misses a pending save.
+ * Every write is announced to other tabs through `tabSync`.
+ */
+class ProjectRepository {
+  private ready: Promise<void> | null = null
+  private saved = new Map<string, Map<string, string>>()  // projectId → "kind:id" → serialized entity
+  private queue: Promise<void> = Promise.resolve()
+
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = db.init()
+        .then(() => this.migrateStoredProjects())
+        .then(() => this.migrateLocalStorage())
+        .then(() => { tabSync.subscribe((projectId, changes) => this.acceptChanges(projectId, changes)) })
+      // Let a later call retry if opening the database failed
+      this.ready.catch(() => { this.ready = null })
+    }
+    return this.ready
+  }
+
+  async listProjects(): Promise<Project[]> {
+    await this.init()
+    const projects = await db.getAllProjects()
+    return projects.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    await this.init()
+    return db.getProject(id)
+  }
+
+  async createProject(project: Project): Promise<void> {
+    await this.init()
+    await db.createProject({ ...project, schemaVersion: SCHEMA_VERSION })
+  }
+
+  async updateProject(project: Project): Promise<void> {
+    await this.init()
+    await db.updateProject(project)
+  }
+
+  /**
+   * Change some of a stored project's own fields, such as its function limits.
+   * Queued with saves, which also write the project record.
+   */
+  updateProjectFields(projectId: string, fields: Partial<Project>): Promise<void> {
+    return this.enqueue(async () => {
+      await this.init()
+      const project = await db.getProject(projectId)
+      if (project) {
+        await db.updateProject({ ...project, ...fields, id: projectId, updatedAt: new Date() })
+      }
+    })
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    await this.init()
+    await db.deleteProject(id)
+    this.saved.delete(id)
+  }
+
+  /**
+   * Store an imported project with all of its data. A project with the same id
+   * is replaced.
+   */
+  importProject(project: Project, data: ProjectData): Promise<void> {
+    return this.enqueue(async () => {
+      await this.init()
+      if (await db.getProject(project.id)) {
+        await db.deleteProject(project.id)
+      }
+      this.saved.delete(project.id)
+      await db.createProject({ ...project, schemaVersion: SCHEMA_VERSION })
+      await this.writeChanges(project.id, data)
+    })
+  }
+
+  /**
+   * Load everything stored for a project. With `lazyRows`, tables whose rows
+   * are stored in chunks come back with `rowsPending` set and no rows; fetch
+   * those with `loadTableRows`.
+   */
+  loadProjectData(projectId: string, options: { lazyRows?: boolean } = {}): Promise<ProjectData> {
+    return this.enqueue(async () => {
+      await this.init()
+      await this.readableProject(projectId)
+      return this.loadStored(projectId, options.lazyRows)
+    })
+  }
+
+  /**
+   * Load everything stored for a project with the time it was last written, or
+   * null when that is still `updatedAt`. Every write touches the project, so
+   * then nothing can have changed and its data isn't read.
+   */
+  loadChangedProjectData(projectId: string, updatedAt?: number): Promise<{ data: ProjectData, updatedAt?: number } | null> {
+    return this.enqueue(async () => {
+      await this.init()
+      const project = await this.readableProject(projectId)
+      const current = project ? new Date(project.updatedAt).getTime() : undefined
+      if (current !== undefined && current === updatedAt) return null
+      return { data: await this.loadStored(projectId), updatedAt: current }
+    })
+  }
+
+  loadTableRows(table: Table): Promise<Record<string, any>[]> {
+    return this.enqueue(() => rowStorage.loadRows(table))
+  }
+
+  /**
+   * Persist the current state of a project, writing only what changed since
+   * the last load or save.
+   */
+  saveProjectData(projectId: string, data: ProjectData): Promise<void> {
+    return this.enqueue(() => this.writeChanges(projectId, data))
+  }
+
+  /**
+   * Write or delete individual entities. Autosave uses this so only the
+   * entities it knows have changed are serialized and written.
+   */
+  saveChanges(projectId: string, changes: EntityChange[]): Promise<void> {
+    return this.enqueue(async () => {
+      await this.init()
+      const saved = this.saved.get(projectId)
+      const written: EntityChange[] = []
+
+      try {
+        for (const { kind, id, entity } of changes) {
+          const key = `${kind}:${id}`
+          if (entity) {
+            const stamped = { ...entity, projectId }
+            const serialized = JSON.stringify(stamped)
+            if (saved?.get(key) === serialized) continue
+            await STORES[kind].save(stamped)
+            saved?.set(key, serialized)
+            written.push({ kind, id, entity: stamped })
+          } else {
+            await STORES[kind].remove(id)
+            saved?.delete(key)
+            written.push({ kind, id, entity: null })
+          }
+        }
+      } finally {
+        tabSync.publish(projectId, written)
+      }
+
+      if (written.length > 0) await this.touchProject(projectId)
+    })
+  }
+
+  // Another tab wrote these entities, so they no longer differ from what is stored
+  private acceptChanges(projectId: string, changes: EntityChange[]) {
+    const saved = this.saved.get(projectId)
+    if (!saved) return
+    for (const { kind, id, entity } of changes) {
+      if (entity) saved.set(`${kind}:${id}`, JSON.stringify(entity))
+      else saved.delete(`${kind}:${id}`)
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task)
+    // A failed task must not block the ones after it
+    this.queue = result.then(() => undefined, () => undefined)
+    return result
+  }
+
+  private async readableProject(projectId: string): Promise<Project | null> {
+    const project = await db.getProject(projectId)
+    if (project && (project.schemaVersion || 0) > SCHEMA_VERSION) {
+      // Refuse to load rather than overwrite data this version doesn't understand
+      throw new Error(`Project "${project.name}" was saved by a newer version of Excess; update the app to open it`)
+    }
+    return project
+  }
+
+  private async loadStored(projectId: string, lazyRows = false): Promise<ProjectData> {
+    const data = await this.readProjectData(projectId, lazyRows)
+    this.saved.set(projectId, this.serialize(data))
+    return data
+  }
+
+  private async readProjectData(projectId: string, lazyRows = false): Promise<ProjectData> {
+    const [tables, views, functions, layouts] = await Promise.all(
+      KINDS.map(kind => STORES[kind].load(projectId))
+    )
+    return {
+      tables: await Promise.all((tables as Table[]).map(async table => {
+        if (!table.rowChunks) return table
+        if (lazyRows) return { ...table, rowsPending: true }
+        return { ...table, rows: await rowStorage.loadRows(table) }
+      })),
+      views: views as View[],
+      functions: functions as AppFunction[],
+      layouts: layouts as Layout[]
+    }
+  }
+
+  private serialize(data: ProjectData): Map<string, string> {
+    const entries = new Map<string, string>()
+    for (const kind of KINDS) {
+      for (const entity of data[kind]) {
+        entries.set(`${kind}:${entity.id}`, JSON.stringify(entity))
+      }
+    }
+    return entries
+  }
+
+  private async writeChanges(projectId: string, data: ProjectData) {
+    await this.init()
+
+    let previous = this.saved.get(projectId)
+    if (!previous) {
+      previous = this.serialize(await this.readProjectData(projectId))
+    }
+
+    // Entities always belong to the project they are saved under
+    const stamped: ProjectData = {
+      tables: data.tables.map(t => ({ ...t, projectId })),
+      views: data.views.map(v => ({ ...v, projectId })),
+      functions: data.functions.map(f => ({ ...f, projectId })),
+      layouts: data.layouts.map(l => ({ ...l, projectId }))
+    }
+    const current = this.serialize(stamped)
+    const written = new Map(previous)
+    const published: EntityChange[] = []
+
+    try {
+      for (const kind of KINDS) {
+        for (const entity of stamped[kind]) {
+          const key = `${kind}:${entity.id}`
+          if (previous.get(key) === current.get(key)) continue
+          await STORES[kind].save(entity)
+          written.set(key, current.get(key)!)
+          published.push({ kind, id: entity.id, entity })
+        }
+      }
+
+      for (const key of previous.keys()) {
+        if (current.has(key)) continue
+        const split = key.indexOf(':')
+        const kind = key.slice(0, split) as EntityKind
+        const id = key.slice(split + 1)
+        await STORES[kind].remove(id)
+        written.delete(key)
+        published.push({ kind, id, entity: null })
+      }
+    } finally {
+      // Remember whatever made it to disk so a retry only writes the rest
+      this.saved.set(projectId, written)
+      tabSync.publish(projectId, published)
+    }
+
+    if (published.length > 0) await this.touchProject(projectId)
+  }
+
+  private async touchProject(projectId: string) {
+    const project = await db.getProject(projectId)
+    if (project) {
+      await db.updateProject({ ...project, updatedAt: new Date() })
+    }
+  }
+
+  private async migrateStoredProjects() {
+    for (const project of await db.getAllProjects()) {
+      const version = project.schemaVersion || 0
+      if (version >= SCHEMA_VERSION) continue
+      try {
+        const stored = await this.readProjectData(project.id)
+        await this.writeDocument(migrateDocument({ schemaVersion: version, project, ...stored }), stored)
+      } catch (error) {
+        console.error(`Failed to migrate project ${project.id}:`, error)
+      }
+    }
+  }
+
+  // Store a whole migrated document, removing entities the migration dropped
+  private async writeDocument(document: ProjectDocument, stored?: ProjectData) {
+    const { project, schemaVersion } = document
+    await db.updateProject({ ...project, schemaVersion })
+
+    for (const kind of KINDS) {
+      const ids = new Set(document[kind].map(entity => entity.id))
+      for (const entity of document[kind]) {
+        await STORES[kind].save(entity)
+      }
+      for (const entity of stored?.[kind] || []) {
+        if (!ids.has(entity.id)) await STORES[kind].remove(entity.id)
+      }
+    }
+  }
+
+  /**
+   * One-time import of projects saved in localStorage by earlier versions.
+   * Each project's keys are removed once its data is in IndexedDB, so an
+   * interrupted migration resumes on the next load.
+   */
+  private async migrateLocalStorage() {
+    const listed: any[] = JSON.parse(localStorage.getItem(LEGACY_PROJECT_LIST_KEY) || '[]')
+    const ids = new Set<string>(listed.map(p => p.id))
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key?.startsWith(LEGACY_PROJECT_PREFIX)) ids.add(key.slice(LEGACY_PROJECT_PREFIX.length))
+    }
+    if (ids.size === 0) return
+
+    let failed = false
+    for (const id of ids) {
+      try {
+        await this.migrateLegacyProject(id, listed.find(p => p.id === id))
+      } catch (error) {
+        failed = true
+        console.error(`Failed to migrate project ${id} from localStorage:`, error)
+      }
+    }
+
+    if (!failed) {
+      localStorage.removeItem(LEGACY_PROJECT_LIST_KEY)
+    }
+  }
+
+  private async migrateLegacyProject(id: string, meta?: any) {
+    const legacyKeys = [
+      `${LEGACY_PROJECT_PREFIX}${id}`,
+      ...KINDS.map(kind => `${kind}_${id}`)  // per-kind keys used before whole-project blobs
+    ]
+
+    let stored: any = {}
+    const blob = localStorage.getItem(legacyKeys[0])
+    if (blob) {
+      stored = JSON.parse(blob)
+    } else {
+      for (const kind of KINDS) {
+        const items = localStorage.getItem(`${kind}_${id}`)
+        if (items) stored[kind] = JSON.parse(items)
+      }
+    }
+
+    // Those saves have no version; the migrations bring them up to date
+    const existing = await db.getProject(id)
+    const document = migrateDocument({
+      schemaVersion: 0,
+      project: existing || { ...meta, id },
+      tables: stored.tables,
+      views: stored.views,
+      functions: stored.functions,
+      layouts: stored.layouts
+    })
+    await this.writeDocument(document)
+
+    legacyKeys.forEach(key => localStorage.removeItem(key))
+  }
+}
+
+export const projectRepository = new ProjectRepository()
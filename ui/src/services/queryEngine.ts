@@ -1,13 +1,179 @@
-import { Table, View, AppFunction } from '../models/types'
-import { secureFunctionEngine } from './secureFunctionEngine'
+import { Table, View, AppFunction, FunctionParam } from '../models/types'
+import { FunctionCall as UserFunctionCall, FunctionDataSource, secureFunctionEngine } from './secureFunctionEngine'
+import { StopReason, stopReason } from './sandbox/limits'
+import { DATA_PARAM_TYPES, RelationData } from './sandbox/protocol'
+import { parseQuery } from './sql/parser'
+import { SqlError } from './sql/errors'
+import { compareValues, likeToRegExp, toNumber, truthValue } from './sql/values'
+import { SCALAR_FUNCTIONS, castValue } from './sql/functions'
+import { IndexStore, IndexedTable, TableIndex } from './sql/indexes'
+import {
+  BinaryExpression,
+  ColumnRef,
+  CommonTableExpression,
+  Expression,
+  FunctionCall,
+  Join,
+  OrderItem,
+  Position,
+  FrameBound,
+  SelectStatement,
+  Star,
+  TableRef,
+  childExpressions,
+  formatExpression,
+  referencedRelations
+} from './sql/ast'
 
-export class QueryEngine {
+export interface QueryResult {
+  columns: string[]
+  rows: any[]
+  error?: string
+  stopped?: StopReason  // set with `error` when an FN call timed out, went over a limit or was cancelled
+  functionErrors?: string[]  // errors of FN calls that failed, whose values are NULL
+}
+
+export interface QueryOptions {
+  signal?: AbortSignal  // aborting it cancels the FN calls the query is waiting for
+  depth?: number        // how many `views.run` calls from functions the query is nested in
+}
+
+const AGGREGATES = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'])
+
+// Passes before giving up on FN calls whose arguments keep depending on new FN results
+const MAX_FUNCTION_PASSES = 50
+
+// Views run by functions may call functions that run views, this many deep
+const MAX_VIEW_DEPTH = 8
+
+// Functions that only exist with OVER; aggregates can be used with OVER too
+const WINDOW_FUNCTIONS = new Set(['ROW_NUMBER', 'RANK', 'DENSE_RANK', 'LAG', 'LEAD'])
+
+// A row during execution: one record per source, keyed by source name.
+// The record is null for the missing side of an outer join.
+type ScopeRow = Record<string, Record<string, any> | null>
+
+interface Source {
+  key: string         // lower-cased alias or table name used to qualify columns
+  label: string       // alias or table name as written, used for qualified output columns
+  columns: string[]   // column names as stored in the rows
+}
+
+interface OutputColumn {
+  label: string
+  qualifiedLabel?: string  // fallback label when a plain column name is selected twice
+  value: (scope: EvaluationScope) => any
+}
+
+// Rows and columns of a table or an evaluated view
+interface Relation {
+  columns: string[]
+  rows: Record<string, any>[]
+}
+
+// How a FROM or JOIN source was read, for EXPLAIN
+interface PlanStep {
+  query: string             // label of the query it belongs to
+  table: string
+  access: 'scan' | 'index lookup' | 'index range'
+  index: string | null
+  condition: string | null  // the conditions the index answered
+  rows: number              // rows read, over every run of the query
+}
+
+// User functions run in a worker, so a query runs in passes: each pass reads FN results
+// from earlier passes and collects the calls it still needs, which run before the next
+interface FunctionCalls {
+  results: Map<string, any>               // by function and arguments
+  pending: Map<string, UserFunctionCall>  // calls this pass needed and didn't have
+  errors: Set<string>                     // of calls that failed, by function name and message
+}
+
+// State shared by every SELECT evaluated for one pass of an executeQuery call
+interface QueryRun {
+  views: Map<string, Relation>  // evaluated views by lower-cased title
+  evaluating: string[]          // views currently being executed, outermost first
+  calls: FunctionCalls
+  plan?: Map<TableRef, PlanStep>  // collected for EXPLAIN
+}
+
+// A comparison of an indexed column with a value computed without that table's rows
+interface IndexCondition {
+  column: string
+  operator: '=' | '<' | '>' | '<=' | '>='
+  value: Expression
+}
+
+interface IndexPlan {
+  index: TableIndex
+  equal: IndexCondition[]  // one per leading column of the index
+  low?: IndexCondition     // bounds on the column after them
+  high?: IndexCondition
+}
+
+const FLIPPED_COMPARISONS: Record<IndexCondition['operator'], IndexCondition['operator']> = {
+  '=': '=', '<': '>', '>': '<', '<=': '>=', '>=': '<='
+}
+
+// Where a column reference points: a source of the query `depth` levels out (0 = this query)
+interface ResolvedColumn {
+  source: string
+  column: string
+  depth: number
+}
+
+interface ExecutionContext {
+  run: QueryRun
+  label: string                // which query this is, for EXPLAIN: "query", "view x", ...
+  sources: Source[]
+  resolved: Map<ColumnRef, ResolvedColumn>
+  ctes: Map<string, Relation>  // CTEs in scope by lower-cased name
+  outer?: OuterRow             // the enclosing query's current row, for subqueries
+  correlated: boolean          // set once a value is read from an enclosing query
+  subqueries: Map<SelectStatement, QueryResult>  // results of uncorrelated subqueries
+}
+
+interface EvaluationScope {
+  row: ScopeRow
+  group?: ScopeRow[]  // rows of the current group, when evaluating a grouped query
+  windows?: Map<FunctionCall, any>  // window function results for this row
+}
+
+// A scope with its evaluated ORDER BY keys
+interface SortEntry {
+  scope: EvaluationScope
+  keys: any[]
+}
+
+interface OuterRow {
+  context: ExecutionContext
+  scope: EvaluationScope
+}
+
+// The stored name of a column of a source, matching case-insensitively if need be
+const columnIn = (source: Source, name: string) =>
+  source.columns.find(c => c === name) ??
+  source.columns.find(c => c.toLowerCase() === name.toLowerCase())
+
+/**
+ * Runs queries over a project's tables and views. It also answers `tables.get`
+ * and `views.run` for the functions its queries call.
+ */
+export class QueryEngine implements FunctionDataSource {
   private tables: Map<string, Table> = new Map()
+  private views: Map<string, View> = new Map()
   private functions: Map<string, AppFunction> = new Map()
+  private indexes = new IndexStore()
 
   setTables(tables: Table[]) {
     this.tables.clear()
     tables.forEach(t => this.tables.set(t.title.toLowerCase(), t))
+    this.indexes.sync(tables)
+  }
+
+  setViews(views: View[]) {
+    this.views.clear()
+    views.forEach(v => this.views.set(v.title.toLowerCase(), v))
   }
 
   setFunctions(functions: AppFunction[]) {
@@ -15,349 +181,1402 @@ export class QueryEngine {
     functions.forEach(f => this.functions.set(f.name.toLowerCase(), f))
   }
 
-  executeQuery(query: string): { columns: string[], rows: any[], error?: string } {
+  async executeQuery(query: string, options: QueryOptions = {}): Promise<QueryResult> {
     try {
-      const trimmedQuery = query.trim().toLowerCase()
-      const originalQuery = query.trim()
-      
-      // Very simple SQL parser - supports basic SELECT, FROM, WHERE, JOIN
-      if (!trimmedQuery.startsWith('select')) {
-        throw new Error(`Line 1: Only SELECT queries are supported. Found: "${originalQuery.substring(0, 20)}..."`)
-      }
-
-      // Parse SELECT clause
-      const selectMatch = trimmedQuery.match(/select\s+(.*?)\s+from/s)
-      if (!selectMatch) {
-        throw new Error('Invalid SELECT statement. Syntax: SELECT columns FROM table')
-      }
-      const selectClause = selectMatch[1].trim()
-
-      // Parse FROM clause - handle table names with spaces using quotes or backticks
-      const fromMatch = trimmedQuery.match(/from\s+(?:`([^`]+)`|"([^"]+)"|'([^']+)'|(\w+))/i)
-      if (!fromMatch) {
-        throw new Error('FROM clause is required. Syntax: SELECT columns FROM table')
-      }
-      const tableName = (fromMatch[1] || fromMatch[2] || fromMatch[3] || fromMatch[4]).toLowerCase()
-
-      // Get the table
-      const table = this.tables.get(tableName)
-      if (!table) {
-        const availableTables = Array.from(this.tables.keys()).join(', ')
-        throw new Error(`Table "${tableName}" not found. Available tables: ${availableTables || 'none'}`)
-      }
-
-      let resultRows = [...table.rows]
-      let resultColumns: string[] = []
-
-      // Parse WHERE clause (optional)
-      const whereMatch = trimmedQuery.match(/where\s+(.*?)(?:$|order|group|limit)/s)
-      if (whereMatch) {
-        const whereClause = whereMatch[1].trim()
-        resultRows = this.applyWhere(resultRows, whereClause)
-      }
-
-      // Parse JOIN clause (optional) - handle table names with spaces
-      const joinMatch = trimmedQuery.match(/join\s+(?:`([^`]+)`|"([^"]+)"|'([^']+)'|(\w+))\s+on\s+(.*?)(?:\s+where|\s*$)/i)
-      if (joinMatch) {
-        const joinTableName = (joinMatch[1] || joinMatch[2] || joinMatch[3] || joinMatch[4]).toLowerCase()
-        const joinCondition = joinMatch[5].trim()
-        const joinTable = this.tables.get(joinTableName)
-        
-        if (!joinTable) {
-          throw new Error(`Table "${joinTableName}" not found for JOIN`)
+      const statement = parseQuery(query)
+      const results = new Map<string, any>()
+      const errors = new Set<string>()
+      for (let pass = 1; ; pass++) {
+        const run: QueryRun = {
+          views: new Map(),
+          evaluating: [],
+          calls: { results, pending: new Map(), errors },
+          plan: statement.explain ? new Map() : undefined
+        }
+        let result: QueryResult | undefined
+        let failure: unknown
+        try {
+          this.evaluateViews(referencedRelations(statement), run)
+          result = this.executeSelect(statement, this.createContext(run, 'query'))
+        } catch (error) {
+          // Missing FN results stand in as NULL, which may be what failed
+          failure = error
+        }
+
+        if (run.calls.pending.size === 0) {
+          if (failure) throw failure
+          if (run.plan) return this.explainResult(run.plan)
+          return errors.size > 0 ? { ...result!, functionErrors: Array.from(errors) } : result!
+        }
+        if (pass === MAX_FUNCTION_PASSES) {
+          throw new SqlError(`FN calls still depend on other FN results after ${pass} passes`)
         }
-        
-        resultRows = this.applyJoin(resultRows, joinTable.rows, joinCondition)
+        await this.runFunctionCalls(run.calls, options)
+      }
+    } catch (error) {
+      return {
+        columns: [],
+        rows: [],
+        error: error.message,
+        stopped: stopReason(error)
       }
+    }
+  }
 
-      // Parse ORDER BY clause (optional)
-      const orderMatch = trimmedQuery.match(/order\s+by\s+(.*?)(?:$|limit)/i)
-      if (orderMatch) {
-        const orderClause = orderMatch[1].trim()
-        resultRows = this.applyOrderBy(resultRows, orderClause)
+  /**
+   * Evaluate every view the given relations depend on, dependencies first.
+   * Tables take precedence over views with the same name.
+   */
+  private evaluateViews(refs: TableRef[], run: QueryRun) {
+    const parsed = new Map<string, SelectStatement>()
+    const order: string[] = []
+    const visiting: string[] = []
+
+    const visit = (ref: TableRef) => {
+      const key = ref.name.toLowerCase()
+      if (this.tables.has(key)) return
+      const view = this.views.get(key)
+      if (!view || run.views.has(key) || parsed.has(key)) return
+
+      const path = [...run.evaluating, ...visiting]
+      if (path.includes(key)) {
+        const cycle = [...path.slice(path.indexOf(key)), key]
+          .map(k => this.views.get(k)!.title)
+          .join(' → ')
+        throw new SqlError(`Circular view reference: ${cycle}`)
       }
 
-      // Parse LIMIT clause (optional)
-      const limitMatch = trimmedQuery.match(/limit\s+(\d+)/i)
-      if (limitMatch) {
-        const limit = parseInt(limitMatch[1])
-        resultRows = resultRows.slice(0, limit)
+      visiting.push(key)
+      let viewStatement: SelectStatement
+      try {
+        viewStatement = parseQuery(view.query)
+      } catch (error) {
+        throw new SqlError(`View "${view.title}": ${error.message}`)
       }
+      referencedRelations(viewStatement).forEach(visit)
+      visiting.pop()
 
-      // Process SELECT columns
-      if (selectClause === '*') {
-        // Get all columns
-        if (resultRows.length > 0) {
-          resultColumns = Object.keys(resultRows[0])
-        } else if (table.columns.length > 0) {
-          resultColumns = table.columns.map(c => c.name)
-        }
-      } else {
-        // Parse specific columns
-        const columns = selectClause.split(',').map(c => c.trim())
-        resultColumns = []
-        const columnMappings: { [key: string]: string } = {}
-        
-        // Process each column (could be expression or alias)
-        for (const col of columns) {
-          // Handle FN.functionName() calls
-          const fnMatch = col.match(/fn\.(\w+)\((.*?)\)(?:\s+as\s+)?(\w+)?/i)
-          if (fnMatch) {
-            const [, funcName, params, alias] = fnMatch
-            const columnName = alias || `${funcName}()`
-            resultColumns.push(columnName)
-            
-            const func = this.functions.get(funcName.toLowerCase())
-            if (func) {
-              // Execute function for each row
-              resultRows = resultRows.map(row => {
-                try {
-                  const result = secureFunctionEngine.execute(
-                    func,
-                    [], // No parameters for now
-                    Array.from(this.tables.values()),
-                    [], // No views for now
-                    Array.from(this.functions.values())
-                  )
-                  console.log('Function result:', result, 'for column:', columnName)
-                  return {
-                    ...row,
-                    [columnName]: result
-                  }
-                } catch (error) {
-                  console.error('Error executing function:', funcName, error)
-                  return {
-                    ...row,
-                    [columnName]: null
-                  }
-                }
-              })
-            } else {
-              console.warn('Function not found:', funcName)
-            }
-            continue
-          }
-          
-          // Handle COUNT, SUM, AVG, etc.
-          if (col.includes('(')) {
-            const funcMatch = col.match(/(\w+)\((.*?)\)(?:\s+as\s+(\w+))?/i)
-            if (funcMatch) {
-              const [, func, field, alias] = funcMatch
-              const columnName = alias || `${func}(${field})`
-              resultColumns.push(columnName)
-              
-              if (func.toLowerCase() === 'count') {
-                const count = field === '*' ? resultRows.length : 
-                  resultRows.filter(r => r[field] != null).length
-                resultRows = [{ [columnName]: count }]
-              } else if (func.toLowerCase() === 'sum') {
-                const sum = resultRows.reduce((acc, row) => acc + (Number(row[field]) || 0), 0)
-                resultRows = [{ [columnName]: sum }]
-              } else if (func.toLowerCase() === 'avg') {
-                const validRows = resultRows.filter(r => r[field] != null)
-                const sum = validRows.reduce((acc, row) => acc + (Number(row[field]) || 0), 0)
-                const avg = validRows.length > 0 ? sum / validRows.length : 0
-                resultRows = [{ [columnName]: avg }]
-              } else if (func.toLowerCase() === 'max') {
-                const max = Math.max(...resultRows.map(r => Number(r[field]) || -Infinity))
-                resultRows = [{ [columnName]: max === -Infinity ? null : max }]
-              } else if (func.toLowerCase() === 'min') {
-                const min = Math.min(...resultRows.map(r => Number(r[field]) || Infinity))
-                resultRows = [{ [columnName]: min === Infinity ? null : min }]
-              }
-            }
-          } else {
-            // Handle column aliases (col AS alias)
-            const aliasMatch = col.match(/(\w+)(?:\s+as\s+(\w+))?/i)
-            if (aliasMatch) {
-              const [, fieldName, alias] = aliasMatch
-              const columnName = alias || fieldName
-              resultColumns.push(columnName)
-              columnMappings[columnName] = fieldName
-            }
+      parsed.set(key, viewStatement)
+      order.push(key)
+    }
+
+    refs.forEach(visit)
+
+    for (const key of order) {
+      run.evaluating.push(key)
+      try {
+        const context = this.createContext(run, `view ${this.views.get(key)!.title}`)
+        run.views.set(key, this.executeSelect(parsed.get(key)!, context))
+      } catch (error) {
+        throw new SqlError(`View "${this.views.get(key)!.title}": ${error.message}`)
+      } finally {
+        run.evaluating.pop()
+      }
+    }
+  }
+
+  private createContext(run: QueryRun, label: string, ctes?: Map<string, Relation>, outer?: OuterRow): ExecutionContext {
+    return {
+      run,
+      label,
+      sources: [],
+      resolved: new Map(),
+      ctes: new Map(ctes),
+      outer,
+      correlated: false,
+      subqueries: new Map()
+    }
+  }
+
+  private executeSelect(statement: SelectStatement, context: ExecutionContext): QueryResult {
+    for (const cte of statement.with) {
+      // Each CTE sees the enclosing query's row and the CTEs defined before it
+      const cteContext = this.createContext(context.run, `CTE ${cte.name} in ${context.label}`, context.ctes, context.outer)
+      const result = this.executeSelect(cte.query, cteContext)
+      if (cteContext.correlated) context.correlated = true
+      context.ctes.set(cte.name.toLowerCase(), this.cteRelation(cte, result))
+    }
+
+    const fromRelation = this.getRelation(context, statement.from)
+    const joinRelations = statement.joins.map(join => this.getRelation(context, join.table))
+    const fromKey = this.addSource(context, statement.from, fromRelation)
+    let rows: ScopeRow[] = this.readFrom(context, statement, fromRelation, joinRelations)
+      .map(row => ({ [fromKey]: row }))
+
+    statement.joins.forEach((join, i) => {
+      const previousKeys = context.sources.map(s => s.key)
+      const joinKey = this.addSource(context, join.table, joinRelations[i])
+      rows = this.applyJoin(context, rows, previousKeys, joinKey, joinRelations[i].rows, join)
+    })
+
+    if (statement.where) {
+      const where = statement.where
+      rows = rows.filter(row => this.isTrue(this.evaluate(context, where, { row })))
+    }
+
+    const orderBy = statement.orderBy.map(item => ({
+      ...item,
+      expression: this.resolveOrderExpression(item.expression, statement)
+    }))
+
+    const grouped = statement.groupBy.length > 0 || statement.having !== undefined ||
+      statement.columns.some(item => this.containsAggregate(item.expression)) ||
+      orderBy.some(item => this.containsAggregate(item.expression))
+    let scopes: EvaluationScope[] = grouped
+      ? this.groupRows(context, rows, statement, orderBy)
+      : rows.map(row => ({ row }))
+
+    if (statement.having) {
+      const having = statement.having
+      scopes = scopes.filter(scope => this.isTrue(this.evaluate(context, having, scope)))
+    }
+
+    // Window functions see the rows left after WHERE, GROUP BY and HAVING
+    const windowCalls = this.windowCalls([
+      ...statement.columns.map(item => item.expression),
+      ...orderBy.map(item => item.expression)
+    ])
+    if (windowCalls.length > 0) {
+      this.applyWindows(context, scopes, windowCalls)
+    }
+
+    if (orderBy.length > 0) {
+      scopes = this.applyOrderBy(context, scopes, orderBy)
+    }
+
+    const result = this.project(context, scopes, statement)
+
+    if (statement.distinct) {
+      const seen = new Set<string>()
+      result.rows = result.rows.filter(row => {
+        const key = JSON.stringify(result.columns.map(column => row[column]))
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+    }
+
+    if (statement.offset !== undefined || statement.limit !== undefined) {
+      const start = statement.offset ?? 0
+      const end = statement.limit !== undefined ? start + statement.limit : undefined
+      result.rows = result.rows.slice(start, end)
+    }
+
+    return result
+  }
+
+  private cteRelation(cte: CommonTableExpression, result: QueryResult): Relation {
+    const names = cte.columns
+    if (!names) return result
+    if (names.length !== result.columns.length) {
+      throw new SqlError(
+        `CTE "${cte.name}" names ${names.length} column${names.length === 1 ? '' : 's'} but its query returns ${result.columns.length}`,
+        cte.position
+      )
+    }
+    return {
+      columns: names,
+      rows: result.rows.map(row => Object.fromEntries(names.map((name, i) => [name, row[result.columns[i]]])))
+    }
+  }
+
+  private getRelation(context: ExecutionContext, ref: TableRef): Relation {
+    const key = ref.name.toLowerCase()
+    // CTEs hide tables and views of the same name within their statement
+    const cte = context.ctes.get(key)
+    if (cte) return cte
+
+    const table = this.tables.get(key)
+    if (table) {
+      // Rows may carry keys that are no longer declared as columns; keep both
+      const columns = table.columns.map(c => c.name)
+      const known = new Set(columns)
+      for (const row of table.rows) {
+        for (const name of Object.keys(row)) {
+          if (!known.has(name)) {
+            known.add(name)
+            columns.push(name)
           }
         }
-        
-        // Filter to only selected columns
-        const hasFunctions = selectClause.toLowerCase().includes('fn.')
-        const hasAggregates = selectClause.match(/\b(count|sum|avg|max|min)\s*\(/i)
-        
-        if (!hasAggregates && resultColumns.length > 0) {
-          resultRows = resultRows.map(row => {
-            const newRow: any = {}
-            for (const col of resultColumns) {
-              if (hasFunctions && col in row) {
-                // Function result already in row
-                newRow[col] = row[col]
-              } else {
-                // Regular column mapping
-                const sourceField = columnMappings[col] || col
-                newRow[col] = row[sourceField]
-              }
-            }
-            return newRow
-          })
+      }
+      return { columns, rows: table.rows }
+    }
+
+    const view = context.run.views.get(key)
+    if (view) return view
+
+    const available = [...this.tables.values(), ...this.views.values()].map(r => r.title.toLowerCase()).join(', ')
+    throw new SqlError(`Table or view "${ref.name}" not found. Available: ${available || 'none'}`, ref.position)
+  }
+
+  private addSource(context: ExecutionContext, ref: TableRef, relation: Relation): string {
+    const label = ref.alias ?? ref.name
+    const key = label.toLowerCase()
+    if (context.sources.some(s => s.key === key)) {
+      throw new SqlError(`Table name "${label}" is used more than once; give each use its own alias`, ref.position)
+    }
+
+    context.sources.push({ key, label, columns: relation.columns })
+    return key
+  }
+
+  private applyJoin(
+    context: ExecutionContext,
+    leftRows: ScopeRow[],
+    leftKeys: string[],
+    key: string,
+    rightRows: Record<string, any>[],
+    join: Join
+  ): ScopeRow[] {
+    const result: ScopeRow[] = []
+    const matchedRight = new Set<number>()
+
+    // With an index on the right table, ON is only tried on the rows it finds for each left row
+    const indexed = this.indexedTable(context, join.table)
+    const right = context.sources.find(s => s.key === key)!
+    const plans = indexed && join.on
+      ? this.indexPlans(indexed, this.indexConditions(join.on, context.sources, right, [right]))
+      : []
+    let probe: IndexPlan | undefined
+    let read = 0
+
+    for (const leftRow of leftRows) {
+      let matched = false
+      const found = this.lookupRows(context, plans, indexed!, { row: leftRow })
+      const candidates = found?.rows
+      const tried = candidates ?? rightRows
+      probe = probe ?? found?.plan
+      read += tried.length
+      tried.forEach((rightRow, i) => {
+        const index = candidates ? indexed!.positions.get(rightRow)! : i
+        const row = { ...leftRow, [key]: rightRow }
+        if (!join.on || this.isTrue(this.evaluate(context, join.on, { row }))) {
+          result.push(row)
+          matched = true
+          matchedRight.add(index)
         }
+      })
+      if (!matched && (join.type === 'LEFT' || join.type === 'FULL')) {
+        result.push({ ...leftRow, [key]: null })
       }
+    }
+    this.recordStep(context, join.table, probe, read)
 
-      return {
-        columns: resultColumns,
-        rows: resultRows
+    if (join.type === 'RIGHT' || join.type === 'FULL') {
+      // Right rows without a match are kept with every left-side source empty
+      const emptyLeft: ScopeRow = Object.fromEntries(leftKeys.map(k => [k, null]))
+      rightRows.forEach((rightRow, index) => {
+        if (!matchedRight.has(index)) {
+          result.push({ ...emptyLeft, [key]: rightRow })
+        }
+      })
+    }
+
+    return result
+  }
+
+  // Rows of the FROM source, narrowed with an index when WHERE compares indexed columns with values
+  private readFrom(
+    context: ExecutionContext,
+    statement: SelectStatement,
+    relation: Relation,
+    joinRelations: Relation[]
+  ): Record<string, any>[] {
+    const indexed = this.indexedTable(context, statement.from)
+    if (indexed && statement.where) {
+      // WHERE sees the joined sources too, which aren't added yet
+      const [from] = context.sources
+      const sources = [from, ...statement.joins.map((join, i) => {
+        const label = join.table.alias ?? join.table.name
+        return { key: label.toLowerCase(), label, columns: joinRelations[i].columns }
+      })]
+      const plans = this.indexPlans(indexed, this.indexConditions(statement.where, sources, from, sources))
+      const found = this.lookupRows(context, plans, indexed, { row: {} })
+      if (found) {
+        this.recordStep(context, statement.from, found.plan, found.rows.length)
+        return found.rows
       }
-    } catch (error) {
-      return {
-        columns: [],
-        rows: [],
-        error: error.message
+    }
+    this.recordStep(context, statement.from, undefined, relation.rows.length)
+    return relation.rows
+  }
+
+  // The indexes of a table named in FROM or JOIN; CTEs and views have none
+  private indexedTable(context: ExecutionContext, ref: TableRef): IndexedTable | undefined {
+    const key = ref.name.toLowerCase()
+    if (context.ctes.has(key)) return undefined
+    const table = this.tables.get(key)
+    return table && this.indexes.get(table)
+  }
+
+  /**
+   * Comparisons in the top-level AND of a condition between a column of `target`
+   * and an expression that doesn't read the `excluded` sources. Rows failing one
+   * of them fail the whole condition, so an index can pick the rows to check.
+   */
+  private indexConditions(
+    condition: Expression,
+    sources: Source[],
+    target: Source,
+    excluded: Source[]
+  ): IndexCondition[] {
+    const conditions: IndexCondition[] = []
+    const targetColumn = (expression: Expression) => {
+      if (expression.kind !== 'column') return undefined
+      const matches = this.sourcesOf(expression, sources)
+      return matches.length === 1 && matches[0] === target ? columnIn(target, expression.name) : undefined
+    }
+    const independent = (expression: Expression) => this.independentOf(expression, sources, excluded)
+
+    const visit = (expression: Expression) => {
+      if (expression.kind === 'binary' && expression.operator === 'AND') {
+        visit(expression.left)
+        visit(expression.right)
+      } else if (expression.kind === 'binary' && expression.operator in FLIPPED_COMPARISONS) {
+        const operator = expression.operator as IndexCondition['operator']
+        const left = targetColumn(expression.left)
+        const right = targetColumn(expression.right)
+        if (left && independent(expression.right)) {
+          conditions.push({ column: left, operator, value: expression.right })
+        } else if (right && independent(expression.left)) {
+          conditions.push({ column: right, operator: FLIPPED_COMPARISONS[operator], value: expression.left })
+        }
+      } else if (expression.kind === 'between' && !expression.negated) {
+        const column = targetColumn(expression.expression)
+        if (column && independent(expression.low) && independent(expression.high)) {
+          conditions.push(
+            { column, operator: '>=', value: expression.low },
+            { column, operator: '<=', value: expression.high }
+          )
+        }
+      }
+    }
+    visit(condition)
+    return conditions
+  }
+
+  // The sources a column reference may read; none for columns of enclosing queries
+  private sourcesOf(ref: ColumnRef, sources: Source[]): Source[] {
+    return ref.table
+      ? sources.filter(s => s.key === ref.table!.toLowerCase())
+      : sources.filter(s => columnIn(s, ref.name) !== undefined)
+  }
+
+  // Whether an expression can be computed without the rows of the `excluded` sources
+  private independentOf(expression: Expression, sources: Source[], excluded: Source[]): boolean {
+    switch (expression.kind) {
+      case 'literal':
+        return true
+      case 'column': {
+        const matches = this.sourcesOf(expression, sources)
+        if (matches.length === 0) return true
+        return matches.length === 1 && !excluded.includes(matches[0]) && columnIn(matches[0], expression.name) !== undefined
+      }
+      case 'binary':
+      case 'unary':
+      case 'cast':
+      case 'case':
+        return childExpressions(expression).every(child => this.independentOf(child, sources, excluded))
+      case 'call':
+        // Built-in scalar functions only: user functions and aggregates may not give the same value twice
+        return !expression.namespace && !expression.over && !this.isAggregateCall(expression) &&
+          SCALAR_FUNCTIONS[expression.name] !== undefined &&
+          expression.args.every(arg => this.independentOf(arg, sources, excluded))
+      default:
+        return false
+    }
+  }
+
+  // The indexes that can answer some of the conditions, best first: a whole hash key,
+  // then sorted indexes by the length of their equal prefix and bounds on the column after it
+  private indexPlans(indexed: IndexedTable, conditions: IndexCondition[]): IndexPlan[] {
+    const plans: { plan: IndexPlan, score: number }[] = []
+    for (const index of indexed.indexes) {
+      const equal: IndexCondition[] = []
+      for (const column of index.columns) {
+        const condition = conditions.find(c => c.column === column && c.operator === '=')
+        if (!condition) break
+        equal.push(condition)
+      }
+
+      const plan: IndexPlan = { index, equal }
+      if (index.kind === 'hash' && equal.length < index.columns.length) continue
+      if (equal.length < index.columns.length) {
+        const column = index.columns[equal.length]
+        plan.low = conditions.find(c => c.column === column && (c.operator === '>' || c.operator === '>='))
+        plan.high = conditions.find(c => c.column === column && (c.operator === '<' || c.operator === '<='))
+      }
+
+      const score = index.kind === 'hash' ? Infinity : equal.length * 2 + (plan.low ? 1 : 0) + (plan.high ? 1 : 0)
+      if (score > 0) plans.push({ plan, score })
+    }
+    return plans.sort((a, b) => b.score - a.score).map(({ plan }) => plan)
+  }
+
+  // Rows the first plan that works finds, in table order; undefined if none works
+  // and the rows must be scanned instead
+  private lookupRows(
+    context: ExecutionContext,
+    plans: IndexPlan[],
+    indexed: IndexedTable,
+    scope: EvaluationScope
+  ): { plan: IndexPlan, rows: Record<string, any>[] } | undefined {
+    for (const plan of plans) {
+      const rows = this.lookupPlan(context, plan, scope)
+      if (rows) return { plan, rows: rows.sort((a, b) => indexed.positions.get(a)! - indexed.positions.get(b)!) }
+    }
+    return undefined
+  }
+
+  // Rows an index finds; undefined if a value can't be computed or the index can't compare it
+  private lookupPlan(context: ExecutionContext, plan: IndexPlan, scope: EvaluationScope): Record<string, any>[] | undefined {
+    let values: any[]
+    let low: any
+    let high: any
+    try {
+      values = plan.equal.map(condition => this.evaluate(context, condition.value, scope))
+      low = plan.low && this.evaluate(context, plan.low.value, scope)
+      high = plan.high && this.evaluate(context, plan.high.value, scope)
+    } catch {
+      // Left for the scan, which reports the error if it gets to that row
+      return undefined
+    }
+
+    // Comparisons with NULL are never true
+    if (values.some(value => value == null) || (plan.low && low == null) || (plan.high && high == null)) return []
+
+    const range = plan.low || plan.high
+      ? {
+          low: plan.low && { value: low, inclusive: plan.low.operator === '>=' },
+          high: plan.high && { value: high, inclusive: plan.high.operator === '<=' }
+        }
+      : undefined
+    return plan.index.lookup(values, range)
+  }
+
+  private recordStep(context: ExecutionContext, ref: TableRef, plan: IndexPlan | undefined, rows: number) {
+    const steps = context.run.plan
+    if (!steps) return
+    const step = steps.get(ref)
+    if (step) {
+      step.rows += rows
+      return
+    }
+
+    const conditions = plan ? [...plan.equal, ...(plan.low ? [plan.low] : []), ...(plan.high ? [plan.high] : [])] : []
+    steps.set(ref, {
+      query: context.label,
+      table: ref.alias ? `${ref.name} ${ref.alias}` : ref.name,
+      access: !plan ? 'scan' : plan.low || plan.high ? 'index range' : 'index lookup',
+      index: plan ? `${plan.index.name} (${plan.index.kind})` : null,
+      condition: conditions.length > 0
+        ? conditions.map(c => `${c.column} ${c.operator} ${formatExpression(c.value)}`).join(' AND ')
+        : null,
+      rows
+    })
+  }
+
+  // EXPLAIN output: one row per FROM and JOIN source, in the order they were first read
+  private explainResult(steps: Map<TableRef, PlanStep>): QueryResult {
+    return {
+      columns: ['step', 'query', 'table', 'access', 'index', 'condition', 'rows read'],
+      rows: Array.from(steps.values()).map((step, i) => ({
+        'step': i + 1,
+        'query': step.query,
+        'table': step.table,
+        'access': step.access,
+        'index': step.index,
+        'condition': step.condition,
+        'rows read': step.rows
+      }))
+    }
+  }
+
+  private groupRows(
+    context: ExecutionContext,
+    rows: ScopeRow[],
+    statement: SelectStatement,
+    orderBy: OrderItem[]
+  ): EvaluationScope[] {
+    const groupBy = statement.groupBy.map(expression => this.resolveGroupExpression(context, expression, statement))
+    const groupKeys = groupBy.map(expression => this.expressionKey(context, expression))
+
+    // Everything evaluated per group must be a grouping key or inside an aggregate
+    statement.columns.forEach(item => this.checkGrouped(context, item.expression, groupKeys))
+    if (statement.having) this.checkGrouped(context, statement.having, groupKeys)
+    orderBy.forEach(item => this.checkGrouped(context, item.expression, groupKeys))
+
+    if (groupBy.length === 0) {
+      // Without GROUP BY the whole input forms a single group, even when empty
+      return [{ row: rows[0] ?? {}, group: rows }]
+    }
+
+    const groups = new Map<string, ScopeRow[]>()
+    for (const row of rows) {
+      const key = JSON.stringify(groupBy.map(expression => this.evaluate(context, expression, { row })))
+      const group = groups.get(key)
+      if (group) {
+        group.push(row)
+      } else {
+        groups.set(key, [row])
       }
     }
+
+    return Array.from(groups.values()).map(group => ({ row: group[0], group }))
+  }
+
+  private resolveGroupExpression(context: ExecutionContext, expression: Expression, statement: SelectStatement): Expression {
+    if (this.containsAggregate(expression)) {
+      throw new SqlError('Aggregate functions are not allowed in GROUP BY', expression.position)
+    }
+
+    // GROUP BY may name a select-list alias instead of repeating the expression
+    if (expression.kind === 'column' && !expression.table) {
+      const found = this.findColumn(context, expression)
+      const item = statement.columns.find(c => c.alias?.toLowerCase() === expression.name.toLowerCase())
+      if (item && (!found || found.depth > 0)) return item.expression
+    }
+    return expression
   }
 
-  private applyWhere(rows: any[], whereClause: string): any[] {
-    // Simple WHERE parser - supports =, !=, <, >, <=, >=, LIKE, AND, OR
-    const conditions = this.parseWhereConditions(whereClause)
-    
-    return rows.filter(row => {
-      return this.evaluateConditions(row, conditions)
+  private checkGrouped(context: ExecutionContext, expression: Expression, groupKeys: string[]) {
+    if (expression.kind === 'star') {
+      throw new SqlError('SELECT * cannot be combined with GROUP BY or aggregate functions', expression.position)
+    }
+    if (this.isAggregateCall(expression)) {
+      return
+    }
+    if (expression.kind === 'column') {
+      this.resolveColumn(context, expression)
+    }
+    if (groupKeys.includes(this.expressionKey(context, expression))) {
+      return
+    }
+    if (expression.kind === 'column') {
+      const name = expression.table ? `${expression.table}.${expression.name}` : expression.name
+      throw new SqlError(
+        `Column "${name}" must appear in GROUP BY or be used in an aggregate function`,
+        expression.position
+      )
+    }
+    childExpressions(expression).forEach(child => this.checkGrouped(context, child, groupKeys))
+  }
+
+  // Structural identity of an expression, ignoring positions and how columns are qualified
+  private expressionKey(context: ExecutionContext, expression: Expression): string {
+    return JSON.stringify(expression, (key, value) => {
+      if (key === 'position') return undefined
+      if (value && value.kind === 'column') {
+        const { source, column, depth } = this.resolveColumn(context, value)
+        return { kind: 'column', source, column, depth }
+      }
+      if (value && value.kind === 'select') {
+        // Columns inside a subquery resolve against its own sources
+        return JSON.stringify(value, (k, v) => (k === 'position' ? undefined : v))
+      }
+      return value
     })
   }
 
-  private parseWhereConditions(whereClause: string): any[] {
-    const conditions: any[] = []
-    
-    // Split by AND/OR (simple implementation)
-    const parts = whereClause.split(/\s+(and|or)\s+/i)
-    
-    for (let i = 0; i < parts.length; i += 2) {
-      const condition = parts[i].trim()
-      const operator = parts[i + 1]?.toLowerCase() || 'and'
-      
-      // Parse individual condition
-      const condMatch = condition.match(/(\w+)\s*(=|!=|<>|<=|>=|<|>|like)\s*(.+)/i)
-      if (condMatch) {
-        const [, field, op, valueStr] = condMatch
-        let value: any = valueStr.trim()
-        
-        // Remove quotes if present
-        if ((value.startsWith("'") && value.endsWith("'")) || 
-            (value.startsWith('"') && value.endsWith('"'))) {
-          value = value.slice(1, -1)
-        } else if (!isNaN(Number(value))) {
-          value = Number(value)
-        } else if (value === 'true') {
-          value = true
-        } else if (value === 'false') {
-          value = false
-        } else if (value === 'null') {
-          value = null
+  // ORDER BY may name a select-list alias or its 1-based position instead of an expression
+  private resolveOrderExpression(expression: Expression, statement: SelectStatement): Expression {
+    const items = statement.columns
+
+    if (expression.kind === 'literal' && typeof expression.value === 'number') {
+      const index = expression.value
+      if (!Number.isInteger(index) || index < 1 || index > items.length) {
+        throw new SqlError(`ORDER BY position ${index} is not in the select list`, expression.position)
+      }
+      const item = items[index - 1]
+      if (item.expression.kind === 'star') {
+        throw new SqlError(`ORDER BY position ${index} refers to ${item.text}; name the column instead`, expression.position)
+      }
+      return item.expression
+    }
+
+    if (expression.kind === 'column' && !expression.table) {
+      const item = items.find(c => c.alias?.toLowerCase() === expression.name.toLowerCase())
+      if (item) return item.expression
+    }
+
+    return expression
+  }
+
+  private applyOrderBy(context: ExecutionContext, scopes: EvaluationScope[], orderBy: OrderItem[]): EvaluationScope[] {
+    return this.sortScopes(context, scopes, orderBy).map(entry => entry.scope)
+  }
+
+  private sortScopes(context: ExecutionContext, scopes: EvaluationScope[], orderBy: OrderItem[]): SortEntry[] {
+    const entries = scopes.map(scope => ({
+      scope,
+      keys: orderBy.map(item => this.evaluate(context, item.expression, scope))
+    }))
+    entries.sort((a, b) => this.compareSortKeys(orderBy, a.keys, b.keys))
+    return entries
+  }
+
+  private compareSortKeys(orderBy: OrderItem[], a: any[], b: any[]): number {
+    for (let i = 0; i < orderBy.length; i++) {
+      const isAsc = orderBy[i].direction === 'ASC'
+      // NULLs sort as the smallest value unless NULLS FIRST/LAST says otherwise
+      const nullsFirst = orderBy[i].nulls ? orderBy[i].nulls === 'FIRST' : isAsc
+      const aVal = a[i]
+      const bVal = b[i]
+
+      if (aVal == null && bVal == null) continue
+      if (aVal == null) return nullsFirst ? -1 : 1
+      if (bVal == null) return nullsFirst ? 1 : -1
+
+      const order = compareValues(aVal, bVal)
+      if (order !== 0) return isAsc ? order : -order
+    }
+    return 0
+  }
+
+  private windowCalls(expressions: Expression[]): FunctionCall[] {
+    const calls: FunctionCall[] = []
+    const visit = (expression: Expression, inside?: FunctionCall) => {
+      if (expression.kind === 'call' && expression.over) {
+        if (inside) {
+          throw new SqlError('Window functions cannot be nested', expression.position)
         }
-        
-        conditions.push({ field, op: op.toLowerCase(), value, connector: operator })
+        if (!calls.includes(expression)) calls.push(expression)
+        childExpressions(expression).forEach(child => visit(child, expression))
+        return
       }
+      childExpressions(expression).forEach(child => visit(child, inside))
     }
-    
-    return conditions
+    expressions.forEach(expression => visit(expression))
+    return calls
   }
 
-  private evaluateConditions(row: any, conditions: any[]): boolean {
-    if (conditions.length === 0) return true
-    
-    let result = true
-    let currentConnector = 'and'
-    
-    for (const cond of conditions) {
-      const fieldValue = row[cond.field]
-      let condResult = false
-      
-      switch (cond.op) {
-        case '=':
-          condResult = fieldValue == cond.value
-          break
-        case '!=':
-        case '<>':
-          condResult = fieldValue != cond.value
-          break
-        case '<':
-          condResult = fieldValue < cond.value
-          break
-        case '>':
-          condResult = fieldValue > cond.value
-          break
-        case '<=':
-          condResult = fieldValue <= cond.value
-          break
-        case '>=':
-          condResult = fieldValue >= cond.value
-          break
-        case 'like':
-          const pattern = cond.value.replace(/%/g, '.*')
-          condResult = new RegExp(pattern, 'i').test(String(fieldValue))
-          break
-      }
-      
-      if (currentConnector === 'and') {
-        result = result && condResult
-      } else if (currentConnector === 'or') {
-        result = result || condResult
-      }
-      
-      currentConnector = cond.connector
-    }
-    
-    return result
+  private applyWindows(context: ExecutionContext, scopes: EvaluationScope[], calls: FunctionCall[]) {
+    scopes.forEach(scope => { scope.windows = new Map() })
+
+    for (const call of calls) {
+      this.checkWindowCall(call)
+      const over = call.over!
+
+      const partitions = new Map<string, EvaluationScope[]>()
+      for (const scope of scopes) {
+        const key = JSON.stringify(over.partitionBy.map(expression => this.evaluate(context, expression, scope)))
+        const partition = partitions.get(key)
+        if (partition) {
+          partition.push(scope)
+        } else {
+          partitions.set(key, [scope])
+        }
+      }
+
+      for (const partition of partitions.values()) {
+        const entries = this.sortScopes(context, partition, over.orderBy)
+        const values = this.windowValues(context, call, entries)
+        entries.forEach((entry, i) => entry.scope.windows!.set(call, values[i]))
+      }
+    }
   }
 
-  private applyJoin(leftRows: any[], rightRows: any[], condition: string): any[] {
-    // Parse join condition (e.g., "table1.id = table2.id")
-    const condMatch = condition.match(/(\w+)\.(\w+)\s*=\s*(\w+)\.(\w+)/i)
-    if (!condMatch) {
-      // Simple condition without table prefixes
-      const simpleMatch = condition.match(/(\w+)\s*=\s*(\w+)/i)
-      if (simpleMatch) {
-        const [, leftField, rightField] = simpleMatch
-        const result: any[] = []
-        
-        for (const leftRow of leftRows) {
-          for (const rightRow of rightRows) {
-            if (leftRow[leftField] == rightRow[rightField]) {
-              result.push({ ...leftRow, ...rightRow })
+  private checkWindowCall(call: FunctionCall) {
+    const arity = (min: number, max: number) => {
+      if (call.args.length < min || call.args.length > max) {
+        const expected = min === max ? `${min}` : `${min} to ${max}`
+        throw new SqlError(`${call.name}() expects ${expected} argument${max === 1 ? '' : 's'} but got ${call.args.length}`, call.position)
+      }
+    }
+
+    if (call.distinct) {
+      throw new SqlError('DISTINCT is not supported in window functions', call.position)
+    }
+    if (call.name === 'ROW_NUMBER' || call.name === 'RANK' || call.name === 'DENSE_RANK') {
+      arity(0, 0)
+    } else if (call.name === 'LAG' || call.name === 'LEAD') {
+      arity(1, 3)
+    } else if (AGGREGATES.has(call.name)) {
+      arity(1, 1)
+    } else {
+      throw new SqlError(`${call.name}() is not a window function`, call.position)
+    }
+  }
+
+  /**
+   * Values of one window function for a sorted partition. Rows that tie on the
+   * window's ORDER BY are peers: they share a rank and, by default, a frame end.
+   */
+  private windowValues(context: ExecutionContext, call: FunctionCall, entries: SortEntry[]): any[] {
+    const over = call.over!
+    const isPeer = (i: number, j: number) => this.compareSortKeys(over.orderBy, entries[i].keys, entries[j].keys) === 0
+
+    const peerStart: number[] = []
+    const peerEnd: number[] = []
+    entries.forEach((_, i) => {
+      peerStart.push(i > 0 && isPeer(i - 1, i) ? peerStart[i - 1] : i)
+    })
+    for (let i = entries.length - 1; i >= 0; i--) {
+      peerEnd[i] = i < entries.length - 1 && isPeer(i, i + 1) ? peerEnd[i + 1] : i
+    }
+
+    switch (call.name) {
+      case 'ROW_NUMBER':
+        return entries.map((_, i) => i + 1)
+      case 'RANK':
+        return entries.map((_, i) => peerStart[i] + 1)
+      case 'DENSE_RANK': {
+        let rank = 0
+        return entries.map((_, i) => (peerStart[i] === i ? ++rank : rank))
+      }
+      case 'LAG':
+      case 'LEAD':
+        return entries.map((entry, i) => {
+          let offset = 1
+          if (call.args[1]) {
+            const value = toNumber(this.evaluate(context, call.args[1], entry.scope))
+            if (value === undefined || !Number.isInteger(value) || value < 0) {
+              throw new SqlError(`${call.name}() offset must be a non-negative whole number`, call.args[1].position)
             }
+            offset = value
+          }
+          const target = call.name === 'LAG' ? i - offset : i + offset
+          if (target < 0 || target >= entries.length) {
+            return call.args[2] ? this.evaluate(context, call.args[2], entry.scope) : null
           }
+          return this.evaluate(context, call.args[0], entries[target].scope)
+        })
+    }
+
+    // Aggregates over each row's frame
+    const arg = call.args[0]
+    const values = entries.map(entry => (arg.kind === 'star' ? 1 : this.evaluate(context, arg, entry.scope)))
+    if (arg.kind === 'star' && call.name !== 'COUNT') {
+      throw new SqlError(`${call.name}(*) is not supported`, arg.position)
+    }
+
+    return entries.map((_, i) => {
+      let start = 0
+      let end = entries.length - 1
+      const frame = over.frame
+      if (frame) {
+        start = this.frameIndex(frame.start, i, frame.units === 'RANGE' ? peerStart[i] : i, entries.length)
+        end = this.frameIndex(frame.end, i, frame.units === 'RANGE' ? peerEnd[i] : i, entries.length)
+      } else if (over.orderBy.length > 0) {
+        end = peerEnd[i]
+      }
+      return this.aggregate(call, values.slice(Math.max(start, 0), Math.min(end, entries.length - 1) + 1))
+    })
+  }
+
+  // Index of a frame bound within the partition; may fall outside it for row offsets
+  private frameIndex(bound: FrameBound, index: number, current: number, size: number): number {
+    switch (bound.type) {
+      case 'UNBOUNDED PRECEDING': return 0
+      case 'PRECEDING': return index - bound.offset!
+      case 'CURRENT ROW': return current
+      case 'FOLLOWING': return index + bound.offset!
+      case 'UNBOUNDED FOLLOWING': return size - 1
+    }
+  }
+
+  private project(context: ExecutionContext, scopes: EvaluationScope[], statement: SelectStatement): QueryResult {
+    const outputs: OutputColumn[] = []
+
+    for (const item of statement.columns) {
+      const expression = item.expression
+      if (expression.kind === 'star') {
+        outputs.push(...this.expandStar(context, expression))
+      } else if (item.alias) {
+        outputs.push({ label: item.alias, value: scope => this.evaluate(context, expression, scope) })
+      } else if (expression.kind === 'column') {
+        const { source, column, depth } = this.resolveColumn(context, expression)
+        const sourceLabel = this.enclosingContext(context, depth).sources.find(s => s.key === source)!.label
+        outputs.push({
+          label: column,
+          qualifiedLabel: `${sourceLabel}.${column}`,
+          value: scope => this.evaluate(context, expression, scope)
+        })
+      } else {
+        outputs.push({ label: item.text, value: scope => this.evaluate(context, expression, scope) })
+      }
+    }
+
+    const columns = this.uniqueLabels(outputs)
+    return {
+      columns,
+      rows: scopes.map(scope => {
+        const newRow: Record<string, any> = {}
+        outputs.forEach((output, i) => {
+          newRow[columns[i]] = output.value(scope)
+        })
+        return newRow
+      })
+    }
+  }
+
+  private expandStar(context: ExecutionContext, star: Star): OutputColumn[] {
+    let sources = context.sources
+    if (star.table) {
+      sources = sources.filter(s => s.key === star.table!.toLowerCase())
+      if (sources.length === 0) {
+        throw new SqlError(`Unknown table "${star.table}" in ${star.table}.*`, star.position)
+      }
+    }
+
+    return sources.flatMap(source => source.columns.map(column => ({
+      label: column,
+      qualifiedLabel: `${source.label}.${column}`,
+      value: (scope: EvaluationScope) => {
+        const record = scope.row[source.key]
+        return record === null ? null : record?.[column]
+      }
+    })))
+  }
+
+  // Same-named columns from different sources are qualified so each keeps its own value
+  private uniqueLabels(outputs: OutputColumn[]): string[] {
+    const counts = new Map<string, number>()
+    outputs.forEach(o => counts.set(o.label, (counts.get(o.label) ?? 0) + 1))
+
+    const used = new Set<string>()
+    return outputs.map(output => {
+      let label = output.label
+      if (counts.get(label)! > 1 && output.qualifiedLabel) {
+        label = output.qualifiedLabel
+      }
+      const base = label
+      for (let n = 2; used.has(label); n++) {
+        label = `${base}_${n}`
+      }
+      used.add(label)
+      return label
+    })
+  }
+
+  private isAggregateCall(expression: Expression): boolean {
+    return expression.kind === 'call' && !expression.namespace && !expression.over && AGGREGATES.has(expression.name)
+  }
+
+  private containsAggregate(expression: Expression): boolean {
+    return this.isAggregateCall(expression) ||
+      childExpressions(expression).some(child => this.containsAggregate(child))
+  }
+
+  private resolveColumn(context: ExecutionContext, ref: ColumnRef): ResolvedColumn {
+    const resolved = this.findColumn(context, ref)
+    if (!resolved) {
+      const name = ref.table ? `${ref.table}.${ref.name}` : ref.name
+      throw new SqlError(`Column "${name}" not found`, ref.position)
+    }
+    return resolved
+  }
+
+  // Columns resolve against the nearest query that has them, so subqueries can use outer columns
+  private findColumn(context: ExecutionContext, ref: ColumnRef): ResolvedColumn | undefined {
+    const cached = context.resolved.get(ref)
+    if (cached) return cached
+
+    const findColumn = (source: Source) => columnIn(source, ref.name)
+
+    let resolved: ResolvedColumn | undefined
+    if (ref.table) {
+      const source = context.sources.find(s => s.key === ref.table!.toLowerCase())
+      if (!source && !context.outer) {
+        throw new SqlError(`Unknown table "${ref.table}" in column reference`, ref.position)
+      }
+      const column = source && findColumn(source)
+      if (source && column) resolved = { source: source.key, column, depth: 0 }
+    } else {
+      const matches = context.sources
+        .map(source => ({ source, column: findColumn(source) }))
+        .filter(match => match.column !== undefined)
+      if (matches.length > 1) {
+        const candidates = matches.map(m => `${m.source.label}.${m.column}`).join(' or ')
+        throw new SqlError(`Column "${ref.name}" is ambiguous; qualify it as ${candidates}`, ref.position)
+      }
+      if (matches.length === 1) {
+        resolved = { source: matches[0].source.key, column: matches[0].column!, depth: 0 }
+      }
+    }
+
+    if (!resolved && context.outer) {
+      const outer = this.findColumn(context.outer.context, ref)
+      if (outer) resolved = { ...outer, depth: outer.depth + 1 }
+    }
+
+    if (resolved) context.resolved.set(ref, resolved)
+    return resolved
+  }
+
+  private enclosingContext(context: ExecutionContext, depth: number): ExecutionContext {
+    for (let i = 0; i < depth; i++) {
+      context = context.outer!.context
+    }
+    return context
+  }
+
+  // The current row `depth` queries out; reading it makes every query in between correlated
+  private enclosingScope(context: ExecutionContext, scope: EvaluationScope, depth: number): EvaluationScope {
+    for (let i = 0; i < depth; i++) {
+      context.correlated = true
+      scope = context.outer!.scope
+      context = context.outer!.context
+    }
+    return scope
+  }
+
+  private evaluate(context: ExecutionContext, expression: Expression, scope: EvaluationScope): any {
+    switch (expression.kind) {
+      case 'literal':
+        return expression.value
+
+      case 'column': {
+        const { source, column, depth } = this.resolveColumn(context, expression)
+        const record = this.enclosingScope(context, scope, depth).row[source]
+        // A source is null on the missing side of an outer join
+        return record === null ? null : record?.[column]
+      }
+
+      case 'star':
+        throw new SqlError('"*" is only allowed in SELECT * and COUNT(*)', expression.position)
+
+      case 'binary':
+        return this.evaluateBinary(context, expression, scope)
+
+      case 'unary': {
+        const operand = this.evaluate(context, expression.operand, scope)
+        if (expression.operator === 'NOT') {
+          const truth = truthValue(operand)
+          return truth === null ? null : !truth
         }
-        return result
-      }
-    }
-    
-    return leftRows
-  }
-
-  private applyOrderBy(rows: any[], orderClause: string): any[] {
-    // Parse ORDER BY clause (e.g., "column ASC" or "column DESC")
-    const orderMatch = orderClause.match(/(\w+)(?:\s+(asc|desc))?/i)
-    if (!orderMatch) return rows
-    
-    const [, field, direction = 'asc'] = orderMatch
-    const isAsc = direction.toLowerCase() === 'asc'
-    
-    return [...rows].sort((a, b) => {
-      const aVal = a[field]
-      const bVal = b[field]
-      
-      if (aVal == null && bVal == null) return 0
-      if (aVal == null) return isAsc ? -1 : 1
-      if (bVal == null) return isAsc ? 1 : -1
-      
-      if (aVal < bVal) return isAsc ? -1 : 1
-      if (aVal > bVal) return isAsc ? 1 : -1
-      return 0
+        if (operand == null) return null
+        const number = toNumber(operand)
+        if (number === undefined) {
+          throw new SqlError(`Cannot negate non-numeric value ${JSON.stringify(operand)}`, expression.position)
+        }
+        return -number
+      }
+
+      case 'like': {
+        const value = this.evaluate(context, expression.expression, scope)
+        const pattern = this.evaluate(context, expression.pattern, scope)
+        if (value == null || pattern == null) return null
+        const matches = likeToRegExp(String(pattern), expression.escape).test(String(value))
+        return expression.negated ? !matches : matches
+      }
+
+      case 'in': {
+        const value = this.evaluate(context, expression.expression, scope)
+        if (value == null) return null
+        const listed = expression.subquery
+          ? this.subqueryValues(context, expression.subquery, scope, expression.position)
+          : undefined
+        const count = listed ? listed.length : expression.values.length
+        let sawNull = false
+        for (let i = 0; i < count; i++) {
+          const candidate = listed ? listed[i] : this.evaluate(context, expression.values[i], scope)
+          if (candidate == null) {
+            sawNull = true
+          } else if (compareValues(value, candidate) === 0) {
+            return !expression.negated
+          }
+        }
+        return sawNull ? null : expression.negated
+      }
+
+      case 'between': {
+        const value = this.evaluate(context, expression.expression, scope)
+        const low = this.evaluate(context, expression.low, scope)
+        const high = this.evaluate(context, expression.high, scope)
+        const aboveLow = value == null || low == null ? null : compareValues(value, low) >= 0
+        const belowHigh = value == null || high == null ? null : compareValues(value, high) <= 0
+        const within = this.and(aboveLow, belowHigh)
+        return within === null ? null : within !== expression.negated
+      }
+
+      case 'isNull': {
+        const isNull = this.evaluate(context, expression.expression, scope) == null
+        return isNull !== expression.negated
+      }
+
+      case 'case': {
+        // Branches are evaluated lazily so untaken ones can't raise errors
+        const operand = expression.operand && this.evaluate(context, expression.operand, scope)
+        for (const branch of expression.branches) {
+          const when = this.evaluate(context, branch.when, scope)
+          const matches = expression.operand
+            ? operand != null && when != null && compareValues(operand, when) === 0
+            : truthValue(when) === true
+          if (matches) return this.evaluate(context, branch.then, scope)
+        }
+        return expression.otherwise ? this.evaluate(context, expression.otherwise, scope) : null
+      }
+
+      case 'subquery': {
+        const values = this.subqueryValues(context, expression.query, scope, expression.position)
+        if (values.length > 1) {
+          throw new SqlError(`Subquery returned ${values.length} rows where one value was expected`, expression.position)
+        }
+        return values.length === 0 ? null : values[0]
+      }
+
+      case 'exists':
+        return this.runSubquery(context, expression.query, scope).rows.length > 0
+
+      case 'cast': {
+        const value = this.evaluate(context, expression.expression, scope)
+        try {
+          return castValue(value, expression.type)
+        } catch (error) {
+          throw new SqlError(`CAST: ${(error as Error).message}`, expression.position)
+        }
+      }
+
+      case 'call':
+        if (expression.over) {
+          if (!scope.windows?.has(expression)) {
+            throw new SqlError(`Window function ${expression.name}() is only allowed in SELECT and ORDER BY`, expression.position)
+          }
+          return scope.windows.get(expression)
+        }
+        if (expression.distinct && !this.isAggregateCall(expression)) {
+          throw new SqlError('DISTINCT is only allowed in aggregate functions', expression.position)
+        }
+        if (expression.namespace === 'FN') {
+          return this.callUserFunction(context, expression, scope)
+        }
+        if (this.isAggregateCall(expression)) {
+          return this.evaluateAggregate(context, expression, scope)
+        }
+        if (WINDOW_FUNCTIONS.has(expression.name)) {
+          throw new SqlError(`${expression.name}() requires an OVER clause`, expression.position)
+        }
+        return this.callScalarFunction(context, expression, scope)
+    }
+  }
+
+  private callScalarFunction(context: ExecutionContext, call: FunctionCall, scope: EvaluationScope): any {
+    const func = SCALAR_FUNCTIONS[call.name]
+    if (!func) {
+      throw new SqlError(`Unknown function "${call.name}"`, call.position)
+    }
+    if (call.args.length < func.minArgs || call.args.length > func.maxArgs) {
+      const expected = func.minArgs === func.maxArgs
+        ? `${func.minArgs}`
+        : func.maxArgs === Infinity ? `at least ${func.minArgs}` : `${func.minArgs} to ${func.maxArgs}`
+      throw new SqlError(
+        `${call.name}() expects ${expected} argument${func.maxArgs === 1 ? '' : 's'} but got ${call.args.length}`,
+        call.position
+      )
+    }
+
+    const args = call.args.map(arg => this.evaluate(context, arg, scope))
+    if (!func.nullSafe && args.some(arg => arg == null)) return null
+
+    try {
+      return func.evaluate(args)
+    } catch (error) {
+      throw new SqlError(`${call.name}(): ${(error as Error).message}`, call.position)
+    }
+  }
+
+  // Uncorrelated subqueries run once per query; correlated ones once per outer row
+  private runSubquery(context: ExecutionContext, query: SelectStatement, scope: EvaluationScope): QueryResult {
+    const cached = context.subqueries.get(query)
+    if (cached) return cached
+
+    const subcontext = this.createContext(context.run, `subquery in ${context.label}`, context.ctes, { context, scope })
+    const result = this.executeSelect(query, subcontext)
+    if (!subcontext.correlated) context.subqueries.set(query, result)
+    return result
+  }
+
+  private subqueryValues(
+    context: ExecutionContext,
+    query: SelectStatement,
+    scope: EvaluationScope,
+    position: Position
+  ): any[] {
+    const result = this.runSubquery(context, query, scope)
+    if (result.columns.length !== 1) {
+      throw new SqlError(`Subquery must return exactly one column but returns ${result.columns.length}`, position)
+    }
+    const [column] = result.columns
+    return result.rows.map(row => row[column])
+  }
+
+  // AND/OR follow SQL three-valued logic, with null standing for UNKNOWN
+  private and(left: boolean | null, right: boolean | null): boolean | null {
+    if (left === false || right === false) return false
+    if (left === null || right === null) return null
+    return true
+  }
+
+  private or(left: boolean | null, right: boolean | null): boolean | null {
+    if (left === true || right === true) return true
+    if (left === null || right === null) return null
+    return false
+  }
+
+  private evaluateBinary(context: ExecutionContext, expression: BinaryExpression, scope: EvaluationScope): any {
+    const { operator } = expression
+
+    if (operator === 'AND') {
+      const left = truthValue(this.evaluate(context, expression.left, scope))
+      if (left === false) return false
+      return this.and(left, truthValue(this.evaluate(context, expression.right, scope)))
+    }
+    if (operator === 'OR') {
+      const left = truthValue(this.evaluate(context, expression.left, scope))
+      if (left === true) return true
+      return this.or(left, truthValue(this.evaluate(context, expression.right, scope)))
+    }
+
+    const left = this.evaluate(context, expression.left, scope)
+    const right = this.evaluate(context, expression.right, scope)
+    if (left == null || right == null) return null
+
+    if (operator === '||') {
+      return this.toText(left) + this.toText(right)
+    }
+
+    switch (operator) {
+      case '=': return compareValues(left, right) === 0
+      case '!=':
+      case '<>': return compareValues(left, right) !== 0
+      case '<': return compareValues(left, right) < 0
+      case '>': return compareValues(left, right) > 0
+      case '<=': return compareValues(left, right) <= 0
+      case '>=': return compareValues(left, right) >= 0
+    }
+
+    const a = toNumber(left)
+    const b = toNumber(right)
+    if (a === undefined || b === undefined) {
+      const bad = a === undefined ? left : right
+      throw new SqlError(`Operator "${operator}" expects numbers but got ${JSON.stringify(bad)}`, expression.position)
+    }
+    switch (operator) {
+      case '+': return a + b
+      case '-': return a - b
+      case '*': return a * b
+      // Division by zero yields NULL rather than Infinity
+      case '/': return b === 0 ? null : a / b
+      case '%': return b === 0 ? null : a % b
+    }
+  }
+
+  private toText(value: any): string {
+    if (value instanceof Date) return value.toISOString()
+    if (typeof value === 'object') return JSON.stringify(value)
+    return String(value)
+  }
+
+  private evaluateAggregate(context: ExecutionContext, call: FunctionCall, scope: EvaluationScope): any {
+    if (!scope.group) {
+      throw new SqlError(`Aggregate ${call.name}() is not allowed here`, call.position)
+    }
+    if (call.args.length !== 1) {
+      throw new SqlError(`${call.name}() expects exactly one argument`, call.position)
+    }
+
+    const arg = call.args[0]
+    if (arg.kind === 'star') {
+      if (call.name !== 'COUNT' || call.distinct) {
+        throw new SqlError(`${call.name}(${call.distinct ? 'DISTINCT ' : ''}*) is not supported`, arg.position)
+      }
+      return scope.group.length
+    }
+
+    return this.aggregate(call, scope.group.map(row => this.evaluate(context, arg, { row })))
+  }
+
+  // Aggregate of a group's or window frame's values; NULLs are ignored
+  private aggregate(call: FunctionCall, input: any[]): any {
+    let values = input.filter(v => v != null)
+
+    if (call.distinct) {
+      const seen = new Set<string>()
+      values = values.filter(v => {
+        const key = JSON.stringify(v)
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+    }
+
+    switch (call.name) {
+      case 'COUNT':
+        return values.length
+      // Over no values, SUM and AVG are NULL
+      case 'SUM':
+        return values.length > 0
+          ? values.reduce((acc, v) => acc + (Number(v) || 0), 0)
+          : null
+      case 'AVG':
+        return values.length > 0
+          ? values.reduce((acc, v) => acc + (Number(v) || 0), 0) / values.length
+          : null
+      case 'MIN':
+        return values.reduce((min, v) => (min === null || compareValues(v, min) < 0 ? v : min), null)
+      case 'MAX':
+        return values.reduce((max, v) => (max === null || compareValues(v, max) > 0 ? v : max), null)
+    }
+  }
+
+  private callUserFunction(context: ExecutionContext, call: FunctionCall, scope: EvaluationScope): any {
+    const func = this.functions.get(call.name.toLowerCase())
+    if (!func) {
+      throw new SqlError(`Function "${call.name}" not found`, call.position)
+    }
+    if (call.args.length !== func.params.length) {
+      throw new SqlError(
+        `FN.${func.name}() expects ${func.params.length} argument${func.params.length === 1 ? '' : 's'} but got ${call.args.length}`,
+        call.position
+      )
+    }
+
+    const args = call.args.map((arg, i) => this.evaluateArgument(context, func, func.params[i], arg, scope))
+
+    // Tables and views are known by name within a query, so their data needn't be part of the key
+    const key = JSON.stringify([func.name, args.map((arg, i) =>
+      DATA_PARAM_TYPES.has(func.params[i].type) ? { relation: arg?.title } : arg
+    )])
+    const { results, pending } = context.run.calls
+    if (results.has(key)) return results.get(key)
+    pending.set(key, { func, args })
+    return null
+  }
+
+  // Errors of single calls give NULL; a timeout, limit or cancellation fails the query
+  private async runFunctionCalls(calls: FunctionCalls, options: QueryOptions) {
+    const pending = Array.from(calls.pending)
+    const outcomes = await secureFunctionEngine.executeCalls(
+      pending.map(([, call]) => call),
+      Array.from(this.tables.values()),
+      Array.from(this.views.values()),
+      Array.from(this.functions.values()),
+      { ...options, data: this }
+    )
+    outcomes.forEach((outcome, i) => {
+      const [key, { func }] = pending[i]
+      if (outcome.error !== undefined) calls.errors.add(`${func.name}: ${outcome.error}`)
+      calls.results.set(key, outcome.error !== undefined ? null : outcome.value)
     })
   }
 
+  /**
+   * Column references take the current row's value. Literals are converted to the
+   * declared parameter type, and data parameters take a table or view name.
+   */
+  private evaluateArgument(
+    context: ExecutionContext,
+    func: AppFunction,
+    param: FunctionParam,
+    arg: Expression,
+    scope: EvaluationScope
+  ): any {
+    const describe = `Argument "${param.name}" of FN.${func.name}()`
+
+    if (DATA_PARAM_TYPES.has(param.type)) {
+      let name: string | undefined
+      if (arg.kind === 'column' && !arg.table) name = arg.name
+      if (arg.kind === 'literal' && typeof arg.value === 'string') name = arg.value
+      if (name === undefined) {
+        throw new SqlError(`${describe} expects a table or view name`, arg.position)
+      }
+      const cte = context.ctes.get(name.toLowerCase())
+      if (cte && param.type !== 'view') return { title: name, ...cte }
+      const ref: TableRef = { name, position: arg.position }
+      const table = this.tables.get(name.toLowerCase())
+      if (table && param.type !== 'view') return table
+      this.evaluateViews([ref], context.run)
+      const relation = context.run.views.get(name.toLowerCase())
+      if (!relation) {
+        throw new SqlError(`${describe}: ${param.type === 'view' ? 'view' : 'table or view'} "${name}" not found`, arg.position)
+      }
+      return { title: this.views.get(name.toLowerCase())!.title, ...relation }
+    }
+
+    const value = this.evaluate(context, arg, scope)
+    if (arg.kind !== 'literal' || value === null) {
+      return value
+    }
+
+    switch (param.type) {
+      case 'number': {
+        const number = typeof value === 'boolean' || value === '' ? NaN : Number(value)
+        if (isNaN(number)) {
+          throw new SqlError(`${describe} expects a number but got ${JSON.stringify(value)}`, arg.position)
+        }
+        return number
+      }
+      case 'string':
+        return String(value)
+      case 'boolean': {
+        if (typeof value === 'boolean') return value
+        const text = String(value).toLowerCase()
+        if (text === 'true' || text === '1') return true
+        if (text === 'false' || text === '0') return false
+        throw new SqlError(`${describe} expects a boolean but got ${JSON.stringify(value)}`, arg.position)
+      }
+      case 'object':
+      case 'array': {
+        if (typeof value !== 'string') {
+          throw new SqlError(`${describe} expects JSON text for an ${param.type}`, arg.position)
+        }
+        let parsed: any
+        try {
+          parsed = JSON.parse(value)
+        } catch {
+          throw new SqlError(`${describe} is not valid JSON`, arg.position)
+        }
+        if (Array.isArray(parsed) !== (param.type === 'array')) {
+          throw new SqlError(`${describe} expects JSON ${param.type === 'array' ? 'array' : 'object'} text`, arg.position)
+        }
+        return parsed
+      }
+      default:
+        return value
+    }
+  }
+
+  // Only TRUE passes WHERE, ON and HAVING; FALSE and UNKNOWN are filtered out
+  private isTrue(value: any): boolean {
+    return truthValue(value) === true
+  }
+
   // Helper function to get available tables for autocomplete
   getAvailableTables(): string[] {
     return Array.from(this.tables.keys())
   }
 
+  // A table's data for `tables.get`, found by its title in any case; throws if there is none
+  getTable(name: string): RelationData {
+    const table = this.tables.get(name.toLowerCase())
+    if (!table) throw new Error(`Table "${name}" not found`)
+    return { columns: table.columns.map(c => c.name), rows: table.rows }
+  }
+
+  // A view's results for `views.run`, found by its title in any case. Throws if there is
+  // no such view, if it fails, or if views running functions that run views nest past MAX_VIEW_DEPTH
+  async runView(name: string, options: { signal?: AbortSignal, depth: number }): Promise<RelationData> {
+    const view = this.views.get(name.toLowerCase())
+    if (!view) throw new Error(`View "${name}" not found`)
+    if (options.depth > MAX_VIEW_DEPTH) {
+      throw new Error(`View "${name}" is nested more than ${MAX_VIEW_DEPTH} deep in views run by functions`)
+    }
+    const result = await this.executeQuery(view.query, options)
+    if (result.error) throw new Error(`View "${view.title}" failed: ${result.error}`)
+    return { columns: result.columns, rows: result.rows }
+  }
+
+  // Tables and views named directly in a query, or an empty list if it doesn't parse
+  getQueryDependencies(query: string): string[] {
+    try {
+      const names = referencedRelations(parseQuery(query)).map(ref => ref.name.toLowerCase())
+      return Array.from(new Set(names))
+    } catch {
+      return []
+    }
+  }
+
   // Helper function to get columns for a table
   getTableColumns(tableName: string): string[] {
     const table = this.tables.get(tableName.toLowerCase())
@@ -366,4 +1585,4 @@ export class QueryEngine {
   }
 }
 
-export const queryEngine = new QueryEngine()
\ No newline at end of file
+export const queryEngine = new QueryEngine()
@@ -0,0 +1,62 @@
+import { Table } from '../models/types'
+import { db } from './database'
+
+// Tables with more rows than this keep them in the rowChunks store, this many per chunk
+export const CHUNK_SIZE = 1000
+
+/**
+ * Stores the rows of large tables in chunks of their own, so a table record
+ * stays small, its rows can be loaded after the rest of the project, and an
+ * edit only rewrites the chunks it touched. Small tables keep their rows inline.
+ */
+class RowStorage {
+  private written = new Map<string, string[]>()  // tableId → serialized chunks as stored
+
+  async loadRows(table: Table): Promise<Record<string, any>[]> {
+    const chunks = await db.getRowChunks(table.id)
+    this.written.set(table.id, chunks.map(chunk => JSON.stringify(chunk.rows)))
+    return chunks.flatMap(chunk => chunk.rows)
+  }
+
+  async saveTable(table: Table): Promise<void> {
+    const { rowsPending, rowChunks, ...fields } = table
+
+    if (rowsPending) {
+      // Its rows were never loaded, so only the table's own fields can have changed
+      await db.saveTable({ ...fields, rows: [], rowChunks })
+      return
+    }
+
+    if (table.rows.length <= CHUNK_SIZE) {
+      // Store the rows inline before dropping chunks, so they are never missing
+      await db.saveTable(fields)
+      if (rowChunks || this.written.has(table.id)) {
+        await db.deleteRowChunks(table.id)
+        this.written.delete(table.id)
+      }
+      return
+    }
+
+    const stored = [...(this.written.get(table.id) || [])]
+    const count = Math.ceil(table.rows.length / CHUNK_SIZE)
+    for (let index = 0; index < count; index++) {
+      const rows = table.rows.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)
+      const serialized = JSON.stringify(rows)
+      if (stored[index] === serialized) continue
+      await db.saveRowChunk({ id: `${table.id}:${index}`, tableId: table.id, projectId: table.projectId, index, rows })
+      stored[index] = serialized
+      this.written.set(table.id, stored)
+    }
+    await db.deleteRowChunks(table.id, count)
+    this.written.set(table.id, stored.slice(0, count))
+    await db.saveTable({ ...fields, rows: [], rowChunks: count })
+  }
+
+  async deleteTable(id: string): Promise<void> {
+    await db.deleteTable(id)
+    await db.deleteRowChunks(id)
+    this.written.delete(id)
+  }
+}
+
+export const rowStorage = new RowStorage()
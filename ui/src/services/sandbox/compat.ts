@@ -0,0 +1,26 @@
+/**
+ * Support for function bodies written before functions ran in the sandbox,
+ * when `tables.orders` and `views.totals` could be read without awaiting and
+ * `functions` held the project's functions. Tables and views named that way are
+ * read before the body runs, and `functions.name(...)` calls a function.
+ * Views now give their results rather than their definitions.
+ */
+
+// `tables.name` or `tables['name']`, and the same for views
+const LEGACY_ACCESS = /(?<![\w$.])(tables|views)\s*(?:\.\s*([A-Za-z_$][\w$]*)|\[\s*(['"])((?:(?!\3).)*)\3\s*\])/g
+
+// The methods that replaced them
+const METHODS: Record<string, string> = { tables: 'get', views: 'run' }
+
+// Tables and views a body reads the old way
+export const legacyDataNames = (body: string, params: string[]): { tables: string[], views: string[] } => {
+  const names: Record<string, Set<string>> = { tables: new Set(), views: new Set() }
+  for (const match of body.matchAll(LEGACY_ACCESS)) {
+    const [, scope, property, , quoted] = match
+    const name = property ?? quoted
+    // A parameter of the same name hides the scope's tables or views
+    if (params.includes(scope) || name === METHODS[scope]) continue
+    names[scope].add(name)
+  }
+  return { tables: Array.from(names.tables), views: Array.from(names.views) }
+}
@@ -0,0 +1,215 @@
+import { compareValues, indexKey } from '../sql/values'
+
+/**
+ * The helper library: available by name inside function bodies, besides
+ * `console`, `tables`, `views` and `functions`, and callable from expressions
+ * such as `=sum(orders.rows, 'amount')`. Helpers taking rows accept an array of
+ * rows; `join` also accepts a table or view. `max`, `min`, `unique`, `sortBy` and
+ * `join` compare values as queries do (see sql/values.ts).
+ */
+
+const rowsOf = (data: any): any[] => Array.isArray(data) ? data : Array.isArray(data?.rows) ? data.rows : []
+
+// The non-null values of `arr`, or of `field` in each of its rows
+const valuesOf = (arr: any[], field?: string): any[] => {
+  if (!Array.isArray(arr)) return []
+  return arr.map(item => field ? item?.[field] : item).filter(value => value !== null && value !== undefined)
+}
+
+export const HELPERS: Record<string, any> = {
+  // Math functions (safe)
+  Math: {
+    abs: Math.abs,
+    ceil: Math.ceil,
+    floor: Math.floor,
+    round: Math.round,
+    max: Math.max,
+    min: Math.min,
+    pow: Math.pow,
+    sqrt: Math.sqrt,
+    random: Math.random,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    PI: Math.PI,
+    E: Math.E
+  },
+
+  // Array helper functions
+  // sum(arr, field?): total of the values, non-numbers counting as 0
+  sum: (arr: any[], field?: string) => {
+    if (!Array.isArray(arr)) return 0
+    if (field) {
+      return arr.reduce((acc, item) => acc + (Number(item[field]) || 0), 0)
+    }
+    return arr.reduce((acc, val) => acc + (Number(val) || 0), 0)
+  },
+
+  // avg(arr, field?): sum divided by the number of items, 0 for none
+  avg: (arr: any[], field?: string) => {
+    if (!Array.isArray(arr) || arr.length === 0) return 0
+    const sum = arr.reduce((acc, item) => {
+      const val = field ? item[field] : item
+      return acc + (Number(val) || 0)
+    }, 0)
+    return sum / arr.length
+  },
+
+  // count(arr): number of items
+  count: (arr: any[]) => Array.isArray(arr) ? arr.length : 0,
+
+  // max(arr, field?) and min(arr, field?): largest or smallest non-null value,
+  // ordered as MAX and MIN order them in queries; null for none
+  max: (arr: any[], field?: string) => valuesOf(arr, field).reduce((max, v) => (max === null || compareValues(v, max) > 0 ? v : max), null),
+
+  min: (arr: any[], field?: string) => valuesOf(arr, field).reduce((min, v) => (min === null || compareValues(v, min) < 0 ? v : min), null),
+
+  // filter(arr, condition): items for which condition(item) is truthy
+  filter: (arr: any[], condition: (item: any) => boolean) => {
+    if (!Array.isArray(arr)) return []
+    if (typeof condition !== 'function') return arr
+    return arr.filter(condition)
+  },
+
+  // map(arr, transform): transform(item) of each item
+  map: (arr: any[], transform: (item: any) => any) => {
+    if (!Array.isArray(arr)) return []
+    if (typeof transform !== 'function') return arr
+    return arr.map(transform)
+  },
+
+  // groupBy(arr, field): object of arrays of rows, by their value of field
+  groupBy: (arr: any[], field: string) => {
+    if (!Array.isArray(arr)) return {}
+    return arr.reduce((groups, item) => {
+      const key = item[field]
+      if (!groups[key]) groups[key] = []
+      groups[key].push(item)
+      return groups
+    }, {} as Record<string, any[]>)
+  },
+
+  // unique(arr, field?): items without repeats, the first row for each value of field;
+  // values that compare equal in a query, such as 1 and '1', are repeats
+  unique: (arr: any[], field?: string) => {
+    if (!Array.isArray(arr)) return []
+    const seen = new Map<number | string, any[]>()
+    let seenNull = false
+    return arr.filter(item => {
+      const value = field ? item?.[field] : item
+      if (value === null || value === undefined) {
+        if (seenNull) return false
+        seenNull = true
+        return true
+      }
+      const key = indexKey(value)
+      const same = seen.get(key) || []
+      if (same.some(other => compareValues(value, other) === 0)) return false
+      seen.set(key, [...same, value])
+      return true
+    })
+  },
+
+  // sortBy(arr, field, desc?): rows sorted by field as ORDER BY sorts them, nulls
+  // being the smallest value
+  sortBy: (arr: any[], field: string, desc = false) => {
+    if (!Array.isArray(arr)) return []
+    return [...arr].sort((a, b) => {
+      const aVal = a?.[field]
+      const bVal = b?.[field]
+      const aNull = aVal === null || aVal === undefined
+      const bNull = bVal === null || bVal === undefined
+      const order = aNull || bNull ? Number(bNull) - Number(aNull) : compareValues(aVal, bVal)
+      return desc ? -order : order
+    })
+  },
+
+  // join(left, right, field, rightField = field): rows of left merged with each row
+  // of right whose rightField equals their field, as `ON l.field = r.rightField` would match them
+  join: (left: any, right: any, field: string, rightField = field) => {
+    const byKey = new Map<number | string, any[]>()
+    for (const row of rowsOf(right)) {
+      const value = row?.[rightField]
+      if (value === null || value === undefined) continue
+      const key = indexKey(value)
+      byKey.set(key, [...(byKey.get(key) || []), row])
+    }
+    const result: any[] = []
+    for (const row of rowsOf(left)) {
+      const value = row?.[field]
+      if (value === null || value === undefined) continue
+      for (const match of byKey.get(indexKey(value)) || []) {
+        if (compareValues(value, match[rightField]) === 0) result.push({ ...row, ...match })
+      }
+    }
+    return result
+  },
+
+  // String functions, each taking the string first: String.trim(s), String.split(s, sep), ...
+  String: {
+    toLowerCase: (s: any) => String(s).toLowerCase(),
+    toUpperCase: (s: any) => String(s).toUpperCase(),
+    trim: (s: any) => String(s).trim(),
+    split: (s: any, sep: string) => String(s).split(sep),
+    includes: (s: any, search: string) => String(s).includes(search),
+    startsWith: (s: any, search: string) => String(s).startsWith(search),
+    endsWith: (s: any, search: string) => String(s).endsWith(search),
+    replace: (s: any, search: string | RegExp, replace: string) => String(s).replace(search, replace)
+  },
+
+  // JSON functions; JSON.parse gives null for invalid JSON
+  JSON: {
+    parse: (s: string) => {
+      try {
+        return JSON.parse(s)
+      } catch {
+        return null
+      }
+    },
+    stringify: (obj: any) => JSON.stringify(obj)
+  },
+
+  // Type checks: isNumber, isString, isBoolean, isArray, isObject, isNull, isUndefined
+  isNumber: (val: any) => typeof val === 'number' && !isNaN(val),
+  isString: (val: any) => typeof val === 'string',
+  isBoolean: (val: any) => typeof val === 'boolean',
+  isArray: Array.isArray,
+  isObject: (val: any) => val !== null && typeof val === 'object' && !Array.isArray(val),
+  isNull: (val: any) => val === null,
+  isUndefined: (val: any) => val === undefined
+}
+
+// The text console.log gives for its arguments
+export const formatLog = (args: any[]): string => args.map(arg => {
+  if (typeof arg === 'object') {
+    try {
+      return JSON.stringify(arg, null, 2)
+    } catch {
+      return String(arg)
+    }
+  }
+  return String(arg)
+}).join(' ')
+
+// Names function bodies get besides HELPERS
+export const SCOPE_NAMES = ['console', 'tables', 'views', 'functions']
+
+const RESERVED_WORDS = new Set([
+  'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger',
+  'default', 'delete', 'do', 'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally',
+  'for', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let',
+  'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'static', 'super',
+  'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while',
+  'with', 'yield'
+])
+
+/**
+ * Why a project function can't be called by name from other functions, or
+ * undefined when it can. Helpers take precedence over project functions.
+ */
+export const uncallableReason = (name: string): string | undefined => {
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) return 'its name is not a valid identifier'
+  if (RESERVED_WORDS.has(name)) return 'its name is a reserved word'
+  if (Object.prototype.hasOwnProperty.call(HELPERS, name) || SCOPE_NAMES.includes(name)) return `the built-in ${name} has the same name`
+  return undefined
+}
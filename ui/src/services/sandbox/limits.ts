@@ -0,0 +1,63 @@
+import { FunctionLimits } from '../../models/types'
+
+/**
+ * Limits on function calls and the errors raised when a call exceeds them or
+ * is cancelled. The timeout is enforced by SecureFunctionEngine, which stops
+ * the worker; data and output are measured inside the worker.
+ */
+
+export const DEFAULT_FUNCTION_LIMITS: Required<FunctionLimits> = {
+  timeoutMs: 5000,
+  maxDataMb: 64,
+  maxOutputKb: 1024
+}
+
+// Nested calls between project functions, counting the first, before they are stopped
+export const MAX_CALL_DEPTH = 32
+
+// The function's own limits, then the project's, then the defaults
+export const resolveLimits = (
+  functionLimits?: FunctionLimits,
+  projectLimits?: FunctionLimits
+): Required<FunctionLimits> => {
+  const limits = { ...DEFAULT_FUNCTION_LIMITS }
+  for (const source of [projectLimits, functionLimits]) {
+    for (const [key, value] of Object.entries(source || {}) as [keyof FunctionLimits, number | undefined][]) {
+      if (typeof value === 'number' && value > 0) limits[key] = value
+    }
+  }
+  return limits
+}
+
+export type LimitKind = 'data' | 'output'
+
+export class FunctionTimeoutError extends Error {
+  constructor(public functionName: string, public timeoutMs: number) {
+    super(`Function ${functionName} timed out after ${timeoutMs} ms`)
+    this.name = 'FunctionTimeoutError'
+  }
+}
+
+export class FunctionLimitError extends Error {
+  constructor(public functionName: string, public limit: LimitKind, message: string) {
+    super(`Function ${functionName} exceeded its ${limit} limit: ${message}`)
+    this.name = 'FunctionLimitError'
+  }
+}
+
+export class FunctionCancelledError extends Error {
+  constructor() {
+    super('Function run was cancelled')
+    this.name = 'FunctionCancelledError'
+  }
+}
+
+export type StopReason = 'timeout' | 'limit' | 'cancelled'
+
+// Why a function run was stopped, for errors that stop a whole run rather than a single call
+export const stopReason = (error: unknown): StopReason | undefined => {
+  if (error instanceof FunctionTimeoutError) return 'timeout'
+  if (error instanceof FunctionLimitError) return 'limit'
+  if (error instanceof FunctionCancelledError) return 'cancelled'
+  return undefined
+}
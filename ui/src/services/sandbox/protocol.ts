@@ -0,0 +1,79 @@
+import type { LimitKind } from './limits'
+
+/**
+ * Messages between the main thread and the function sandbox worker. Everything
+ * a function sees arrives in these messages: the worker has no other way to
+ * reach tables, views or the page. Besides its arguments, a function can ask
+ * for a table or view by name while it runs (`tables.get`, `views.run`), and
+ * call the other project functions sent with the run.
+ */
+
+// A project function's code, as other functions call it
+export interface FunctionSource {
+  name: string
+  params: string[]
+  paramTypes: string[]
+  body: string
+}
+
+// Parameter types whose arguments are tables or views, or their rows or columns.
+// Their arguments may be given as a table or view name, looked up in the worker
+export const DATA_PARAM_TYPES = new Set(['table', 'view', 'rows', 'columns'])
+
+// A function to run with its arguments
+export interface SandboxCall extends FunctionSource {
+  args: any[]
+  maxDataBytes: number
+  maxOutputBytes: number
+}
+
+export interface SandboxOutcome {
+  value?: any
+  error?: string      // set when the function threw or did something it may not
+  limit?: LimitKind   // set with `error` when the call went over a limit
+  console: string[]   // console.log output of the call
+}
+
+export interface RunRequest {
+  type: 'run'
+  id: number
+  calls: SandboxCall[]
+  functions: FunctionSource[]  // the project's functions, callable by name from the calls
+}
+
+// Sent as each call starts, so the caller can time it
+export interface RunStarted {
+  type: 'started'
+  id: number
+  index: number
+}
+
+export interface RunResponse {
+  type: 'done'
+  id: number
+  outcomes: SandboxOutcome[]  // one per call, in order
+}
+
+export type DataKind = 'table' | 'view'
+
+// A table's rows or a view's results, as functions get them from `tables.get` and `views.run`
+export interface RelationData {
+  columns: string[]
+  rows: Record<string, any>[]
+}
+
+// Sent by a call of run `id` that asks for data
+export interface DataRequest {
+  type: 'data'
+  id: number
+  requestId: number
+  kind: DataKind
+  name: string
+}
+
+export interface DataResponse {
+  type: 'data'
+  requestId: number
+  value?: RelationData
+  error?: string
+}
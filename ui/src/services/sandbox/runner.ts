@@ -0,0 +1,413 @@
+import { HELPERS, formatLog, uncallableReason } from './helpers'
+import { DATA_PARAM_TYPES, DataKind, FunctionSource, RelationData, SandboxCall, SandboxOutcome } from './protocol'
+import { LimitKind, MAX_CALL_DEPTH } from './limits'
+import { legacyDataNames } from './compat'
+
+/**
+ * Runs function bodies inside the sandbox worker. The worker is its own realm,
+ * so `globalThis`, `(() => {}).constructor` and the like reach only the worker,
+ * and `lockDown` removes what the worker itself could reach outside: the
+ * network, storage, code loading and messaging. It also freezes the built-ins,
+ * which every function and call in the worker share.
+ */
+
+// Captured before lockDown takes the constructors away from user code, and
+// before any function body could replace them
+const compileFunction = Function
+const stringify = JSON.stringify
+const clone = structuredClone
+const compiled = new Map<string, Function>()
+
+const NETWORK = 'functions have no network access'
+const STORAGE = 'functions have no storage access'
+const PAGE = 'functions run apart from the page'
+const CODE_TEXT = 'functions cannot run code given as text'
+const MESSAGING = 'functions cannot send or receive messages'
+
+// Globals leading out of the worker, with why they are missing. The worker's
+// Content-Security-Policy blocks the network regardless; these fail with a reason
+const FORBIDDEN_GLOBALS: Record<string, string> = {
+  fetch: NETWORK,
+  XMLHttpRequest: NETWORK,
+  WebSocket: NETWORK,
+  WebTransport: NETWORK,
+  EventSource: NETWORK,
+  WebSocketStream: NETWORK,
+  navigator: NETWORK,
+  // Fonts and images load URLs as well
+  FontFace: NETWORK,
+  fonts: NETWORK,
+  createImageBitmap: NETWORK,
+  importScripts: 'functions cannot load code',
+  eval: CODE_TEXT,
+  Worker: 'functions cannot start workers',
+  SharedWorker: 'functions cannot start workers',
+  indexedDB: STORAGE,
+  caches: STORAGE,
+  localStorage: STORAGE,
+  sessionStorage: STORAGE,
+  BroadcastChannel: MESSAGING,
+  postMessage: MESSAGING,
+  // The message handler, which could be handed made-up runs
+  onmessage: MESSAGING,
+  onmessageerror: MESSAGING,
+  addEventListener: MESSAGING,
+  removeEventListener: MESSAGING,
+  dispatchEvent: MESSAGING,
+  close: 'functions cannot stop the sandbox',
+  window: PAGE,
+  document: PAGE,
+  parent: PAGE,
+  top: PAGE,
+  opener: PAGE
+}
+
+export class ForbiddenError extends Error {
+  constructor(capability: string, reason: string) {
+    super(`${capability} is not available: ${reason}`)
+    this.name = 'ForbiddenError'
+  }
+}
+
+const forbid = (target: object, name: string, reason: string) => {
+  const descriptor = Object.getOwnPropertyDescriptor(target, name)
+  if (descriptor && !descriptor.configurable) return
+  Object.defineProperty(target, name, {
+    get: () => { throw new ForbiddenError(name, reason) },
+    configurable: false
+  })
+}
+
+/**
+ * Take away the worker globals that reach outside it, including through the
+ * prototypes they are inherited from. `onMessage` becomes the worker's only
+ * message handler, and functions can neither reach nor call it.
+ */
+export const lockDown = (scope: any, onMessage: (event: MessageEvent) => void) => {
+  scope.addEventListener('message', onMessage)
+
+  for (const [name, reason] of Object.entries(FORBIDDEN_GLOBALS)) {
+    for (let target = scope; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+      if (Object.prototype.hasOwnProperty.call(target, name)) forbid(target, name, reason)
+    }
+    if (!(name in scope)) forbid(scope, name, reason)
+  }
+
+  // Function constructors, reachable from any function, compile text into code
+  const constructors = [
+    (function () {}).constructor,
+    (async function () {}).constructor,
+    (function* () {}).constructor,
+    (async function* () {}).constructor
+  ]
+  for (const constructor of constructors) {
+    forbid(constructor.prototype, 'constructor', CODE_TEXT)
+  }
+  forbid(scope, 'Function', CODE_TEXT)
+
+  // Timers would run code given as text
+  for (const name of ['setTimeout', 'setInterval']) {
+    const timer = scope[name]
+    if (typeof timer !== 'function') continue
+    scope[name] = (handler: any, ...rest: any[]) => {
+      if (typeof handler !== 'function') throw new ForbiddenError(`${name} with code text`, CODE_TEXT)
+      return timer(handler, ...rest)
+    }
+  }
+
+  // Every call gets the same helpers and built-ins, so none may change them for the next
+  for (const [prototype, names] of OVERRIDABLE) {
+    names.forEach(name => enableOverride(prototype, name))
+  }
+  for (const name of INTRINSICS) {
+    if (!(name in scope)) continue
+    const value = scope[name]
+    try {
+      Object.defineProperty(scope, name, { value, writable: false, configurable: false })
+    } catch {
+      // Already fixed by the environment
+    }
+    harden(value)
+  }
+  for (const value of [...constructors, ...HIDDEN_INTRINSICS, HELPERS]) harden(value)
+}
+
+// Built-ins reached by name, shared by every call
+const INTRINSICS = [
+  'Object', 'Array', 'String', 'Number', 'Boolean', 'Symbol', 'BigInt', 'Math', 'JSON', 'Reflect', 'Proxy',
+  'Promise', 'Date', 'RegExp', 'Map', 'Set', 'WeakMap', 'WeakSet', 'WeakRef', 'FinalizationRegistry', 'Intl',
+  'Error', 'TypeError', 'RangeError', 'SyntaxError', 'ReferenceError', 'EvalError', 'URIError', 'AggregateError',
+  'ArrayBuffer', 'SharedArrayBuffer', 'DataView', 'Atomics', 'Int8Array', 'Uint8Array', 'Uint8ClampedArray',
+  'Int16Array', 'Uint16Array', 'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array', 'BigInt64Array',
+  'BigUint64Array', 'parseInt', 'parseFloat', 'isNaN', 'isFinite', 'encodeURI', 'encodeURIComponent',
+  'decodeURI', 'decodeURIComponent', 'structuredClone', 'queueMicrotask', 'setTimeout', 'setInterval',
+  'clearTimeout', 'clearInterval', 'TextEncoder', 'TextDecoder'
+]
+
+// Built-ins reached only through values, such as the prototype of array iterators
+const HIDDEN_INTRINSICS = [
+  Object.getPrototypeOf([][Symbol.iterator]()),
+  Object.getPrototypeOf(new Map()[Symbol.iterator]()),
+  Object.getPrototypeOf(new Set()[Symbol.iterator]()),
+  Object.getPrototypeOf(''[Symbol.iterator]()),
+  Object.getPrototypeOf(/./[Symbol.matchAll]('')),
+  Object.getPrototypeOf(Int8Array)
+]
+
+// Assigning these to an object fails once its prototype is frozen, as in
+// `this.name = 'MyError'`, so they become accessors setting the object's own property
+const OVERRIDABLE: [object, string[]][] = [
+  [Object.prototype, ['constructor', 'toString', 'toLocaleString', 'valueOf']],
+  [Error.prototype, ['constructor', 'name', 'message', 'toString']],
+  [Function.prototype, ['toString']]
+]
+
+const enableOverride = (prototype: object, name: string) => {
+  const descriptor = Object.getOwnPropertyDescriptor(prototype, name)
+  if (!descriptor || !('value' in descriptor) || !descriptor.configurable) return
+  const { value } = descriptor
+  Object.defineProperty(prototype, name, {
+    get: () => value,
+    set(this: object, replacement: any) {
+      if (this === prototype) throw new TypeError(`Cannot assign to read only property '${name}' of a built-in`)
+      Object.defineProperty(this, name, { value: replacement, writable: true, enumerable: true, configurable: true })
+    },
+    enumerable: descriptor.enumerable,
+    configurable: false
+  })
+}
+
+// Freeze a value, everything it holds and the prototypes it inherits from
+const harden = (value: any) => {
+  if (value === null || (typeof value !== 'object' && typeof value !== 'function') || Object.isFrozen(value)) return
+  Object.freeze(value)
+  harden(Object.getPrototypeOf(value))
+  for (const key of Reflect.ownKeys(value)) {
+    const descriptor = Object.getOwnPropertyDescriptor(value, key)!
+    if ('value' in descriptor) harden(descriptor.value)
+    harden(descriptor.get)
+    harden(descriptor.set)
+  }
+}
+
+// Input data is read-only for function bodies; proxies are kept so they can be unwrapped on return
+const proxies = new WeakMap<object, object>()
+const targets = new WeakMap<object, object>()
+
+const readOnly = (value: any): any => {
+  if (!value || typeof value !== 'object' || value instanceof Date || targets.has(value)) return value
+  const existing = proxies.get(value)
+  if (existing) return existing
+
+  const proxy = new Proxy(value, {
+    set: () => {
+      throw new Error('Cannot modify input data')
+    },
+    deleteProperty: () => {
+      throw new Error('Cannot delete from input data')
+    },
+    defineProperty: () => {
+      throw new Error('Cannot define properties on input data')
+    },
+    get: (target, prop) => readOnly(target[prop])
+  })
+  proxies.set(value, proxy)
+  targets.set(proxy, value)
+  return proxy
+}
+
+// A copy of a function's result that can be posted back: input data is unwrapped
+// from its read-only proxies and functions are refused
+const toPlain = (value: any): any => {
+  if (typeof value === 'function') throw new Error('Functions cannot be returned')
+  if (!value || typeof value !== 'object' || value instanceof Date) return value
+  const target = targets.get(value)
+  if (target) return target
+  if (Array.isArray(value)) return value.map(toPlain)
+  // Maps, sets and the like are left for structuredClone to copy or refuse
+  const prototype = Object.getPrototypeOf(value)
+  if (prototype !== Object.prototype && prototype !== null) return value
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, toPlain(v)]))
+}
+
+// `names` are those the body gets from the scope object passed after its arguments
+const compile = (source: FunctionSource, names: string[]): Function => {
+  const key = JSON.stringify([source.params, source.body, names])
+  const cached = compiled.get(key)
+  if (cached) return cached
+
+  // A body without return is a single expression
+  const hasReturn = /\breturn\b/.test(source.body)
+  const functionBody = hasReturn ? source.body : `return ${source.body}`
+  // Bodies are async so they can await data; a parameter hides a name of the scope
+  const scopeNames = names.filter(name => !source.params.includes(name))
+  const fn = compileFunction(`
+    'use strict';
+    return (async function(${source.params.join(', ')}) {
+      const { ${scopeNames.join(', ')} } = arguments[${source.params.length}];
+      ${functionBody}
+    })
+  `)()
+  compiled.set(key, fn)
+  return fn
+}
+
+// What the functions of one top-level call share
+interface CallScope {
+  names: Record<string, any>              // helpers, console, tables and views
+  functions: Map<string, FunctionSource>  // project functions callable by name
+  read: (kind: DataKind, name: string) => Promise<any>
+}
+
+const runFunction = async (source: FunctionSource, args: any[], scope: CallScope, stack: string[]): Promise<any> => {
+  const callables: Record<string, any> = {}
+  scope.functions.forEach((callee, name) => {
+    callables[name] = (...calleeArgs: any[]) => callFunction(callee, calleeArgs, scope, [...stack, name])
+  })
+  const names = { ...callables, ...scope.names, functions: callables, ...await legacyData(source, scope) }
+  return compile(source, Object.keys(names))(...args.map(readOnly), names)
+}
+
+// Tables and views a body reads the old way, as `tables.orders` (see compat.ts)
+const legacyData = async (source: FunctionSource, scope: CallScope): Promise<Record<string, any>> => {
+  const { tables, views } = legacyDataNames(source.body, source.params)
+  if (tables.length === 0 && views.length === 0) return {}
+  // Missing ones are undefined, as they were
+  const readAll = async (kind: DataKind, names: string[]) => Object.fromEntries(await Promise.all(
+    names.map(async name => [name, await scope.read(kind, name).catch(() => undefined)])
+  ))
+  return {
+    tables: { ...scope.names.tables, ...await readAll('table', tables) },
+    views: { ...scope.names.views, ...await readAll('view', views) }
+  }
+}
+
+// A project function called with its arguments prepared for its parameter types
+const callFunction = async (source: FunctionSource, args: any[], scope: CallScope, stack: string[]): Promise<any> => {
+  if (stack.length > MAX_CALL_DEPTH) {
+    const name = stack[stack.length - 1]
+    const start = stack.lastIndexOf(name, stack.length - 2)
+    throw new Error(start >= 0
+      ? `Function calls nested more than ${MAX_CALL_DEPTH} deep, in the cycle ${stack.slice(start).join(' → ')}`
+      : `Function calls nested more than ${MAX_CALL_DEPTH} deep: ... → ${stack.slice(-4).join(' → ')}`)
+  }
+  const prepared = await Promise.all(source.params.map((_, i) => prepareArgument(source.paramTypes[i], args[i], scope)))
+  return runFunction(source, prepared, scope, stack)
+}
+
+const columnName = (column: any) => typeof column === 'string' ? column : column?.name
+
+/**
+ * A data parameter's argument, given as a table or view name, a table or view,
+ * or rows. Tables and views reach functions as `{ columns, rows }` with column
+ * names, as `tables.get` gives them, however the function was called.
+ */
+const prepareArgument = async (type: string, value: any, scope: CallScope): Promise<any> => {
+  if (!DATA_PARAM_TYPES.has(type)) return value
+  let data = value
+  if (typeof value === 'string') {
+    data = type === 'view'
+      ? await scope.read('view', value)
+      : await scope.read('table', value).catch(() => scope.read('view', value))
+  }
+  if (type === 'rows') return Array.isArray(data) ? data : Array.isArray(data?.rows) ? data.rows : []
+  if (type === 'columns') return Array.isArray(data?.columns) ? data.columns.map(columnName) : []
+  if (!Array.isArray(data?.rows)) return data
+  return { columns: Array.isArray(data.columns) ? data.columns.map(columnName) : [], rows: data.rows }
+}
+
+// Approximate size of a value, as the length of its JSON with maps and sets as
+// arrays. Input data is read-only, so the sizes of shared arguments such as tables are kept
+const sizes = new WeakMap<object, number>()
+
+const sizeOf = (value: any): number => {
+  if (!value || typeof value !== 'object') return value === undefined ? 0 : String(value).length
+  const known = sizes.get(value)
+  if (known !== undefined) return known
+  let size = 0
+  try {
+    size = stringify(value, (_, v) => v instanceof Map || v instanceof Set ? [...v] : v)?.length || 0
+  } catch {
+    // Cyclic and unserializable values count as nothing; structuredClone decides on them
+  }
+  sizes.set(value, size)
+  return size
+}
+
+const formatSize = (size: number) => size >= 1024 * 1024
+  ? `${(size / 1024 / 1024).toFixed(1)} MB`
+  : `${(size / 1024).toFixed(1)} KB`
+
+class LimitError extends Error {
+  constructor(public limit: LimitKind, message: string) {
+    super(message)
+  }
+}
+
+// Asks the main thread for a table or view while a call runs
+export type ReadData = (kind: DataKind, name: string) => Promise<RelationData>
+
+export const runCall = async (call: SandboxCall, functions: FunctionSource[], readData: ReadData): Promise<SandboxOutcome> => {
+  const output: string[] = []
+  let outputSize = 0
+  // Output past the limit is dropped rather than kept until the call ends
+  const console = {
+    log: (...args: any[]) => {
+      if (outputSize > call.maxOutputBytes) return
+      const message = formatLog(args)
+      outputSize += message.length
+      if (outputSize <= call.maxOutputBytes) output.push(message)
+    }
+  }
+
+  let inputSize = 0
+  // Kept so that the call fails even if its body catches the error
+  let overLimit: LimitError | undefined
+  const read = async (kind: DataKind, name: string) => {
+    const data = await readData(kind, String(name))
+    inputSize += sizeOf(data)
+    if (inputSize > call.maxDataBytes) {
+      overLimit = new LimitError('data', `its arguments and the data it read take ${formatSize(inputSize)}, over the ${formatSize(call.maxDataBytes)} limit`)
+      throw overLimit
+    }
+    return readOnly(data)
+  }
+  const scope: CallScope = {
+    names: {
+      ...HELPERS,
+      console,
+      tables: { get: (name: string) => read('table', name) },
+      views: { run: (name: string) => read('view', name) }
+    },
+    functions: new Map(functions.filter(f => !uncallableReason(f.name)).map(f => [f.name, f])),
+    read
+  }
+
+  try {
+    inputSize = call.args.reduce((size, arg) => size + sizeOf(arg), 0)
+    if (inputSize > call.maxDataBytes) {
+      throw new LimitError('data', `its arguments take ${formatSize(inputSize)}, over the ${formatSize(call.maxDataBytes)} limit`)
+    }
+
+    // Measured as copied, so what a result's own methods such as toJSON claim doesn't count
+    const result = clone(toPlain(await callFunction(call, call.args, scope, [call.name])))
+    if (overLimit) throw overLimit
+
+    if (outputSize > call.maxOutputBytes) {
+      throw new LimitError('output', `its console output went over the ${formatSize(call.maxOutputBytes)} limit`)
+    }
+    const resultSize = sizeOf(result)
+    if (outputSize + resultSize > call.maxOutputBytes) {
+      throw new LimitError('output', `its result and console output take ${formatSize(outputSize + resultSize)}, over the ${formatSize(call.maxOutputBytes)} limit`)
+    }
+    if (inputSize + resultSize > call.maxDataBytes) {
+      throw new LimitError('data', `its input and result take ${formatSize(inputSize + resultSize)}, over the ${formatSize(call.maxDataBytes)} limit`)
+    }
+    return { value: result, console: output }
+  } catch (error) {
+    const failure = overLimit || error
+    const message = failure instanceof Error ? failure.message : String(failure)
+    if (failure instanceof LimitError) return { error: message, limit: failure.limit, console: output }
+    return { error: message, console: output }
+  }
+}
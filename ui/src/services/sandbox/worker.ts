@@ -0,0 +1,46 @@
+import { lockDown, runCall } from './runner'
+import { DataKind, DataRequest, DataResponse, RelationData, RunRequest, RunResponse, RunStarted, SandboxOutcome } from './protocol'
+
+// Entry point of the function sandbox worker, started by SecureFunctionEngine.
+// Runs are handled as they arrive, so one can start while another awaits data.
+
+const post = self.postMessage.bind(self)
+const dataRequests = new Map<number, { resolve: (data: RelationData) => void, reject: (error: Error) => void }>()
+let nextRequestId = 1
+
+// The worker's Content-Security-Policy (see vite.config.ts) is what keeps functions,
+// and code they import, off the network. A worker served without it runs nothing
+const isolated = fetch('data:,').then(() => false, () => true)
+const NOT_ISOLATED = 'Functions cannot run: the sandbox was served without the Content-Security-Policy that keeps it off the network'
+
+const readData = (id: number) => (kind: DataKind, name: string) => new Promise<RelationData>((resolve, reject) => {
+  const request: DataRequest = { type: 'data', id, requestId: nextRequestId++, kind, name }
+  dataRequests.set(request.requestId, { resolve, reject })
+  post(request)
+})
+
+lockDown(self, async (event: MessageEvent<RunRequest | DataResponse>) => {
+  const message = event.data
+  if (message.type === 'data') {
+    const request = dataRequests.get(message.requestId)
+    dataRequests.delete(message.requestId)
+    if (message.error !== undefined) {
+      request?.reject(new Error(message.error))
+    } else {
+      request?.resolve(message.value!)
+    }
+    return
+  }
+
+  const { id, calls, functions } = message
+  const outcomes: SandboxOutcome[] = []
+  for (let index = 0; index < calls.length; index++) {
+    const started: RunStarted = { type: 'started', id, index }
+    post(started)
+    outcomes.push(await isolated
+      ? await runCall(calls[index], functions, readData(id))
+      : { error: NOT_ISOLATED, console: [] })
+  }
+  const response: RunResponse = { type: 'done', id, outcomes }
+  post(response)
+})
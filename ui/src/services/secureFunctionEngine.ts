@@ -1,10 +1,120 @@
-import { AppFunction, Table, View } from '../models/types'
+import { AppFunction, FunctionLimits, FunctionParam, Table, View } from '../models/types'
+import { HELPERS } from './sandbox/helpers'
+import { DATA_PARAM_TYPES, DataRequest, DataResponse, FunctionSource, RelationData, RunRequest, RunResponse, RunStarted, SandboxOutcome } from './sandbox/protocol'
+import { FunctionCancelledError, FunctionLimitError, FunctionTimeoutError, resolveLimits } from './sandbox/limits'
 
+export interface FunctionCall {
+  func: AppFunction
+  args: any[]
+}
+
+// Answers `tables.get` and `views.run` inside functions
+export interface FunctionDataSource {
+  getTable(name: string): RelationData
+  runView(name: string, options: { signal?: AbortSignal, depth: number }): Promise<RelationData>
+}
+
+export interface RunOptions {
+  signal?: AbortSignal         // aborting it cancels the run
+  data?: FunctionDataSource    // without one, functions can read tables but not run views
+  depth?: number               // how many `views.run` calls the run is nested in
+}
+
+const functionSource = (func: AppFunction): FunctionSource => ({
+  name: func.name,
+  params: func.params.map(p => p.name),
+  paramTypes: func.params.map(p => p.type),
+  body: func.body
+})
+
+interface PendingRun {
+  request: RunRequest
+  options: RunOptions
+  calls: { name: string, timeoutMs: number }[]
+  startedCalls: number                   // calls the worker has started, in order
+  timer?: ReturnType<typeof setTimeout>  // times the call in progress, or the first one from when the run was sent
+  resolve: (outcomes: SandboxOutcome[]) => void
+  reject: (error: Error) => void
+}
+
+// Arguments of an expression, split at the commas outside strings and brackets
+const splitArguments = (argsStr: string): string[] => {
+  if (!argsStr.trim()) return []
+  const args: string[] = []
+  let depth = 0
+  let quote = ''
+  let start = 0
+  for (let i = 0; i < argsStr.length; i++) {
+    const char = argsStr[i]
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = ''
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if ('([{'.includes(char)) {
+      depth++
+    } else if (')]}'.includes(char)) {
+      depth--
+    } else if (char === ',' && depth === 0) {
+      args.push(argsStr.slice(start, i))
+      start = i + 1
+    }
+  }
+  args.push(argsStr.slice(start))
+  return args.map(arg => arg.trim())
+}
+
+// Calls a helper from an expression, so that helpers run in the sandbox as they do in function bodies
+const helperFunction = (name: string, argCount: number): AppFunction => {
+  const params: FunctionParam[] = Array.from({ length: argCount }, (_, i) => ({ name: `arg${i}`, type: 'any' }))
+  return {
+    id: '',
+    projectId: '',
+    name,
+    params,
+    returnType: 'any',
+    body: `return ${name}(${params.map(p => p.name).join(', ')})`
+  }
+}
+
+/**
+ * Runs user functions, for queries, layouts and function tests alike, in a
+ * dedicated worker (see sandbox/runner.ts). Arguments,
+ * including table and view data, are copied into the worker with each call and
+ * results copied back, so functions never touch the page or the app's data.
+ *
+ * Function bodies are async: while one awaits `tables.get` or `views.run`, the
+ * worker asks this engine for the data and other runs may go ahead. The
+ * project's functions are sent with each run, so functions call each other
+ * inside the worker, under the limits of the call that started it.
+ *
+ * The worker tells when each call starts, and a call still running after its
+ * timeout is stopped by restarting the worker. The first call's time counts
+ * from when the run is sent, so a worker that never gets to it, such as one
+ * kept busy by a timer an earlier function left behind, is restarted as well.
+ * Cancelling a run through its AbortSignal does the same. Runs queued behind a
+ * stopped one are sent again to the new worker.
+ */
 export class SecureFunctionEngine {
   private functions: Map<string, AppFunction> = new Map()
   private tables: Map<string, Table> = new Map()
   private views: Map<string, View> = new Map()
+  private projectLimits: FunctionLimits | undefined
   private consoleOutput: string[] = []
+  private worker: Worker | null = null
+  private runs: Map<number, PendingRun> = new Map()
+  private nextRunId = 1
+
+  private defaultData: FunctionDataSource = {
+    getTable: (name) => {
+      const table = this.tables.get(name)
+      if (!table) throw new Error(`Table "${name}" not found`)
+      return { columns: table.columns.map(c => c.name), rows: table.rows }
+    },
+    runView: async () => {
+      throw new Error('Views can only be run from functions called by a query or layout')
+    }
+  }
 
   setFunctions(functions: AppFunction[]) {
     this.functions.clear()
@@ -21,6 +131,15 @@ export class SecureFunctionEngine {
     views.forEach(v => this.views.set(v.title, v))
   }
 
+  setProjectLimits(limits: FunctionLimits | undefined) {
+    this.projectLimits = limits
+  }
+
+  // The limits a function runs with
+  getLimits(func: AppFunction): Required<FunctionLimits> {
+    return resolveLimits(func.limits, this.projectLimits)
+  }
+
   getConsoleOutput(): string[] {
     return this.consoleOutput
   }
@@ -30,99 +149,216 @@ export class SecureFunctionEngine {
   }
 
   /**
-   * Execute function in a secure sandbox environment
-   * - No access to global window, document, fetch, etc.
+   * Execute function in the sandbox worker
+   * - No access to the page, network, storage or other workers
    * - No eval or Function constructor in user code
-   * - Only allowed helper functions available
-   * - Timeout protection
+   * - Only the helpers in sandbox/helpers.ts are available
+   * - Input data is read-only
+   * - Time, data in and out, and output are limited, see getLimits
+   * - Tables and views are read with `await tables.get(name)` and `await views.run(name)`
    */
-  executeFunction(functionName: string, args: any[]): any {
+  async executeFunction(functionName: string, args: any[], options: RunOptions = {}): Promise<any> {
     const func = this.functions.get(functionName)
     if (!func) {
       throw new Error(`Function ${functionName} not found`)
     }
+    return this.runOne(func, args, options)
+  }
 
-    // Prepare arguments based on parameter types
-    const preparedArgs = this.prepareArguments(func, args)
+  /**
+   * Execute several calls in one message to the worker, so table data shared by
+   * them is copied once. A failing call gives an error outcome; the others still run.
+   * A call that times out or goes over a limit fails the whole run.
+   */
+  async executeCalls(
+    calls: FunctionCall[],
+    tables: Table[],
+    views: View[],
+    functions: AppFunction[],
+    options: RunOptions = {}
+  ): Promise<SandboxOutcome[]> {
+    this.setTables(tables)
+    this.setViews(views)
+    this.setFunctions(functions)
+    return this.run(calls, options)
+  }
 
-    // Create safe context with only allowed functions
-    const safeContext = this.createSafeContext()
+  private async runOne(func: AppFunction, args: any[], options: RunOptions): Promise<any> {
+    const [outcome] = await this.run([{ func, args }], options)
+    if (outcome.error !== undefined) {
+      throw new Error(`Failed to execute function ${func.name}: ${outcome.error}`)
+    }
+    return outcome.value
+  }
 
-    // Build the function code with safety wrapper
-    const safeCode = this.buildSafeFunction(func, safeContext)
+  private async run(calls: FunctionCall[], options: RunOptions): Promise<SandboxOutcome[]> {
+    const { signal } = options
+    if (signal?.aborted) throw new FunctionCancelledError()
 
-    try {
-      // Execute with timeout protection (5 seconds max)
-      return this.executeWithTimeout(safeCode, preparedArgs, safeContext, 5000)
-    } catch (error) {
-      console.error('Function execution error:', error)
-      throw new Error(`Failed to execute function ${functionName}: ${error.message}`)
+    const limits = calls.map(({ func }) => this.getLimits(func))
+    const request: RunRequest = {
+      type: 'run',
+      id: this.nextRunId++,
+      calls: calls.map(({ func, args }, i) => ({
+        ...functionSource(func),
+        args: this.prepareArguments(func, args),
+        maxDataBytes: limits[i].maxDataMb * 1024 * 1024,
+        maxOutputBytes: limits[i].maxOutputKb * 1024
+      })),
+      functions: Array.from(this.functions.values()).map(functionSource)
     }
-  }
 
-  private prepareArguments(func: AppFunction, args: any[]): any[] {
-    return func.params.map((param, index) => {
-      const value = args[index]
-      
-      switch (param.type) {
-        case 'table': {
-          if (typeof value === 'string') {
-            const table = this.tables.get(value)
-            // Return read-only copy
-            return table ? this.createReadOnlyProxy(table) : null
-          }
-          return this.createReadOnlyProxy(value)
-        }
-        case 'view': {
-          if (typeof value === 'string') {
-            const view = this.views.get(value)
-            return view ? this.createReadOnlyProxy(view) : null
-          }
-          return this.createReadOnlyProxy(value)
-        }
-        case 'rows': {
-          if (value && typeof value === 'object') {
-            if ('rows' in value) return this.createReadOnlyProxy(value.rows)
-            if (Array.isArray(value)) return this.createReadOnlyProxy(value)
-          }
-          return []
-        }
-        case 'columns': {
-          if (value && typeof value === 'object' && 'columns' in value) {
-            return this.createReadOnlyProxy(value.columns)
-          }
-          return []
+    const outcomes = await new Promise<SandboxOutcome[]>((resolve, reject) => {
+      const cancel = () => this.stopRun(request.id, new FunctionCancelledError())
+      const run: PendingRun = {
+        request,
+        options,
+        calls: calls.map(({ func }, i) => ({ name: func.name, timeoutMs: limits[i].timeoutMs })),
+        startedCalls: 0,
+        resolve: outcomes => {
+          signal?.removeEventListener('abort', cancel)
+          resolve(outcomes)
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', cancel)
+          reject(error)
         }
-        default:
-          // Sanitize primitive values
-          return this.sanitizeValue(value)
+      }
+      this.runs.set(request.id, run)
+      signal?.addEventListener('abort', cancel)
+      try {
+        this.send(run)
+      } catch (error) {
+        // Arguments that can't be copied, such as functions inside objects
+        this.runs.delete(request.id)
+        run.reject(new Error(`Arguments can't be passed to the function: ${(error as Error).message}`))
       }
     })
+
+    outcomes.forEach(outcome => outcome.console.forEach(message => this.consoleOutput.push(message)))
+
+    const exceeded = outcomes.findIndex(outcome => outcome.limit)
+    if (exceeded >= 0) {
+      const { limit, error } = outcomes[exceeded]
+      throw new FunctionLimitError(calls[exceeded].func.name, limit!, error!)
+    }
+    return outcomes
   }
 
-  private createReadOnlyProxy(obj: any): any {
-    if (!obj || typeof obj !== 'object') return obj
-    
-    return new Proxy(obj, {
-      set: () => {
-        throw new Error('Cannot modify input data')
-      },
-      deleteProperty: () => {
-        throw new Error('Cannot delete from input data')
-      },
-      defineProperty: () => {
-        throw new Error('Cannot define properties on input data')
-      },
-      get: (target, prop) => {
-        const value = target[prop]
-        if (typeof value === 'object' && value !== null) {
-          return this.createReadOnlyProxy(value)
-        }
-        return value
+  private getWorker(): Worker {
+    if (this.worker) return this.worker
+    if (typeof Worker === 'undefined') {
+      throw new Error('Functions need Web Worker support, which this environment lacks')
+    }
+
+    const worker = new Worker(new URL('./sandbox/worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<RunStarted | RunResponse | DataRequest>) => {
+      const message = event.data
+      const run = this.runs.get(message.id)
+      if (!run) return
+      if (message.type === 'data') {
+        this.answerData(worker, run, message)
+        return
       }
+      // Only the run's next call can start, and only a run whose calls all started
+      // can be done, so the timer of the call in progress is never dropped early.
+      // The first call's timer already runs from when the run was sent
+      if (message.type === 'started') {
+        if (message.index !== run.startedCalls) return
+        run.startedCalls++
+        if (message.index > 0) this.startTimer(run, message.index)
+        return
+      }
+      if (run.startedCalls !== run.calls.length || message.outcomes?.length !== run.calls.length) return
+      clearTimeout(run.timer)
+      this.runs.delete(message.id)
+      run.resolve(message.outcomes)
+    }
+    // Errors inside functions are reported per call, so this is the sandbox itself failing
+    worker.onerror = (event) => {
+      event.preventDefault()
+      this.stopWorker(`The function sandbox stopped: ${event.message || 'it failed to start'}`)
+    }
+    this.worker = worker
+    return worker
+  }
+
+  // Post a run to the worker and time its first call from now
+  private send(run: PendingRun) {
+    this.getWorker().postMessage(run.request)
+    this.startTimer(run, 0)
+  }
+
+  private startTimer(run: PendingRun, index: number) {
+    clearTimeout(run.timer)
+    if (index >= run.calls.length) return
+    const { name, timeoutMs } = run.calls[index]
+    run.timer = setTimeout(() => this.stopRun(run.request.id, new FunctionTimeoutError(name, timeoutMs)), timeoutMs)
+  }
+
+  // Fail every call in progress; the next call starts a new worker
+  private stopWorker(reason: string) {
+    this.worker?.terminate()
+    this.worker = null
+    const runs = Array.from(this.runs.values())
+    this.runs.clear()
+    runs.forEach(run => {
+      clearTimeout(run.timer)
+      run.reject(new Error(reason))
     })
   }
 
+  // Fail one run by restarting the worker. Runs waiting behind it are sent to the
+  // new worker; runs that had started, and may be awaiting data, fail with it
+  private stopRun(id: number, error: Error) {
+    const stopped = this.runs.get(id)
+    if (!stopped) return
+    this.runs.delete(id)
+    clearTimeout(stopped.timer)
+    stopped.reject(error)
+
+    this.worker?.terminate()
+    this.worker = null
+    for (const [otherId, run] of Array.from(this.runs)) {
+      clearTimeout(run.timer)
+      if (run.startedCalls > 0) {
+        this.runs.delete(otherId)
+        run.reject(new Error(`Stopped along with another function run: ${error.message}`))
+      } else {
+        this.send(run)
+      }
+    }
+  }
+
+  // Answer `tables.get` or `views.run` from a running function
+  private async answerData(worker: Worker, run: PendingRun, request: DataRequest) {
+    const response: DataResponse = { type: 'data', requestId: request.requestId }
+    try {
+      const { data = this.defaultData, signal, depth = 0 } = run.options
+      response.value = request.kind === 'table'
+        ? data.getTable(request.name)
+        : await data.runView(request.name, { signal, depth: depth + 1 })
+    } catch (error) {
+      response.error = error instanceof Error ? error.message : String(error)
+    }
+
+    // A restarted worker no longer waits for the answer
+    if (this.worker !== worker) return
+    try {
+      worker.postMessage(response)
+    } catch (error) {
+      worker.postMessage({ type: 'data', requestId: request.requestId, error: `${request.kind} "${request.name}" can't be passed to the function` })
+    }
+  }
+
+  // Data arguments, given by name or as data, are prepared in the worker (see
+  // prepareArgument in sandbox/runner.ts), so that every caller passes them alike
+  private prepareArguments(func: AppFunction, args: any[]): any[] {
+    return func.params.map((param, index) => DATA_PARAM_TYPES.has(param.type)
+      ? args[index]
+      : this.sanitizeValue(args[index]))
+  }
+
   private sanitizeValue(value: any): any {
     // Remove any function properties from objects
     if (typeof value === 'function') {
@@ -143,283 +379,82 @@ export class SecureFunctionEngine {
     return value
   }
 
-  private createSafeContext() {
-    const self = this
-    return {
-      // Console for debugging
-      console: {
-        log: (...args: any[]) => {
-          const message = args.map(arg => {
-            if (typeof arg === 'object') {
-              try {
-                return JSON.stringify(arg, null, 2)
-              } catch {
-                return String(arg)
-              }
-            }
-            return String(arg)
-          }).join(' ')
-          self.consoleOutput.push(message)
-          console.log('[Function]', message)
-        }
-      },
-      
-      // Math functions (safe)
-      Math: {
-        abs: Math.abs,
-        ceil: Math.ceil,
-        floor: Math.floor,
-        round: Math.round,
-        max: Math.max,
-        min: Math.min,
-        pow: Math.pow,
-        sqrt: Math.sqrt,
-        random: Math.random,
-        sin: Math.sin,
-        cos: Math.cos,
-        tan: Math.tan,
-        PI: Math.PI,
-        E: Math.E
-      },
-      
-      // Array helper functions
-      sum: (arr: any[], field?: string) => {
-        if (!Array.isArray(arr)) return 0
-        if (field) {
-          return arr.reduce((acc, item) => acc + (Number(item[field]) || 0), 0)
-        }
-        return arr.reduce((acc, val) => acc + (Number(val) || 0), 0)
-      },
-      
-      avg: (arr: any[], field?: string) => {
-        if (!Array.isArray(arr) || arr.length === 0) return 0
-        const sum = arr.reduce((acc, item) => {
-          const val = field ? item[field] : item
-          return acc + (Number(val) || 0)
-        }, 0)
-        return sum / arr.length
-      },
-      
-      count: (arr: any[]) => Array.isArray(arr) ? arr.length : 0,
-      
-      filter: (arr: any[], condition: (item: any) => boolean) => {
-        if (!Array.isArray(arr)) return []
-        if (typeof condition !== 'function') return arr
-        return arr.filter(condition)
-      },
-      
-      map: (arr: any[], transform: (item: any) => any) => {
-        if (!Array.isArray(arr)) return []
-        if (typeof transform !== 'function') return arr
-        return arr.map(transform)
-      },
-      
-      groupBy: (arr: any[], field: string) => {
-        if (!Array.isArray(arr)) return {}
-        return arr.reduce((groups, item) => {
-          const key = item[field]
-          if (!groups[key]) groups[key] = []
-          groups[key].push(item)
-          return groups
-        }, {} as Record<string, any[]>)
-      },
-      
-      unique: (arr: any[], field?: string) => {
-        if (!Array.isArray(arr)) return []
-        if (field) {
-          const seen = new Set()
-          return arr.filter(item => {
-            const val = item[field]
-            if (seen.has(val)) return false
-            seen.add(val)
-            return true
-          })
-        }
-        return Array.from(new Set(arr))
-      },
-      
-      sortBy: (arr: any[], field: string, desc = false) => {
-        if (!Array.isArray(arr)) return []
-        return [...arr].sort((a, b) => {
-          const aVal = a[field]
-          const bVal = b[field]
-          if (aVal < bVal) return desc ? 1 : -1
-          if (aVal > bVal) return desc ? -1 : 1
-          return 0
-        })
-      },
-
-      // String functions
-      String: {
-        toLowerCase: (s: any) => String(s).toLowerCase(),
-        toUpperCase: (s: any) => String(s).toUpperCase(),
-        trim: (s: any) => String(s).trim(),
-        split: (s: any, sep: string) => String(s).split(sep),
-        includes: (s: any, search: string) => String(s).includes(search),
-        startsWith: (s: any, search: string) => String(s).startsWith(search),
-        endsWith: (s: any, search: string) => String(s).endsWith(search),
-        replace: (s: any, search: string | RegExp, replace: string) => String(s).replace(search, replace)
-      },
-
-      // JSON functions
-      JSON: {
-        parse: (s: string) => {
-          try {
-            return JSON.parse(s)
-          } catch {
-            return null
-          }
-        },
-        stringify: (obj: any) => JSON.stringify(obj)
-      },
-
-      // Type checking
-      isNumber: (val: any) => typeof val === 'number' && !isNaN(val),
-      isString: (val: any) => typeof val === 'string',
-      isBoolean: (val: any) => typeof val === 'boolean',
-      isArray: Array.isArray,
-      isObject: (val: any) => val !== null && typeof val === 'object' && !Array.isArray(val),
-      isNull: (val: any) => val === null,
-      isUndefined: (val: any) => val === undefined
-    }
-  }
-
-  private buildSafeFunction(func: AppFunction, context: any): Function {
-    const paramNames = func.params.map(p => p.name)
-    const contextKeys = Object.keys(context)
-    
-    // Check if the body already has a return statement
-    const hasReturn = /\breturn\b/.test(func.body)
-    const functionBody = hasReturn ? func.body : `return ${func.body}`
-    
-    // Build function with isolated scope
-    const functionCode = `
-      'use strict';
-      return (function(${paramNames.join(', ')}) {
-        // Import safe functions into scope
-        ${contextKeys.map(key => `const ${key} = arguments[${paramNames.length}]['${key}'];`).join('\n')}
-        
-        // User code
-        ${functionBody}
-      })
-    `
-
-    console.log('Generated function code:', functionCode)
-    
-    // Use Function constructor (this is safe as we control the code)
-    return new Function(functionCode)()
-  }
-
-  private executeWithTimeout(fn: Function, args: any[], context: any, timeout: number): any {
-    // For simple synchronous functions, just execute directly
-    // We'll add timeout protection later if needed
-    try {
-      const result = fn(...args, context)
-      return result
-    } catch (error) {
-      throw error
-    }
-  }
-
   /**
-   * Evaluate expressions containing function calls (for use in Tables/Views/Layouts)
-   * Example: "=sum(TableA.rows, 'amount')" or "=myFunc(param1, param2)"
+   * Evaluate an expression, the text of a layout's text element: one starting
+   * with `=` calls a helper or project function, as in `=sum(orders.rows, 'amount')`
+   * or `=tax(100, 10)`; any other text is returned as it is. Arguments are
+   * numbers, quoted strings, true, false, null, JSON arrays and objects, or a
+   * table or view by name, optionally followed by `.rows` or `.columns`.
    */
-  async evaluateExpression(expression: string): Promise<any> {
+  async evaluateExpression(expression: string, options: RunOptions = {}): Promise<any> {
     if (!expression.startsWith('=')) {
       return expression // Not a formula
     }
 
-    const formula = expression.substring(1).trim()
-    
-    // Simple function call parser (can be enhanced)
-    const funcCallMatch = formula.match(/^(\w+)\((.*)\)$/)
-    
+    const funcCallMatch = expression.substring(1).trim().match(/^(\w+)\(([\s\S]*)\)$/)
     if (!funcCallMatch) {
       throw new Error('Invalid function expression')
     }
 
     const [, funcName, argsStr] = funcCallMatch
-    
-    // Check if it's a built-in function
-    const builtins = this.createSafeContext()
-    if (funcName in builtins) {
-      // Parse arguments for built-in function
-      try {
-        // Simple argument parsing (needs improvement for complex cases)
-        const args = this.parseArguments(argsStr)
-        return builtins[funcName](...args)
-      } catch (error) {
-        throw new Error(`Failed to execute built-in ${funcName}: ${error.message}`)
-      }
+    const args = await Promise.all(splitArguments(argsStr).map(arg => this.parseArgument(arg, options)))
+
+    // Helpers come before project functions of the same name, as inside function bodies
+    if (Object.prototype.hasOwnProperty.call(HELPERS, funcName)) {
+      return this.runOne(helperFunction(funcName, args.length), args, options)
     }
+    const func = this.functions.get(funcName)
+    if (!func) {
+      throw new Error(`Unknown function: ${funcName}`)
+    }
+    return this.runOne(func, args, options)
+  }
 
-    // Check if it's a user-defined function
-    if (this.functions.has(funcName)) {
-      const args = this.parseArguments(argsStr)
-      return await this.executeFunction(funcName, args)
+  private async parseArgument(arg: string, options: RunOptions): Promise<any> {
+    // String literal
+    if (/^(['"])[\s\S]*\1$/.test(arg)) {
+      return arg.slice(1, -1)
     }
 
-    throw new Error(`Unknown function: ${funcName}`)
-  }
+    // Number, boolean, null, array or object
+    try {
+      return JSON.parse(arg)
+    } catch {
+      // Not JSON
+    }
 
-  private parseArguments(argsStr: string): any[] {
-    if (!argsStr.trim()) return []
-    
-    // Simple CSV parsing (needs enhancement for nested structures)
-    return argsStr.split(',').map(arg => {
-      arg = arg.trim()
-      
-      // String literal
-      if ((arg.startsWith('"') && arg.endsWith('"')) || 
-          (arg.startsWith("'") && arg.endsWith("'"))) {
-        return arg.slice(1, -1)
-      }
-      
-      // Number
-      if (!isNaN(Number(arg))) {
-        return Number(arg)
-      }
-      
-      // Boolean
-      if (arg === 'true') return true
-      if (arg === 'false') return false
-      
-      // Null
-      if (arg === 'null') return null
-      
-      // Table/View reference
-      if (this.tables.has(arg)) return arg
-      if (this.views.has(arg)) return arg
-      
-      // Property access (e.g., TableA.rows)
-      if (arg.includes('.')) {
-        const [objName, ...props] = arg.split('.')
-        if (this.tables.has(objName)) {
-          let obj: any = this.tables.get(objName)
-          for (const prop of props) {
-            obj = obj?.[prop]
-          }
-          return obj
-        }
-      }
-      
-      return arg
-    })
+    // A table or view by name is looked up by the function for its data parameters;
+    // `.rows` and `.columns` take them from the table or view's data
+    const reference = arg.match(/^([\w ]+?)\.(rows|columns)$/)
+    if (reference && (this.tables.has(reference[1]) || this.views.has(reference[1]))) {
+      const [, name, property] = reference
+      const { data = this.defaultData, signal, depth = 0 } = options
+      const relation = this.tables.has(name) ? data.getTable(name) : await data.runView(name, { signal, depth: depth + 1 })
+      return relation[property as 'rows' | 'columns']
+    }
+    return arg
   }
 
   /**
    * Execute a function directly (for use in queries)
    */
-  execute(func: AppFunction, args: any[], tables: Table[], views: View[], functions: AppFunction[]): any {
+  async execute(
+    func: AppFunction,
+    args: any[],
+    tables: Table[],
+    views: View[],
+    functions: AppFunction[],
+    options: RunOptions = {}
+  ): Promise<any> {
     // Update internal state
     this.setTables(tables)
     this.setViews(views)
     this.setFunctions(functions)
     
-    // Execute the function
-    return this.executeFunction(func.name, args)
+    // Execute the function as given, which may have unsaved edits
+    return this.runOne(func, args, options)
   }
 }
 
-export const secureFunctionEngine = new SecureFunctionEngine()
\ No newline at end of file
+export const secureFunctionEngine = new SecureFunctionEngine()
+
@@ -0,0 +1,291 @@
+import { ProjectData, Snapshot, SnapshotChange, SnapshotChunk, Table } from '../models/types'
+import { db } from './database'
+import { KINDS, projectRepository } from './projectRepository'
+import { CHUNK_SIZE } from './rowStorage'
+
+const AUTO_INTERVAL = 10 * 60 * 1000  // at most one automatic snapshot per project this often
+const MAX_AUTOMATIC = 50              // older automatic snapshots are deleted; named ones are kept
+
+export interface RowDiff {
+  key: string
+  type: 'added' | 'removed' | 'changed'
+  before?: Record<string, any>
+  after?: Record<string, any>
+  columns: string[]  // changed columns, for changed rows
+}
+
+export interface TableDiff {
+  keyColumns: string[]  // empty when the table has no primary key and rows are matched by content
+  addedColumns: string[]
+  removedColumns: string[]
+  rows: RowDiff[]
+}
+
+const entityTitle = (entity: any): string => entity.title || entity.name || entity.id
+
+/**
+ * Entities added, modified or removed between two versions of a project.
+ */
+export const compareProjects = (before: ProjectData | null, after: ProjectData): SnapshotChange[] => {
+  const changes: SnapshotChange[] = []
+  for (const kind of KINDS) {
+    const previous = new Map<string, any>((before?.[kind] || []).map((e: { id: string }) => [e.id, e] as const))
+    for (const entity of after[kind]) {
+      const old = previous.get(entity.id)
+      previous.delete(entity.id)
+      if (!old) {
+        changes.push({ kind, id: entity.id, title: entityTitle(entity), type: 'added' })
+      } else if (JSON.stringify(old) !== JSON.stringify(entity)) {
+        changes.push({ kind, id: entity.id, title: entityTitle(entity), type: 'modified' })
+      }
+    }
+    for (const entity of previous.values()) {
+      changes.push({ kind, id: entity.id, title: entityTitle(entity), type: 'removed' })
+    }
+  }
+  return changes
+}
+
+/**
+ * Row-level differences between two versions of a table, matching rows by
+ * primary key. Without a primary key rows are matched by their whole content,
+ * so an edited row shows up as removed and added.
+ */
+export const diffTables = (before: Table | undefined, after: Table | undefined): TableDiff => {
+  const keyColumns = (after || before)?.primaryKey || []
+  const beforeColumns = before?.columns.map(c => c.name) || []
+  const afterColumns = after?.columns.map(c => c.name) || []
+  const columns = [...new Set([...beforeColumns, ...afterColumns])]
+
+  // Duplicate keys get a counter so every row is matched to at most one other
+  const keyed = (table: Table | undefined) => {
+    const rows = new Map<string, Record<string, any>>()
+    for (const row of table?.rows || []) {
+      const base = keyColumns.length > 0
+        ? JSON.stringify(keyColumns.map(c => row[c] ?? null))
+        : JSON.stringify(columns.map(c => row[c] ?? null))
+      let key = base
+      for (let n = 2; rows.has(key); n++) key = `${base}#${n}`
+      rows.set(key, row)
+    }
+    return rows
+  }
+
+  const beforeRows = keyed(before)
+  const afterRows = keyed(after)
+  const rows: RowDiff[] = []
+
+  for (const [key, row] of afterRows) {
+    const old = beforeRows.get(key)
+    if (!old) {
+      rows.push({ key, type: 'added', after: row, columns: [] })
+      continue
+    }
+    const changed = columns.filter(c => JSON.stringify(old[c] ?? null) !== JSON.stringify(row[c] ?? null))
+    if (changed.length > 0) {
+      rows.push({ key, type: 'changed', before: old, after: row, columns: changed })
+    }
+  }
+  for (const [key, row] of beforeRows) {
+    if (!afterRows.has(key)) rows.push({ key, type: 'removed', before: row, columns: [] })
+  }
+
+  return {
+    keyColumns,
+    addedColumns: afterColumns.filter(c => !beforeColumns.includes(c)),
+    removedColumns: beforeColumns.filter(c => !afterColumns.includes(c)),
+    rows
+  }
+}
+
+// Stands in for a table's rows when comparing packed projects, so rows are compared by their chunk ids
+const withChunkIds = (data: ProjectData, rowChunks: Record<string, string[]>): ProjectData => ({
+  ...data,
+  tables: data.tables.map(table => ({ ...table, rows: (rowChunks[table.id] || []).map(chunk => ({ chunk })) }))
+})
+
+const hashRows = async (rows: Record<string, any>[]): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(rows)))
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Named and automatic copies of projects, kept in IndexedDB so earlier
+ * versions can be inspected and restored after a reload.
+ *
+ * A snapshot holds the project without its rows. Rows are stored in chunks
+ * of CHUNK_SIZE named by a hash of their content, so a chunk that is the same
+ * in many snapshots is stored once, and a snapshot after an edit only adds
+ * the chunks the edit touched. Snapshots taken before this have their rows
+ * inline and are read as they are.
+ */
+class SnapshotService {
+  private lastAutomatic = new Map<string, number>()  // projectId → time of the last automatic snapshot
+  private snapshotted = new Map<string, number>()    // projectId → its updatedAt when last snapshotted
+  private queue: Promise<void> = Promise.resolve()
+
+  async list(projectId: string): Promise<Snapshot[]> {
+    const snapshots = await db.getSnapshotsByProject(projectId)
+    return snapshots.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  }
+
+  /**
+   * Snapshot the project as stored. Pending autosave changes should be flushed
+   * first. Returns null when an automatic snapshot would be identical to the
+   * previous one.
+   */
+  async create(projectId: string, options: { name?: string, automatic?: boolean } = {}): Promise<Snapshot | null> {
+    return this.store(projectId, projectRepository.loadChangedProjectData(projectId), options)
+  }
+
+  /**
+   * Take an automatic snapshot unless one was taken recently. Autosave calls
+   * this before writing, and the project is read before that write is queued,
+   * so the snapshot holds the state from before the edit. A project not written
+   * since the last snapshot isn't read at all.
+   */
+  autoSnapshot(projectId: string) {
+    const last = this.lastAutomatic.get(projectId) || 0
+    if (Date.now() - last < AUTO_INTERVAL) return
+    this.lastAutomatic.set(projectId, Date.now())
+
+    const loading = projectRepository.loadChangedProjectData(projectId, this.snapshotted.get(projectId))
+    this.store(projectId, loading, { automatic: true })
+      .catch(error => console.error('Failed to take automatic snapshot:', error))
+  }
+
+  // A table as it was in a snapshot, with its rows
+  async loadTable(snapshot: Snapshot, tableId: string): Promise<Table | undefined> {
+    const table = snapshot.data.tables.find(t => t.id === tableId)
+    if (!table || !snapshot.rowChunks) return table
+
+    const chunks = await Promise.all((snapshot.rowChunks[table.id] || []).map(id => db.getSnapshotChunk(id)))
+    if (chunks.some(chunk => !chunk)) {
+      throw new Error(`The rows of table "${table.title}" are missing from this snapshot`)
+    }
+    return { ...table, rows: chunks.flatMap(chunk => chunk!.rows) }
+  }
+
+  // The whole project as it was in a snapshot, with the rows of every table
+  async loadData(snapshot: Snapshot): Promise<ProjectData> {
+    if (!snapshot.rowChunks) return snapshot.data
+    const tables = await Promise.all(snapshot.data.tables.map(table => this.loadTable(snapshot, table.id)))
+    return { ...snapshot.data, tables: tables as Table[] }
+  }
+
+  remove(snapshot: Snapshot): Promise<void> {
+    return this.enqueue(async () => {
+      await db.deleteSnapshot(snapshot.id)
+      await this.collect(snapshot.projectId)
+    })
+  }
+
+  // Free space by deleting the automatic snapshots of a project; named ones are kept
+  removeAutomatic(projectId: string): Promise<void> {
+    return this.enqueue(async () => {
+      for (const snapshot of await this.list(projectId)) {
+        if (snapshot.automatic) await db.deleteSnapshot(snapshot.id)
+      }
+      await this.collect(projectId)
+    })
+  }
+
+  private store(
+    projectId: string,
+    loading: Promise<{ data: ProjectData, updatedAt?: number } | null>,
+    options: { name?: string, automatic?: boolean }
+  ): Promise<Snapshot | null> {
+    return this.enqueue(async () => {
+      const loaded = await loading
+      if (!loaded) return null
+      const snapshot = await this.storeData(projectId, loaded.data, options)
+      if (loaded.updatedAt !== undefined) this.snapshotted.set(projectId, loaded.updatedAt)
+      return snapshot
+    })
+  }
+
+  private async storeData(
+    projectId: string,
+    data: ProjectData,
+    options: { name?: string, automatic?: boolean }
+  ): Promise<Snapshot | null> {
+    const packed = await this.pack(projectId, data)
+    const existing = await this.list(projectId)
+    const previous = existing[0]
+    const changes = compareProjects(
+      previous ? withChunkIds(...await this.comparable(previous)) : null,
+      withChunkIds(packed.data, packed.rowChunks)
+    )
+    if (options.automatic && existing.length > 0 && changes.length === 0) return null
+
+    // Only the chunks no other snapshot has
+    const stored = new Set(await db.getSnapshotChunkIds(projectId))
+    for (const chunk of packed.chunks) {
+      if (stored.has(chunk.id)) continue
+      await db.saveSnapshotChunk(chunk)
+      stored.add(chunk.id)
+    }
+
+    // Snapshots of every project share one store, and two may be taken in the same millisecond
+    const createdAt = new Date()
+    const snapshot: Snapshot = {
+      id: `snapshot_${projectId}_${createdAt.getTime()}_${Math.random().toString(36).slice(2, 10)}`,
+      projectId,
+      name: options.name,
+      automatic: !!options.automatic,
+      createdAt,
+      data: packed.data,
+      rowChunks: packed.rowChunks,
+      changes
+    }
+    await db.saveSnapshot(snapshot)
+
+    // Keep the newest automatic snapshots
+    const automatic = [snapshot, ...existing].filter(s => s.automatic)
+    for (const old of automatic.slice(MAX_AUTOMATIC)) {
+      await db.deleteSnapshot(old.id)
+    }
+    if (automatic.length > MAX_AUTOMATIC) await this.collect(projectId)
+    return snapshot
+  }
+
+  // Split the rows of every table into chunks named by their content
+  private async pack(projectId: string, data: ProjectData) {
+    const rowChunks: Record<string, string[]> = {}
+    const chunks: SnapshotChunk[] = []
+    for (const table of data.tables) {
+      rowChunks[table.id] = []
+      for (let start = 0; start < table.rows.length; start += CHUNK_SIZE) {
+        const rows = table.rows.slice(start, start + CHUNK_SIZE)
+        const id = `${projectId}:${await hashRows(rows)}`
+        rowChunks[table.id].push(id)
+        chunks.push({ id, projectId, rows })
+      }
+    }
+    return { data: { ...data, tables: data.tables.map(table => ({ ...table, rows: [] })) }, rowChunks, chunks }
+  }
+
+  // A snapshot's data and chunk ids, hashing the rows of a snapshot that has them inline
+  private async comparable(snapshot: Snapshot): Promise<[ProjectData, Record<string, string[]>]> {
+    if (snapshot.rowChunks) return [snapshot.data, snapshot.rowChunks]
+    const packed = await this.pack(snapshot.projectId, snapshot.data)
+    return [packed.data, packed.rowChunks]
+  }
+
+  // Delete the chunks of a project that no snapshot uses any more
+  private async collect(projectId: string): Promise<void> {
+    const used = new Set((await this.list(projectId)).flatMap(s => Object.values(s.rowChunks || {}).flat()))
+    for (const id of await db.getSnapshotChunkIds(projectId)) {
+      if (!used.has(id)) await db.deleteSnapshotChunk(id)
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task)
+    // A failed task must not block the ones after it
+    this.queue = result.then(() => undefined, () => undefined)
+    return result
+  }
+}
+
+export const snapshots = new SnapshotService()
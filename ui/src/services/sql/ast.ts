@@ -0,0 +1,351 @@
+export interface Position {
+  line: number    // 1-based
+  column: number  // 1-based
+  offset: number  // 0-based index into the query text
+}
+
+export type LiteralValue = string | number | boolean | null
+
+export interface Literal {
+  kind: 'literal'
+  value: LiteralValue
+  position: Position
+}
+
+export interface ColumnRef {
+  kind: 'column'
+  table?: string  // qualifier as written, e.g. "orders" in orders.id
+  name: string
+  position: Position
+}
+
+export interface Star {
+  kind: 'star'
+  table?: string  // qualifier for t.* in the select list
+  position: Position
+}
+
+export type ComparisonOperator = '=' | '!=' | '<>' | '<' | '>' | '<=' | '>='
+
+export type ArithmeticOperator = '+' | '-' | '*' | '/' | '%'
+
+export type BinaryOperator = 'AND' | 'OR' | ComparisonOperator | ArithmeticOperator | '||'
+
+export interface BinaryExpression {
+  kind: 'binary'
+  operator: BinaryOperator
+  left: Expression
+  right: Expression
+  position: Position
+}
+
+export interface UnaryExpression {
+  kind: 'unary'
+  operator: 'NOT' | '-'
+  operand: Expression
+  position: Position
+}
+
+export interface LikeExpression {
+  kind: 'like'
+  expression: Expression
+  pattern: Expression
+  escape?: string
+  negated: boolean
+  position: Position
+}
+
+export interface InExpression {
+  kind: 'in'
+  expression: Expression
+  values: Expression[]         // empty when the list is a subquery
+  subquery?: SelectStatement  // IN (SELECT ...)
+  negated: boolean
+  position: Position
+}
+
+export interface BetweenExpression {
+  kind: 'between'
+  expression: Expression
+  low: Expression
+  high: Expression
+  negated: boolean
+  position: Position
+}
+
+export interface IsNullExpression {
+  kind: 'isNull'
+  expression: Expression
+  negated: boolean
+  position: Position
+}
+
+export interface FunctionCall {
+  kind: 'call'
+  name: string        // upper-cased for built-ins, as written for FN.* calls
+  namespace?: 'FN'    // set for user functions called as FN.name(...)
+  args: Expression[]
+  distinct?: boolean  // COUNT(DISTINCT x) and friends
+  over?: WindowSpec   // set for window function calls
+  position: Position
+}
+
+export interface FrameBound {
+  type: 'UNBOUNDED PRECEDING' | 'PRECEDING' | 'CURRENT ROW' | 'FOLLOWING' | 'UNBOUNDED FOLLOWING'
+  offset?: number  // number of rows for PRECEDING and FOLLOWING
+}
+
+export interface WindowFrame {
+  units: 'ROWS' | 'RANGE'  // RANGE treats rows with equal ORDER BY values as one
+  start: FrameBound
+  end: FrameBound
+}
+
+// OVER ( [PARTITION BY ...] [ORDER BY ...] [frame] )
+export interface WindowSpec {
+  partitionBy: Expression[]
+  orderBy: OrderItem[]
+  frame?: WindowFrame  // default: the whole partition, or up to the current row's peers with ORDER BY
+}
+
+export interface CaseExpression {
+  kind: 'case'
+  operand?: Expression  // CASE operand WHEN value ... form
+  branches: { when: Expression, then: Expression }[]
+  otherwise?: Expression
+  position: Position
+}
+
+export interface CastExpression {
+  kind: 'cast'
+  expression: Expression
+  type: string
+  position: Position
+}
+
+// A parenthesized SELECT used as a value; it must return one column and at most one row
+export interface SubqueryExpression {
+  kind: 'subquery'
+  query: SelectStatement
+  position: Position
+}
+
+export interface ExistsExpression {
+  kind: 'exists'
+  query: SelectStatement
+  position: Position
+}
+
+export type Expression =
+  | Literal
+  | ColumnRef
+  | Star
+  | BinaryExpression
+  | UnaryExpression
+  | LikeExpression
+  | InExpression
+  | BetweenExpression
+  | IsNullExpression
+  | CaseExpression
+  | CastExpression
+  | SubqueryExpression
+  | ExistsExpression
+  | FunctionCall
+
+export interface SelectItem {
+  expression: Expression
+  alias?: string
+  text: string  // source text of the expression, used as the default column label
+}
+
+export interface TableRef {
+  name: string
+  alias?: string
+  position: Position
+}
+
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS'
+
+export interface Join {
+  type: JoinType
+  table: TableRef
+  on?: Expression  // absent for CROSS JOIN
+  position: Position
+}
+
+export interface OrderItem {
+  expression: Expression  // a bare alias or a 1-based number refers to a select-list item
+  direction: 'ASC' | 'DESC'
+  nulls?: 'FIRST' | 'LAST'  // default: NULLs sort as the smallest value
+}
+
+// WITH name [(column, ...)] AS (SELECT ...), visible to the rest of its statement
+export interface CommonTableExpression {
+  name: string
+  columns?: string[]
+  query: SelectStatement
+  position: Position
+}
+
+export interface SelectStatement {
+  kind: 'select'
+  with: CommonTableExpression[]
+  distinct: boolean
+  columns: SelectItem[]  // Star items stand for * and t.*
+  from: TableRef
+  joins: Join[]
+  where?: Expression
+  groupBy: Expression[]
+  having?: Expression
+  orderBy: OrderItem[]
+  limit?: number
+  offset?: number
+  explain?: boolean  // EXPLAIN SELECT ...: return how the query reads its tables instead of its rows
+  position: Position
+}
+
+/**
+ * Direct sub-expressions of a node, for walkers that don't care about node specifics.
+ * Subqueries are separate scopes and are not descended into.
+ */
+export const childExpressions = (expression: Expression): Expression[] => {
+  switch (expression.kind) {
+    case 'binary':
+      return [expression.left, expression.right]
+    case 'unary':
+      return [expression.operand]
+    case 'like':
+      return [expression.expression, expression.pattern]
+    case 'in':
+      return [expression.expression, ...expression.values]
+    case 'between':
+      return [expression.expression, expression.low, expression.high]
+    case 'isNull':
+      return [expression.expression]
+    case 'case': {
+      const children = expression.operand ? [expression.operand] : []
+      expression.branches.forEach(branch => children.push(branch.when, branch.then))
+      if (expression.otherwise) children.push(expression.otherwise)
+      return children
+    }
+    case 'cast':
+      return [expression.expression]
+    case 'call':
+      if (!expression.over) return expression.args
+      return [
+        ...expression.args,
+        ...expression.over.partitionBy,
+        ...expression.over.orderBy.map(item => item.expression)
+      ]
+    default:
+      return []
+  }
+}
+
+// Every expression that appears directly in a statement's clauses
+const statementExpressions = (statement: SelectStatement): Expression[] => [
+  ...statement.columns.map(item => item.expression),
+  ...statement.joins.flatMap(join => (join.on ? [join.on] : [])),
+  ...(statement.where ? [statement.where] : []),
+  ...statement.groupBy,
+  ...(statement.having ? [statement.having] : []),
+  ...statement.orderBy.map(item => item.expression)
+]
+
+/**
+ * Subqueries nested in the expressions of a statement, not counting those
+ * nested further inside them.
+ */
+const nestedQueries = (statement: SelectStatement): SelectStatement[] => {
+  const queries: SelectStatement[] = []
+  const visit = (expression: Expression) => {
+    if (expression.kind === 'subquery' || expression.kind === 'exists') {
+      queries.push(expression.query)
+    } else if (expression.kind === 'in' && expression.subquery) {
+      queries.push(expression.subquery)
+    }
+    childExpressions(expression).forEach(visit)
+  }
+  statementExpressions(statement).forEach(visit)
+  return queries
+}
+
+/**
+ * Tables and views named in the FROM and JOIN clauses of a statement, its CTEs
+ * and its subqueries. Names that refer to a CTE in scope are left out.
+ */
+export const referencedRelations = (statement: SelectStatement): TableRef[] => {
+  const refs: TableRef[] = []
+
+  const visit = (select: SelectStatement, outerCtes: Set<string>) => {
+    const ctes = new Set(outerCtes)
+    for (const cte of select.with) {
+      // A CTE can use the ones defined before it
+      visit(cte.query, ctes)
+      ctes.add(cte.name.toLowerCase())
+    }
+    for (const ref of [select.from, ...select.joins.map(join => join.table)]) {
+      if (!ctes.has(ref.name.toLowerCase())) refs.push(ref)
+    }
+    nestedQueries(select).forEach(query => visit(query, ctes))
+  }
+
+  visit(statement, new Set())
+  return refs
+}
+
+const formatLiteral = (value: LiteralValue): string => {
+  if (value === null) return 'NULL'
+  if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`
+  return typeof value === 'boolean' ? (value ? 'TRUE' : 'FALSE') : String(value)
+}
+
+/**
+ * SQL text for an expression, for messages and query plans. Nested operations
+ * are parenthesized and subqueries abbreviated, so it need not match the
+ * original text.
+ */
+export const formatExpression = (expression: Expression): string => {
+  const nested = (child: Expression) => {
+    const text = formatExpression(child)
+    return ['binary', 'like', 'in', 'between', 'isNull'].includes(child.kind) ? `(${text})` : text
+  }
+  const not = (negated: boolean) => negated ? 'NOT ' : ''
+
+  switch (expression.kind) {
+    case 'literal':
+      return formatLiteral(expression.value)
+    case 'column':
+      return expression.table ? `${expression.table}.${expression.name}` : expression.name
+    case 'star':
+      return expression.table ? `${expression.table}.*` : '*'
+    case 'binary':
+      return `${nested(expression.left)} ${expression.operator} ${nested(expression.right)}`
+    case 'unary':
+      return expression.operator === 'NOT' ? `NOT ${nested(expression.operand)}` : `-${nested(expression.operand)}`
+    case 'like':
+      return `${nested(expression.expression)} ${not(expression.negated)}LIKE ${nested(expression.pattern)}`
+    case 'in': {
+      const list = expression.subquery ? 'SELECT …' : expression.values.map(formatExpression).join(', ')
+      return `${nested(expression.expression)} ${not(expression.negated)}IN (${list})`
+    }
+    case 'between':
+      return `${nested(expression.expression)} ${not(expression.negated)}BETWEEN ` +
+        `${nested(expression.low)} AND ${nested(expression.high)}`
+    case 'isNull':
+      return `${nested(expression.expression)} IS ${not(expression.negated)}NULL`
+    case 'case':
+      return 'CASE … END'
+    case 'cast':
+      return `CAST(${formatExpression(expression.expression)} AS ${expression.type})`
+    case 'subquery':
+      return '(SELECT …)'
+    case 'exists':
+      return 'EXISTS (SELECT …)'
+    case 'call': {
+      const name = expression.namespace ? `${expression.namespace}.${expression.name}` : expression.name
+      const args = expression.args.map(formatExpression).join(', ')
+      return `${name}(${expression.distinct ? 'DISTINCT ' : ''}${args})${expression.over ? ' OVER (…)' : ''}`
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { Position } from './ast'
+
+/**
+ * Error raised while parsing or executing a query.
+ * When a position is known, the message is prefixed with its line and column.
+ */
+export class SqlError extends Error {
+  position?: Position
+
+  constructor(message: string, position?: Position) {
+    super(position ? `Line ${position.line}, column ${position.column}: ${message}` : message)
+    this.name = 'SqlError'
+    this.position = position
+  }
+}
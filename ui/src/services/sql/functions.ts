@@ -0,0 +1,239 @@
+import { toNumber } from './values'
+
+/**
+ * Built-in scalar functions for view queries.
+ *
+ * Every function except COALESCE returns NULL when any argument is NULL.
+ * Date functions accept the stored forms of date ('2024-03-01') and datetime
+ * (ISO 8601) columns and work in UTC; results keep the form of the input.
+ * Functions throw plain Errors; the query engine adds the call position.
+ */
+
+interface ScalarFunction {
+  minArgs: number
+  maxArgs: number
+  nullSafe?: boolean  // receives NULL arguments instead of returning NULL
+  evaluate: (args: any[]) => any
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+const DATE_UNITS = ['year', 'quarter', 'month', 'week', 'day', 'hour', 'minute', 'second']
+
+const UNIT_MS: Record<string, number> = {
+  week: 7 * 24 * 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  hour: 60 * 60 * 1000,
+  minute: 60 * 1000,
+  second: 1000
+}
+
+const text = (value: any): string => {
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const number = (value: any, what: string): number => {
+  const result = toNumber(value)
+  if (result === undefined) {
+    throw new Error(`${what} must be a number but got ${JSON.stringify(value)}`)
+  }
+  return result
+}
+
+export const toDate = (value: any): Date | undefined => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value
+  if (typeof value === 'number') return new Date(value)
+  if (typeof value === 'string') {
+    const time = Date.parse(value)
+    return isNaN(time) ? undefined : new Date(time)
+  }
+  return undefined
+}
+
+const date = (value: any, what: string): Date => {
+  const result = toDate(value)
+  if (!result) {
+    throw new Error(`${what} must be a date but got ${JSON.stringify(value)}`)
+  }
+  return result
+}
+
+const unit = (value: any, allowed: string[]): string => {
+  const result = String(value).toLowerCase()
+  if (!allowed.includes(result)) {
+    throw new Error(`Unknown unit "${value}". Expected one of: ${allowed.join(', ')}`)
+  }
+  return result
+}
+
+const formatDate = (value: Date, dateOnly: boolean): string => {
+  return dateOnly ? value.toISOString().slice(0, 10) : value.toISOString()
+}
+
+const isoWeek = (value: Date): number => {
+  // The ISO week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()))
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7))
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1)
+  return Math.ceil(((thursday.getTime() - yearStart) / UNIT_MS.day + 1) / 7)
+}
+
+const truncateDate = (value: Date, to: string): Date => {
+  const y = value.getUTCFullYear()
+  const m = value.getUTCMonth()
+  const d = value.getUTCDate()
+  switch (to) {
+    case 'year': return new Date(Date.UTC(y, 0, 1))
+    case 'quarter': return new Date(Date.UTC(y, Math.floor(m / 3) * 3, 1))
+    case 'month': return new Date(Date.UTC(y, m, 1))
+    case 'week': return new Date(Date.UTC(y, m, d - ((value.getUTCDay() + 6) % 7)))  // Monday
+    case 'day': return new Date(Date.UTC(y, m, d))
+    case 'hour': return new Date(Date.UTC(y, m, d, value.getUTCHours()))
+    case 'minute': return new Date(Date.UTC(y, m, d, value.getUTCHours(), value.getUTCMinutes()))
+    default: return new Date(Math.floor(value.getTime() / 1000) * 1000)
+  }
+}
+
+// Whole units elapsed from start to end; negative when end is earlier
+const dateDiff = (by: string, start: Date, end: Date): number => {
+  if (UNIT_MS[by]) {
+    return Math.trunc((end.getTime() - start.getTime()) / UNIT_MS[by])
+  }
+
+  let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth()
+  const startRest = start.getTime() - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1)
+  const endRest = end.getTime() - Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), 1)
+  if (months > 0 && endRest < startRest) months--
+  if (months < 0 && endRest > startRest) months++
+
+  if (by === 'year') return Math.trunc(months / 12)
+  if (by === 'quarter') return Math.trunc(months / 3)
+  return months
+}
+
+const EXTRACT_FIELDS = ['year', 'quarter', 'month', 'week', 'day', 'dow', 'doy', 'hour', 'minute', 'second', 'epoch']
+
+const extract = (field: string, value: Date): number => {
+  switch (field) {
+    case 'year': return value.getUTCFullYear()
+    case 'quarter': return Math.floor(value.getUTCMonth() / 3) + 1
+    case 'month': return value.getUTCMonth() + 1
+    case 'week': return isoWeek(value)
+    case 'day': return value.getUTCDate()
+    case 'dow': return value.getUTCDay()  // 0 = Sunday
+    case 'doy': return dateDiff('day', new Date(Date.UTC(value.getUTCFullYear(), 0, 1)), value) + 1
+    case 'hour': return value.getUTCHours()
+    case 'minute': return value.getUTCMinutes()
+    case 'second': return value.getUTCSeconds() + value.getUTCMilliseconds() / 1000
+    default: return value.getTime() / 1000  // epoch
+  }
+}
+
+export const SCALAR_FUNCTIONS: Record<string, ScalarFunction> = {
+  UPPER: { minArgs: 1, maxArgs: 1, evaluate: ([s]) => text(s).toUpperCase() },
+  LOWER: { minArgs: 1, maxArgs: 1, evaluate: ([s]) => text(s).toLowerCase() },
+  LENGTH: { minArgs: 1, maxArgs: 1, evaluate: ([s]) => text(s).length },
+  TRIM: { minArgs: 1, maxArgs: 1, evaluate: ([s]) => text(s).trim() },
+
+  // SUBSTR(text, start [, length]) with a 1-based start
+  SUBSTR: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([s, start, length]) => {
+      const from = Math.trunc(number(start, 'Start'))
+      const begin = Math.max(from - 1, 0)
+      if (length === undefined) return text(s).slice(begin)
+      const end = Math.max(from - 1 + Math.trunc(number(length, 'Length')), 0)
+      return text(s).slice(begin, Math.max(end, begin))
+    }
+  },
+
+  ROUND: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([n, digits]) => {
+      const places = digits === undefined ? 0 : Math.trunc(number(digits, 'Digits'))
+      const factor = Math.pow(10, places)
+      return Math.round(number(n, 'Value') * factor) / factor
+    }
+  },
+  ABS: { minArgs: 1, maxArgs: 1, evaluate: ([n]) => Math.abs(number(n, 'Value')) },
+
+  COALESCE: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    nullSafe: true,
+    evaluate: (args) => args.find(v => v != null) ?? null
+  },
+  NULLIF: {
+    minArgs: 2,
+    maxArgs: 2,
+    nullSafe: true,
+    evaluate: ([a, b]) => (a != null && b != null && text(a) === text(b) ? null : a ?? null)
+  },
+
+  // DATE_TRUNC('month', value)
+  DATE_TRUNC: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([to, value]) => {
+      const truncated = truncateDate(date(value, 'Value'), unit(to, DATE_UNITS))
+      return formatDate(truncated, typeof value === 'string' && DATE_ONLY.test(value))
+    }
+  },
+
+  // EXTRACT(field FROM value), also callable as EXTRACT('field', value)
+  EXTRACT: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([field, value]) => extract(unit(field, EXTRACT_FIELDS), date(value, 'Value'))
+  },
+
+  // DATE_DIFF('day', start, end): whole units from start to end
+  DATE_DIFF: {
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([by, start, end]) => dateDiff(unit(by, DATE_UNITS), date(start, 'Start'), date(end, 'End'))
+  }
+}
+
+export const CAST_TYPES = ['string', 'text', 'number', 'integer', 'boolean', 'date', 'datetime', 'json']
+
+/**
+ * CAST(value AS type) for the column types tables use.
+ */
+export const castValue = (value: any, type: string): any => {
+  if (value == null) return null
+
+  switch (type.toLowerCase()) {
+    case 'string':
+    case 'text':
+      return text(value)
+    case 'number':
+      return number(value, 'Value')
+    case 'integer':
+      return Math.trunc(number(value, 'Value'))
+    case 'boolean': {
+      if (typeof value === 'boolean') return value
+      const normalized = text(value).trim().toLowerCase()
+      if (['true', '1', 'yes'].includes(normalized)) return true
+      if (['false', '0', 'no'].includes(normalized)) return false
+      throw new Error(`Cannot cast ${JSON.stringify(value)} to boolean`)
+    }
+    case 'date':
+      return formatDate(date(value, 'Value'), true)
+    case 'datetime':
+      return formatDate(date(value, 'Value'), false)
+    case 'json':
+      if (typeof value !== 'string') return value
+      try {
+        return JSON.parse(value)
+      } catch {
+        throw new Error(`Cannot cast ${JSON.stringify(value)} to json`)
+      }
+    default:
+      throw new Error(`Unknown type "${type}". Expected one of: ${CAST_TYPES.join(', ')}`)
+  }
+}
@@ -0,0 +1,307 @@
+import { Table } from '../../models/types'
+import { indexKey } from './values'
+
+/**
+ * In-memory indexes over table rows, built from a table's primary key, unique
+ * constraints and declared indexes:
+ * - hash indexes, for the primary key and unique constraints, find rows by
+ *   their whole key
+ * - sorted indexes, for declared indexes, also find rows by a leading part of
+ *   the key and by a range on the column after it
+ *
+ * Lookups return every row that can match and possibly a few more, so the
+ * query engine still checks its conditions on them.
+ */
+
+type Row = Record<string, any>
+type Key = number | string | null
+
+export type IndexKind = 'hash' | 'sorted'
+
+export interface RangeBound {
+  value: any
+  inclusive: boolean
+}
+
+export interface TableIndex {
+  name: string
+  kind: IndexKind
+  columns: string[]
+  // Rows whose leading columns may equal `values` and whose next column may lie in
+  // `range`; undefined when the index can't answer that, so the table is scanned
+  lookup(values: any[], range?: { low?: RangeBound, high?: RangeBound }): Row[] | undefined
+}
+
+export interface IndexedTable {
+  indexes: TableIndex[]
+  positions: Map<Row, number>  // index of each row in the table, to keep results in table order
+}
+
+interface MaintainedIndex extends TableIndex {
+  add(row: Row): void
+  remove(row: Row): void
+}
+
+interface IndexState extends IndexedTable {
+  rows: Row[]
+  declaration: string
+  indexes: MaintainedIndex[]
+}
+
+// Changing more rows than this at once rebuilds the indexes instead of updating them
+const MAX_INCREMENTAL_CHANGES = 64
+
+const keyOf = (value: any): Key => value === null || value === undefined ? null : indexKey(value)
+
+// NULL first, then numbers, then text
+const compareKeys = (a: Key, b: Key): number => {
+  if (a === b) return 0
+  if (a === null) return -1
+  if (b === null) return 1
+  if (typeof a !== typeof b) return typeof a === 'number' ? -1 : 1
+  return a < b ? -1 : 1
+}
+
+const comparesAsNumber = (value: any) =>
+  typeof value === 'number' || typeof value === 'boolean' || value instanceof Date
+
+class HashIndex implements MaintainedIndex {
+  kind: IndexKind = 'hash'
+  private buckets = new Map<string, Row[]>()
+
+  constructor(public name: string, public columns: string[], rows: Row[]) {
+    rows.forEach(row => this.add(row))
+  }
+
+  add(row: Row) {
+    const key = this.key(this.columns.map(c => row[c]))
+    if (key === null) return
+    const bucket = this.buckets.get(key)
+    if (bucket) {
+      bucket.push(row)
+    } else {
+      this.buckets.set(key, [row])
+    }
+  }
+
+  remove(row: Row) {
+    const key = this.key(this.columns.map(c => row[c]))
+    if (key === null) return
+    const bucket = this.buckets.get(key)
+    const at = bucket ? bucket.indexOf(row) : -1
+    if (at < 0) return
+    bucket!.splice(at, 1)
+    if (bucket!.length === 0) this.buckets.delete(key)
+  }
+
+  lookup(values: any[], range?: { low?: RangeBound, high?: RangeBound }): Row[] | undefined {
+    if (range || values.length !== this.columns.length) return undefined
+    const key = this.key(values)
+    return key === null ? [] : [...(this.buckets.get(key) || [])]
+  }
+
+  // Rows with a NULL in the key can't be found by equality, so they aren't stored
+  private key(values: any[]): string | null {
+    const keys = values.map(keyOf)
+    return keys.includes(null) ? null : JSON.stringify(keys)
+  }
+}
+
+class SortedIndex implements MaintainedIndex {
+  kind: IndexKind = 'sorted'
+  private entries: { keys: Key[], row: Row }[] = []
+  // Per column, how many keys are numbers and how many text; ranges need one kind only
+  private counts: { numbers: number, texts: number }[]
+
+  constructor(public name: string, public columns: string[], rows: Row[]) {
+    this.counts = columns.map(() => ({ numbers: 0, texts: 0 }))
+    this.entries = rows.map(row => {
+      const keys = this.keys(row)
+      this.count(keys, 1)
+      return { keys, row }
+    })
+    this.entries.sort((a, b) => this.compare(a.keys, b.keys, this.columns.length))
+  }
+
+  add(row: Row) {
+    const keys = this.keys(row)
+    this.count(keys, 1)
+    const at = this.search(entry => this.compare(entry.keys, keys, keys.length) <= 0)
+    this.entries.splice(at, 0, { keys, row })
+  }
+
+  remove(row: Row) {
+    const keys = this.keys(row)
+    let at = this.search(entry => this.compare(entry.keys, keys, keys.length) < 0)
+    while (at < this.entries.length && this.entries[at].row !== row &&
+      this.compare(this.entries[at].keys, keys, keys.length) === 0) {
+      at++
+    }
+    if (this.entries[at]?.row !== row) {
+      // The row was changed in place, so its stored keys differ
+      at = this.entries.findIndex(entry => entry.row === row)
+      if (at < 0) return
+    }
+    this.count(this.entries[at].keys, -1)
+    this.entries.splice(at, 1)
+  }
+
+  lookup(values: any[], range?: { low?: RangeBound, high?: RangeBound }): Row[] | undefined {
+    const length = values.length
+    if (length + (range ? 1 : 0) > this.columns.length || (length === 0 && !range)) return undefined
+
+    const prefix: Key[] = []
+    for (let i = 0; i < length; i++) {
+      const key = this.probeKey(i, values[i], false)
+      if (key === undefined) return undefined
+      prefix.push(key)
+    }
+    const low = range?.low && this.probeKey(length, range.low.value, true)
+    const high = range?.high && this.probeKey(length, range.high.value, true)
+    if (low === undefined && range?.low || high === undefined && range?.high) return undefined
+
+    // Entries before the first match: a smaller prefix, or a NULL or too small value in the range column
+    const before = (keys: Key[]) => {
+      const order = this.compare(keys, prefix, length)
+      if (order !== 0 || !range) return order < 0
+      const key = keys[length]
+      if (key === null) return true
+      if (low === undefined) return false
+      const bound = compareKeys(key, low)
+      return bound < 0 || (bound === 0 && !range.low!.inclusive)
+    }
+    const matches = (keys: Key[]) => {
+      if (this.compare(keys, prefix, length) !== 0) return false
+      if (high === undefined) return true
+      const bound = compareKeys(keys[length], high)
+      return bound < 0 || (bound === 0 && range!.high!.inclusive)
+    }
+
+    const rows: Row[] = []
+    for (let at = this.search(entry => before(entry.keys)); at < this.entries.length; at++) {
+      if (!matches(this.entries[at].keys)) break
+      rows.push(this.entries[at].row)
+    }
+    return rows
+  }
+
+  private keys(row: Row): Key[] {
+    return this.columns.map(c => keyOf(row[c]))
+  }
+
+  private count(keys: Key[], delta: number) {
+    keys.forEach((key, i) => {
+      if (typeof key === 'number') this.counts[i].numbers += delta
+      if (typeof key === 'string') this.counts[i].texts += delta
+    })
+  }
+
+  // The key to search a column for, matching how compareValues orders it against
+  // the column's values; undefined when no single key does
+  private probeKey(column: number, value: any, range: boolean): Key | undefined {
+    if (value === null || value === undefined) return undefined
+    const { numbers, texts } = this.counts[column]
+    if (numbers > 0 && texts > 0) return undefined
+    if (texts > 0) {
+      // Text values are compared with the text of anything else
+      return typeof value === 'string' ? value : String(indexKey(value))
+    }
+    // Numeric strings compare as text with each other, so only true numbers give a range
+    if (range && !comparesAsNumber(value)) return undefined
+    const key = indexKey(value)
+    return typeof key === 'number' ? key : undefined
+  }
+
+  private compare(a: Key[], b: Key[], length: number): number {
+    for (let i = 0; i < length; i++) {
+      const order = compareKeys(a[i], b[i])
+      if (order !== 0) return order
+    }
+    return 0
+  }
+
+  // First entry for which `isBefore` is false; entries are ordered so it is false from there on
+  private search(isBefore: (entry: { keys: Key[], row: Row }) => boolean): number {
+    let low = 0
+    let high = this.entries.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (isBefore(this.entries[middle])) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+    return low
+  }
+}
+
+const declaredIndexes = (table: Table): { name: string, kind: IndexKind, columns: string[] }[] => {
+  const declared: { name: string, kind: IndexKind, columns: string[] }[] = []
+  if (table.primaryKey && table.primaryKey.length > 0) {
+    declared.push({ name: 'PRIMARY KEY', kind: 'hash', columns: table.primaryKey })
+  }
+  for (const constraint of table.uniqueConstraints || []) {
+    declared.push({ name: constraint.name, kind: 'hash', columns: constraint.columns })
+  }
+  for (const index of table.indexes || []) {
+    declared.push({ name: index.name, kind: 'sorted', columns: index.columns })
+  }
+  return declared.filter(index => index.columns.length > 0)
+}
+
+/**
+ * The indexes of a set of tables. `sync` brings them up to date with the
+ * tables: rows are compared by identity, so an edited row, which is always a
+ * new object, is removed from the indexes and its replacement added.
+ */
+export class IndexStore {
+  private states = new Map<string, IndexState>()
+
+  sync(tables: Table[]) {
+    const states = new Map<string, IndexState>()
+    for (const table of tables) {
+      const state = this.states.get(table.id)
+      states.set(table.id, state ? this.update(state, table) : this.build(table))
+    }
+    this.states = states
+  }
+
+  // The indexes of a table, unless its rows changed since the last sync
+  get(table: Table): IndexedTable | undefined {
+    const state = this.states.get(table.id)
+    return state && state.rows === table.rows && state.indexes.length > 0 ? state : undefined
+  }
+
+  private build(table: Table): IndexState {
+    const declared = declaredIndexes(table)
+    return {
+      rows: table.rows,
+      declaration: JSON.stringify(declared),
+      indexes: declared.map(({ name, kind, columns }) => kind === 'hash'
+        ? new HashIndex(name, columns, table.rows)
+        : new SortedIndex(name, columns, table.rows)),
+      positions: new Map(table.rows.map((row, index) => [row, index]))
+    }
+  }
+
+  private update(state: IndexState, table: Table): IndexState {
+    if (state.rows === table.rows) return state
+    if (state.declaration !== JSON.stringify(declaredIndexes(table))) return this.build(table)
+
+    const current = new Set(table.rows)
+    const removed = state.rows.filter(row => !current.has(row))
+    const added = table.rows.filter(row => !state.positions.has(row))
+    if (removed.length + added.length > MAX_INCREMENTAL_CHANGES) return this.build(table)
+
+    for (const index of state.indexes) {
+      removed.forEach(row => index.remove(row))
+      added.forEach(row => index.add(row))
+    }
+    return {
+      ...state,
+      rows: table.rows,
+      positions: new Map(table.rows.map((row, index) => [row, index]))
+    }
+  }
+}
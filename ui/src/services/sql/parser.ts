@@ -0,0 +1,728 @@
+import {
+  CommonTableExpression,
+  Expression,
+  FrameBound,
+  FunctionCall,
+  Join,
+  JoinType,
+  OrderItem,
+  Position,
+  SelectItem,
+  SelectStatement,
+  TableRef,
+  WindowFrame,
+  WindowSpec,
+  ArithmeticOperator,
+  ComparisonOperator
+} from './ast'
+import { SqlError } from './errors'
+import { Token, tokenize } from './tokenizer'
+
+// Words that can never be used as a bare alias or column name
+const RESERVED = new Set([
+  'select', 'from', 'where', 'join', 'inner', 'left', 'right', 'full', 'outer', 'cross', 'on',
+  'and', 'or', 'not', 'order', 'group', 'by', 'having', 'limit', 'offset', 'as', 'asc', 'desc',
+  'like', 'in', 'is', 'null', 'between', 'distinct', 'union', 'with', 'case', 'when', 'then',
+  'else', 'end', 'true', 'false', 'exists'
+])
+
+const COMPARISON_OPERATORS = ['=', '!=', '<>', '<', '>', '<=', '>=']
+
+/**
+ * Recursive-descent parser for the SELECT dialect supported by views.
+ *
+ * statement  := [EXPLAIN] query
+ * query      := [WITH cte (, cte)*] SELECT [DISTINCT | ALL] selectList FROM tableRef join* [WHERE expr]
+ *               [GROUP BY expr (, expr)*] [HAVING expr] [ORDER BY orderItem (, orderItem)*]
+ *               [LIMIT number] [OFFSET number] [;]
+ * cte        := name [( column (, column)* )] AS ( query )
+ * selectItem := * | name.* | expr [[AS] alias]
+ * tableRef   := tableName [[AS] alias]
+ * join       := [INNER | LEFT [OUTER] | RIGHT [OUTER] | FULL [OUTER]] JOIN tableRef ON expr
+ *             | CROSS JOIN tableRef
+ * orderItem  := expr [ASC | DESC] [NULLS FIRST | NULLS LAST]
+ * expr       := and (OR and)*
+ * and        := not (AND not)*
+ * not        := NOT not | predicate
+ * predicate  := concat [(= | != | <> | < | > | <= | >=) concat
+ *                      | IS [NOT] NULL
+ *                      | [NOT] LIKE concat [ESCAPE string]
+ *                      | [NOT] IN ( expr (, expr)* ) | [NOT] IN ( query )
+ *                      | [NOT] BETWEEN concat AND concat]
+ * concat     := additive (|| additive)*
+ * additive   := term ((+ | -) term)*
+ * term       := unary ((* | / | %) unary)*
+ * unary      := - unary | primary
+ * primary    := literal | column | ( expr ) | ( query ) | EXISTS ( query )
+ *             | name(args) [OVER ( window )] | FN.name(args)
+ *             | CASE [expr] (WHEN expr THEN expr)+ [ELSE expr] END
+ *             | CAST(expr AS type) | EXTRACT(field FROM expr)
+ * window     := [PARTITION BY expr (, expr)*] [ORDER BY orderItem (, orderItem)*]
+ *               [(ROWS | RANGE) (frameBound | BETWEEN frameBound AND frameBound)]
+ * frameBound := UNBOUNDED PRECEDING | n PRECEDING | CURRENT ROW | n FOLLOWING | UNBOUNDED FOLLOWING
+ */
+class Parser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(private query: string) {
+    this.tokens = tokenize(query)
+  }
+
+  parse(): SelectStatement {
+    const explain = this.matchKeyword('explain')
+    const statement = this.parseSelect()
+    if (explain) statement.explain = true
+    this.matchOperator(';')
+    if (this.peek().type !== 'eof') {
+      this.fail(`Expected end of query but found ${this.describe(this.peek())}`)
+    }
+    return statement
+  }
+
+  private parseSelect(): SelectStatement {
+    const ctes = this.matchKeyword('with') ? this.parseWith() : []
+    const position = this.expectKeyword('select').position
+    const distinct = this.matchKeyword('distinct')
+    if (!distinct) this.matchKeyword('all')
+    const columns = this.parseSelectList()
+
+    this.expectKeyword('from')
+    const from = this.parseTableRef()
+
+    const joins: Join[] = []
+    while (['join', 'inner', 'left', 'right', 'full', 'cross'].some(k => this.isKeyword(k))) {
+      joins.push(this.parseJoin())
+    }
+
+    let where: Expression | undefined
+    if (this.matchKeyword('where')) {
+      where = this.parseExpression()
+    }
+
+    const groupBy: Expression[] = []
+    if (this.matchKeyword('group')) {
+      this.expectKeyword('by')
+      do {
+        groupBy.push(this.parseExpression())
+      } while (this.matchOperator(','))
+    }
+
+    let having: Expression | undefined
+    if (this.matchKeyword('having')) {
+      having = this.parseExpression()
+    }
+
+    const orderBy: OrderItem[] = []
+    if (this.matchKeyword('order')) {
+      this.expectKeyword('by')
+      do {
+        orderBy.push(this.parseOrderItem())
+      } while (this.matchOperator(','))
+    }
+
+    let limit: number | undefined
+    if (this.matchKeyword('limit')) {
+      limit = this.parseNonNegativeInteger('LIMIT')
+    }
+
+    let offset: number | undefined
+    if (this.matchKeyword('offset')) {
+      offset = this.parseNonNegativeInteger('OFFSET')
+    }
+
+    return {
+      kind: 'select',
+      with: ctes,
+      distinct,
+      columns,
+      from,
+      joins,
+      where,
+      groupBy,
+      having,
+      orderBy,
+      limit,
+      offset,
+      position
+    }
+  }
+
+  private parseWith(): CommonTableExpression[] {
+    const ctes: CommonTableExpression[] = []
+    do {
+      const position = this.peek().position
+      const name = this.expectIdentifier('CTE name')
+      if (ctes.some(cte => cte.name.toLowerCase() === name.toLowerCase())) {
+        this.fail(`CTE "${name}" is defined more than once`, position)
+      }
+
+      let columns: string[] | undefined
+      if (this.matchOperator('(')) {
+        columns = []
+        do {
+          columns.push(this.expectIdentifier('column name'))
+        } while (this.matchOperator(','))
+        this.expectOperator(')')
+      }
+
+      this.expectKeyword('as')
+      this.expectOperator('(')
+      const query = this.parseSelect()
+      this.expectOperator(')')
+      ctes.push({ name, columns, query, position })
+    } while (this.matchOperator(','))
+    return ctes
+  }
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = []
+    do {
+      const start = this.peek()
+
+      if (this.isOperator('*')) {
+        this.next()
+        items.push({ expression: { kind: 'star', position: start.position }, text: '*' })
+        continue
+      }
+      if (this.isIdentifierToken(start) && this.peek(1).value === '.' && this.peek(2).value === '*') {
+        this.next()
+        this.next()
+        this.next()
+        items.push({
+          expression: { kind: 'star', table: start.value, position: start.position },
+          text: `${start.value}.*`
+        })
+        continue
+      }
+
+      const expression = this.parseExpression()
+      const text = this.query.slice(start.position.offset, this.previous().end)
+
+      let alias: string | undefined
+      if (this.matchKeyword('as')) {
+        alias = this.expectIdentifier('alias')
+      } else if (this.isIdentifierToken(this.peek())) {
+        alias = this.next().value
+      }
+      items.push({ expression, alias, text })
+    } while (this.matchOperator(','))
+    return items
+  }
+
+  private parseTableRef(): TableRef {
+    const token = this.peek()
+    // Table names with spaces may be quoted with backticks or either quote character
+    if (token.type !== 'string' && !this.isIdentifierToken(token)) {
+      return this.fail(`Expected table name but found ${this.describe(token)}`)
+    }
+    this.next()
+
+    let alias: string | undefined
+    if (this.matchKeyword('as')) {
+      alias = this.expectIdentifier('alias')
+    } else if (this.isIdentifierToken(this.peek())) {
+      alias = this.next().value
+    }
+    return { name: token.value, alias, position: token.position }
+  }
+
+  private parseJoin(): Join {
+    const position = this.peek().position
+    let type: JoinType = 'INNER'
+    if (this.matchKeyword('left')) {
+      type = 'LEFT'
+    } else if (this.matchKeyword('right')) {
+      type = 'RIGHT'
+    } else if (this.matchKeyword('full')) {
+      type = 'FULL'
+    } else if (this.matchKeyword('cross')) {
+      type = 'CROSS'
+    } else {
+      this.matchKeyword('inner')
+    }
+    if (type !== 'INNER' && type !== 'CROSS') {
+      this.matchKeyword('outer')
+    }
+    this.expectKeyword('join')
+
+    const table = this.parseTableRef()
+    if (type === 'CROSS') {
+      return { type, table, position }
+    }
+    this.expectKeyword('on')
+    const on = this.parseExpression()
+    return { type, table, on, position }
+  }
+
+  private parseOrderItem(): OrderItem {
+    const expression = this.parseExpression()
+    let direction: 'ASC' | 'DESC' = 'ASC'
+    if (this.matchKeyword('desc')) {
+      direction = 'DESC'
+    } else {
+      this.matchKeyword('asc')
+    }
+
+    let nulls: 'FIRST' | 'LAST' | undefined
+    if (this.matchKeyword('nulls')) {
+      if (this.matchKeyword('first')) {
+        nulls = 'FIRST'
+      } else if (this.matchKeyword('last')) {
+        nulls = 'LAST'
+      } else {
+        this.fail(`Expected FIRST or LAST but found ${this.describe(this.peek())}`)
+      }
+    }
+    return { expression, direction, nulls }
+  }
+
+  private parseNonNegativeInteger(clause: string): number {
+    const token = this.peek()
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) {
+      return this.fail(`${clause} expects a whole number but found ${this.describe(token)}`)
+    }
+    this.next()
+    return parseInt(token.value, 10)
+  }
+
+  // Expressions
+
+  parseExpression(): Expression {
+    return this.parseOr()
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd()
+    while (this.isKeyword('or')) {
+      const position = this.next().position
+      left = { kind: 'binary', operator: 'OR', left, right: this.parseAnd(), position }
+    }
+    return left
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot()
+    while (this.isKeyword('and')) {
+      const position = this.next().position
+      left = { kind: 'binary', operator: 'AND', left, right: this.parseNot(), position }
+    }
+    return left
+  }
+
+  private parseNot(): Expression {
+    if (this.isKeyword('not')) {
+      const position = this.next().position
+      return { kind: 'unary', operator: 'NOT', operand: this.parseNot(), position }
+    }
+    return this.parsePredicate()
+  }
+
+  private parsePredicate(): Expression {
+    const left = this.parseConcat()
+    const token = this.peek()
+
+    if (token.type === 'operator' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.next()
+      const right = this.parseConcat()
+      return {
+        kind: 'binary',
+        operator: token.value as ComparisonOperator,
+        left,
+        right,
+        position: token.position
+      }
+    }
+
+    if (this.matchKeyword('is')) {
+      const negated = this.matchKeyword('not')
+      this.expectKeyword('null')
+      return { kind: 'isNull', expression: left, negated, position: token.position }
+    }
+
+    const negated = this.isKeyword('not') &&
+      ['like', 'in', 'between'].some(k => this.peek(1).type === 'identifier' && this.peek(1).value.toLowerCase() === k)
+    if (negated) this.next()
+
+    if (this.matchKeyword('like')) {
+      const pattern = this.parseConcat()
+      let escape: string | undefined
+      if (this.matchKeyword('escape')) {
+        const escapeToken = this.peek()
+        if (escapeToken.type !== 'string' || escapeToken.value.length !== 1) {
+          this.fail('ESCAPE expects a single-character string')
+        }
+        escape = this.next().value
+      }
+      return { kind: 'like', expression: left, pattern, escape, negated, position: token.position }
+    }
+
+    if (this.matchKeyword('in')) {
+      this.expectOperator('(')
+      if (this.isSubqueryStart()) {
+        const subquery = this.parseSelect()
+        this.expectOperator(')')
+        return { kind: 'in', expression: left, values: [], subquery, negated, position: token.position }
+      }
+      const values: Expression[] = []
+      do {
+        values.push(this.parseExpression())
+      } while (this.matchOperator(','))
+      this.expectOperator(')')
+      return { kind: 'in', expression: left, values, negated, position: token.position }
+    }
+
+    if (this.matchKeyword('between')) {
+      const low = this.parseConcat()
+      this.expectKeyword('and')
+      const high = this.parseConcat()
+      return { kind: 'between', expression: left, low, high, negated, position: token.position }
+    }
+
+    return left
+  }
+
+  private parseConcat(): Expression {
+    let left = this.parseAdditive()
+    while (this.isOperator('||')) {
+      const position = this.next().position
+      left = { kind: 'binary', operator: '||', left, right: this.parseAdditive(), position }
+    }
+    return left
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseTerm()
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const token = this.next()
+      left = { kind: 'binary', operator: token.value as ArithmeticOperator, left, right: this.parseTerm(), position: token.position }
+    }
+    return left
+  }
+
+  private parseTerm(): Expression {
+    let left = this.parseUnary()
+    while (this.isOperator('*') || this.isOperator('/') || this.isOperator('%')) {
+      const token = this.next()
+      left = { kind: 'binary', operator: token.value as ArithmeticOperator, left, right: this.parseUnary(), position: token.position }
+    }
+    return left
+  }
+
+  private parseUnary(): Expression {
+    if (this.isOperator('-')) {
+      const position = this.next().position
+      const operand = this.parseUnary()
+      // Fold negative numbers so they stay literals, e.g. for FN.* argument typing
+      if (operand.kind === 'literal' && typeof operand.value === 'number') {
+        return { kind: 'literal', value: -operand.value, position }
+      }
+      return { kind: 'unary', operator: '-', operand, position }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek()
+
+    if (token.type === 'number') {
+      this.next()
+      return { kind: 'literal', value: Number(token.value), position: token.position }
+    }
+
+    if (token.type === 'string') {
+      this.next()
+      return { kind: 'literal', value: token.value, position: token.position }
+    }
+
+    if (this.matchOperator('(')) {
+      if (this.isSubqueryStart()) {
+        const query = this.parseSelect()
+        this.expectOperator(')')
+        return { kind: 'subquery', query, position: token.position }
+      }
+      const expression = this.parseExpression()
+      this.expectOperator(')')
+      return expression
+    }
+
+    if (this.isKeyword('exists')) {
+      this.next()
+      this.expectOperator('(')
+      const query = this.parseSelect()
+      this.expectOperator(')')
+      return { kind: 'exists', query, position: token.position }
+    }
+
+    if (this.isOperator('*')) {
+      this.next()
+      return { kind: 'star', position: token.position }
+    }
+
+    if (this.matchKeyword('null')) {
+      return { kind: 'literal', value: null, position: token.position }
+    }
+    if (this.matchKeyword('true')) {
+      return { kind: 'literal', value: true, position: token.position }
+    }
+    if (this.matchKeyword('false')) {
+      return { kind: 'literal', value: false, position: token.position }
+    }
+
+    if (this.isKeyword('case')) {
+      return this.parseCase()
+    }
+
+    if (token.type === 'identifier' && this.peek(1).value === '(') {
+      const name = token.value.toLowerCase()
+      if (name === 'cast') return this.parseCast()
+      if (name === 'extract' && this.peek(2).type === 'identifier' && this.peek(3).value.toLowerCase() === 'from') {
+        return this.parseExtract()
+      }
+    }
+
+    if (token.type === 'identifier' && token.value.toLowerCase() === 'fn' && this.peek(1).value === '.') {
+      this.next()
+      this.next()
+      const name = this.expectIdentifier('function name')
+      return this.parseCall(name, token.position, 'FN')
+    }
+
+    if (this.isIdentifierToken(token)) {
+      this.next()
+      if (token.type === 'identifier' && this.isOperator('(')) {
+        return this.parseCall(token.value.toUpperCase(), token.position)
+      }
+      if (this.matchOperator('.')) {
+        const name = this.expectIdentifier('column name')
+        return { kind: 'column', table: token.value, name, position: token.position }
+      }
+      return { kind: 'column', name: token.value, position: token.position }
+    }
+
+    return this.fail(`Expected an expression but found ${this.describe(token)}`)
+  }
+
+  private isSubqueryStart(): boolean {
+    return this.isKeyword('select') || this.isKeyword('with')
+  }
+
+  private parseCase(): Expression {
+    const position = this.expectKeyword('case').position
+    const operand = this.isKeyword('when') ? undefined : this.parseExpression()
+
+    const branches: { when: Expression, then: Expression }[] = []
+    while (this.matchKeyword('when')) {
+      const when = this.parseExpression()
+      this.expectKeyword('then')
+      branches.push({ when, then: this.parseExpression() })
+    }
+    if (branches.length === 0) {
+      this.fail(`Expected WHEN but found ${this.describe(this.peek())}`)
+    }
+
+    const otherwise = this.matchKeyword('else') ? this.parseExpression() : undefined
+    this.expectKeyword('end')
+    return { kind: 'case', operand, branches, otherwise, position }
+  }
+
+  private parseCast(): Expression {
+    const position = this.next().position
+    this.expectOperator('(')
+    const expression = this.parseExpression()
+    this.expectKeyword('as')
+    const type = this.expectIdentifier('type name')
+    this.expectOperator(')')
+    return { kind: 'cast', expression, type, position }
+  }
+
+  private parseExtract(): Expression {
+    const position = this.next().position
+    this.expectOperator('(')
+    const field = this.next()
+    this.expectKeyword('from')
+    const expression = this.parseExpression()
+    this.expectOperator(')')
+    return {
+      kind: 'call',
+      name: 'EXTRACT',
+      args: [{ kind: 'literal', value: field.value, position: field.position }, expression],
+      position
+    }
+  }
+
+  private parseCall(name: string, position: Position, namespace?: 'FN'): FunctionCall {
+    this.expectOperator('(')
+    const distinct = this.matchKeyword('distinct')
+    const args: Expression[] = []
+    if (distinct || !this.isOperator(')')) {
+      do {
+        args.push(this.parseExpression())
+      } while (this.matchOperator(','))
+    }
+    this.expectOperator(')')
+
+    let over: WindowSpec | undefined
+    if (!namespace && this.isKeyword('over') && this.peek(1).value === '(') {
+      this.next()
+      over = this.parseWindow()
+    }
+    return { kind: 'call', name, namespace, args, distinct: distinct || undefined, over, position }
+  }
+
+  private parseWindow(): WindowSpec {
+    this.expectOperator('(')
+
+    const partitionBy: Expression[] = []
+    if (this.matchKeyword('partition')) {
+      this.expectKeyword('by')
+      do {
+        partitionBy.push(this.parseExpression())
+      } while (this.matchOperator(','))
+    }
+
+    const orderBy: OrderItem[] = []
+    if (this.matchKeyword('order')) {
+      this.expectKeyword('by')
+      do {
+        orderBy.push(this.parseOrderItem())
+      } while (this.matchOperator(','))
+    }
+
+    let frame: WindowFrame | undefined
+    if (this.isKeyword('rows') || this.isKeyword('range')) {
+      frame = this.parseFrame()
+    }
+
+    this.expectOperator(')')
+    return { partitionBy, orderBy, frame }
+  }
+
+  private parseFrame(): WindowFrame {
+    const token = this.next()
+    const units = token.value.toUpperCase() as 'ROWS' | 'RANGE'
+
+    let start: FrameBound
+    let end: FrameBound = { type: 'CURRENT ROW' }
+    if (this.matchKeyword('between')) {
+      start = this.parseFrameBound(units)
+      this.expectKeyword('and')
+      end = this.parseFrameBound(units)
+    } else {
+      start = this.parseFrameBound(units)
+    }
+
+    if (start.type === 'UNBOUNDED FOLLOWING') {
+      this.fail('A window frame cannot start at UNBOUNDED FOLLOWING', token.position)
+    }
+    if (end.type === 'UNBOUNDED PRECEDING') {
+      this.fail('A window frame cannot end at UNBOUNDED PRECEDING', token.position)
+    }
+    return { units, start, end }
+  }
+
+  private parseFrameBound(units: 'ROWS' | 'RANGE'): FrameBound {
+    if (this.matchKeyword('current')) {
+      this.expectKeyword('row')
+      return { type: 'CURRENT ROW' }
+    }
+    if (this.matchKeyword('unbounded')) {
+      if (this.matchKeyword('preceding')) return { type: 'UNBOUNDED PRECEDING' }
+      this.expectKeyword('following')
+      return { type: 'UNBOUNDED FOLLOWING' }
+    }
+
+    if (units === 'RANGE') {
+      return this.fail('RANGE frames only support UNBOUNDED and CURRENT ROW bounds; use ROWS for row offsets')
+    }
+    const offset = this.parseNonNegativeInteger('A window frame bound')
+    if (this.matchKeyword('preceding')) return { type: 'PRECEDING', offset }
+    this.expectKeyword('following')
+    return { type: 'FOLLOWING', offset }
+  }
+
+  // Token helpers
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)]
+  }
+
+  private previous(): Token {
+    return this.tokens[this.index - 1]
+  }
+
+  private next(): Token {
+    const token = this.peek()
+    if (token.type !== 'eof') this.index++
+    return token
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek()
+    return token.type === 'identifier' && token.value.toLowerCase() === keyword
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (!this.isKeyword(keyword)) return false
+    this.next()
+    return true
+  }
+
+  private expectKeyword(keyword: string): Token {
+    if (!this.isKeyword(keyword)) {
+      this.fail(`Expected ${keyword.toUpperCase()} but found ${this.describe(this.peek())}`)
+    }
+    return this.next()
+  }
+
+  private isOperator(operator: string): boolean {
+    const token = this.peek()
+    return token.type === 'operator' && token.value === operator
+  }
+
+  private matchOperator(operator: string): boolean {
+    if (!this.isOperator(operator)) return false
+    this.next()
+    return true
+  }
+
+  private expectOperator(operator: string): Token {
+    if (!this.isOperator(operator)) {
+      this.fail(`Expected "${operator}" but found ${this.describe(this.peek())}`)
+    }
+    return this.next()
+  }
+
+  private isIdentifierToken(token: Token): boolean {
+    if (token.type === 'quotedIdentifier') return true
+    return token.type === 'identifier' && !RESERVED.has(token.value.toLowerCase())
+  }
+
+  private expectIdentifier(what: string): string {
+    const token = this.peek()
+    if (!this.isIdentifierToken(token)) {
+      this.fail(`Expected ${what} but found ${this.describe(token)}`)
+    }
+    return this.next().value
+  }
+
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'eof': return 'end of query'
+      case 'string': return `string '${token.value}'`
+      case 'quotedIdentifier': return `\`${token.value}\``
+      default: return `"${token.value}"`
+    }
+  }
+
+  private fail(message: string, position: Position = this.peek().position): never {
+    throw new SqlError(message, position)
+  }
+}
+
+/**
+ * Parse a SELECT query into its AST. Throws SqlError with the line and column of the problem.
+ */
+export const parseQuery = (query: string): SelectStatement => {
+  return new Parser(query).parse()
+}
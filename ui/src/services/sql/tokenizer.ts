@@ -0,0 +1,141 @@
+import { Position } from './ast'
+import { SqlError } from './errors'
+
+export type TokenType =
+  | 'identifier'        // bare word, also used for keywords
+  | 'quotedIdentifier'  // `name`
+  | 'string'            // 'text', or "text" as the original engine accepted it
+  | 'number'
+  | 'operator'
+  | 'eof'
+
+export interface Token {
+  type: TokenType
+  value: string         // identifier/string contents without quotes, operator symbol, number text
+  position: Position
+  end: number           // offset just past the token in the query text
+}
+
+const NUMBER_PATTERN = /(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/y
+const IDENTIFIER_PATTERN = /[A-Za-z_][A-Za-z0-9_]*/y
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '||', '=', '<', '>', '(', ')', ',', '.', '*', '+', '-', '/', '%', ';']
+
+/**
+ * Split a query into tokens, tracking line and column for error reporting.
+ * Keywords are returned as identifiers; the parser decides what is reserved.
+ */
+export const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = []
+  let offset = 0
+  let line = 1
+  let column = 1
+
+  const position = (): Position => ({ line, column, offset })
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (query[offset] === '\n') {
+        line++
+        column = 1
+      } else {
+        column++
+      }
+      offset++
+    }
+  }
+
+  const matchAt = (pattern: RegExp): string | null => {
+    pattern.lastIndex = offset
+    const match = pattern.exec(query)
+    return match ? match[0] : null
+  }
+
+  const readQuoted = (quote: string, start: Position, what: string): string => {
+    advance(1)
+    let value = ''
+    while (true) {
+      if (offset >= query.length) {
+        throw new SqlError(`Unterminated ${what}`, start)
+      }
+      if (query[offset] === quote) {
+        // A doubled quote is an escaped quote character
+        if (query[offset + 1] === quote) {
+          value += quote
+          advance(2)
+          continue
+        }
+        advance(1)
+        return value
+      }
+      value += query[offset]
+      advance(1)
+    }
+  }
+
+  while (offset < query.length) {
+    const char = query[offset]
+
+    if (/\s/.test(char)) {
+      advance(1)
+      continue
+    }
+
+    // Line comment
+    if (char === '-' && query[offset + 1] === '-') {
+      while (offset < query.length && query[offset] !== '\n') advance(1)
+      continue
+    }
+
+    // Block comment
+    if (char === '/' && query[offset + 1] === '*') {
+      const start = position()
+      const close = query.indexOf('*/', offset + 2)
+      if (close === -1) {
+        throw new SqlError('Unterminated comment', start)
+      }
+      advance(close + 2 - offset)
+      continue
+    }
+
+    const start = position()
+
+    if (char === "'" || char === '"') {
+      const value = readQuoted(char, start, 'string literal')
+      tokens.push({ type: 'string', value, position: start, end: offset })
+      continue
+    }
+
+    if (char === '`') {
+      const value = readQuoted('`', start, 'quoted identifier')
+      tokens.push({ type: 'quotedIdentifier', value, position: start, end: offset })
+      continue
+    }
+
+    const number = matchAt(NUMBER_PATTERN)
+    if (number) {
+      advance(number.length)
+      tokens.push({ type: 'number', value: number, position: start, end: offset })
+      continue
+    }
+
+    const identifier = matchAt(IDENTIFIER_PATTERN)
+    if (identifier) {
+      advance(identifier.length)
+      tokens.push({ type: 'identifier', value: identifier, position: start, end: offset })
+      continue
+    }
+
+    const operator = OPERATORS.find(op => query.startsWith(op, offset))
+    if (operator) {
+      advance(operator.length)
+      tokens.push({ type: 'operator', value: operator, position: start, end: offset })
+      continue
+    }
+
+    throw new SqlError(`Unexpected character "${char}"`, start)
+  }
+
+  tokens.push({ type: 'eof', value: '', position: position(), end: offset })
+  return tokens
+}
@@ -0,0 +1,88 @@
+/**
+ * Value semantics shared by query evaluation.
+ * null (and a missing field) stands for SQL NULL / UNKNOWN throughout.
+ */
+
+const isNumericString = (value: any): boolean =>
+  typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))
+
+const comparable = (value: any): any => {
+  if (value instanceof Date) return value.getTime()
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (typeof value === 'object') return JSON.stringify(value)
+  return value
+}
+
+/**
+ * Order two non-null values. Numbers compare numerically with numeric strings,
+ * dates by time, and anything else of mixed type by its text.
+ */
+export const compareValues = (a: any, b: any): number => {
+  let left = comparable(a)
+  let right = comparable(b)
+
+  if (typeof left === 'number' && isNumericString(right)) right = Number(right)
+  if (typeof right === 'number' && isNumericString(left)) left = Number(left)
+
+  if (typeof left !== typeof right) {
+    left = String(left)
+    right = String(right)
+  }
+
+  if (left < right) return -1
+  if (left > right) return 1
+  return 0
+}
+
+/**
+ * Key of a non-null value in an index: a number for values that compare
+ * numerically, otherwise text. Values that compare equal share a key; a few that
+ * don't (such as '5' and '5.0') do too, so lookups are always rechecked.
+ */
+export const indexKey = (value: any): number | string => {
+  const key = comparable(value)
+  if (typeof key === 'number') return key
+  return isNumericString(key) ? Number(key) : String(key)
+}
+
+/**
+ * Truth value of a condition: true, false, or null for UNKNOWN.
+ */
+export const truthValue = (value: any): boolean | null => {
+  if (value == null) return null
+  if (typeof value === 'boolean') return value
+  return value !== 0 && value !== ''
+}
+
+/**
+ * Convert a LIKE pattern into an anchored, case-insensitive regular expression.
+ * % matches any run of characters and _ a single one; the escape character makes
+ * the following character literal.
+ */
+export const likeToRegExp = (pattern: string, escape?: string): RegExp => {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (escape && char === escape && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    } else if (char === '%') {
+      source += '.*'
+    } else if (char === '_') {
+      source += '.'
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`, 'is')
+}
+
+/**
+ * Numeric value for arithmetic, or undefined when the value is not a number.
+ */
+export const toNumber = (value: any): number | undefined => {
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value instanceof Date) return value.getTime()
+  if (isNumericString(value)) return Number(value)
+  return undefined
+}
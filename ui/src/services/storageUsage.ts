@@ -0,0 +1,105 @@
+import { createSignal } from 'solid-js'
+import { Project } from '../models/types'
+import { db } from './database'
+
+const WARN_RATIO = 0.8                // warn once this much of the quota is used
+const CHECK_INTERVAL = 30 * 1000
+
+export interface StorageEstimate {
+  usage: number
+  quota: number
+}
+
+export interface TableUsage {
+  id: string
+  title: string
+  rows: number
+  bytes: number
+  chunked: boolean
+}
+
+export interface ProjectUsage {
+  project: Project
+  bytes: number
+  tables: TableUsage[]
+  snapshotBytes: number
+  otherBytes: number  // views, functions and layouts
+}
+
+// Rough size of a stored value; close enough to compare tables and projects
+const sizeOf = (value: any): number => JSON.stringify(value)?.length || 0
+
+export const isQuotaError = (error: any): boolean =>
+  error?.name === 'QuotaExceededError' || /quota/i.test(error?.message || '')
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+}
+
+/**
+ * Tracks how much of the browser's storage quota is used, and measures what
+ * each project and table takes up.
+ */
+class StorageMonitor {
+  private state = createSignal<StorageEstimate | null>(null)
+  private lastCheck = 0
+
+  estimate = this.state[0]
+
+  nearlyFull = (): boolean => {
+    const estimate = this.estimate()
+    return !!estimate && estimate.quota > 0 && estimate.usage / estimate.quota >= WARN_RATIO
+  }
+
+  // Refresh the estimate; called after saves, so it's throttled unless forced
+  async check(force = false): Promise<void> {
+    if (!force && Date.now() - this.lastCheck < CHECK_INTERVAL) return
+    this.lastCheck = Date.now()
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return
+
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+      this.state[1]({ usage, quota })
+    } catch (error) {
+      console.warn('Failed to estimate storage usage:', error)
+    }
+  }
+
+  async projectUsage(project: Project): Promise<ProjectUsage> {
+    const [tables, views, functions, layouts, snapshots, snapshotChunks] = await Promise.all([
+      db.getTablesByProject(project.id),
+      db.getViewsByProject(project.id),
+      db.getFunctionsByProject(project.id),
+      db.getLayoutsByProject(project.id),
+      db.getSnapshotsByProject(project.id),
+      db.getSnapshotChunksByProject(project.id)
+    ])
+
+    const tableUsage = await Promise.all(tables.map(async (table): Promise<TableUsage> => {
+      const chunks = table.rowChunks ? await db.getRowChunks(table.id) : []
+      return {
+        id: table.id,
+        title: table.title,
+        rows: table.rowChunks ? chunks.reduce((n, chunk) => n + chunk.rows.length, 0) : table.rows.length,
+        bytes: sizeOf(table) + chunks.reduce((n, chunk) => n + sizeOf(chunk), 0),
+        chunked: !!table.rowChunks
+      }
+    }))
+
+    const snapshotBytes = snapshots.reduce((n, snapshot) => n + sizeOf(snapshot), 0) +
+      snapshotChunks.reduce((n, chunk) => n + sizeOf(chunk), 0)
+    const otherBytes = sizeOf(views) + sizeOf(functions) + sizeOf(layouts)
+    return {
+      project,
+      bytes: tableUsage.reduce((n, t) => n + t.bytes, 0) + snapshotBytes + otherBytes + sizeOf(project),
+      tables: tableUsage.sort((a, b) => b.bytes - a.bytes),
+      snapshotBytes,
+      otherBytes
+    }
+  }
+}
+
+export const storageMonitor = new StorageMonitor()
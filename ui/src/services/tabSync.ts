@@ -0,0 +1,47 @@
+import type { EntityChange } from './projectRepository'
+
+const CHANNEL_NAME = 'excess-sync'
+
+interface SyncMessage {
+  projectId: string
+  changes: EntityChange[]
+}
+
+type SyncListener = (projectId: string, changes: EntityChange[]) => void
+
+/**
+ * Tells other tabs of this app which entities were written, so a project open
+ * in several tabs stays in step. Messages are only sent after a write reached
+ * IndexedDB, and a tab never receives its own messages.
+ */
+class TabSync {
+  private channel: BroadcastChannel | null = null
+  private listeners = new Set<SyncListener>()
+
+  publish(projectId: string, changes: EntityChange[]) {
+    if (changes.length === 0) return
+    try {
+      this.open()?.postMessage({ projectId, changes } as SyncMessage)
+    } catch (error) {
+      console.warn('Failed to notify other tabs of changes:', error)
+    }
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.open()
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private open(): BroadcastChannel | null {
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME)
+      this.channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+        this.listeners.forEach(listener => listener(event.data.projectId, event.data.changes))
+      }
+    }
+    return this.channel
+  }
+}
+
+export const tabSync = new TabSync()
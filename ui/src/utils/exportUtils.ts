@@ -1,4 +1,5 @@
-import { Table } from '../models/types'
+import { Table, Project, ProjectData, Layout, CellType } from '../models/types'
+import { ProjectDocument, SCHEMA_VERSION, migrateDocument, reviveTimestamps } from '../services/migrations'
 
 export const exportToCSV = (table: Table, includeHeaders: boolean = true): string => {
   const rows: string[] = []
@@ -53,6 +54,211 @@ export const exportToJSON = (table: Table): string => {
   }, null, 2)
 }
 
+/**
+ * Split CSV text into its header and records. Quoted values may contain
+ * commas; empty values are null.
+ */
+export const parseCSV = (text: string): { headers: string[], records: (string | null)[][] } => {
+  const lines = text.trim().split('\n')
+  const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''))
+  const records = lines.slice(1).map(line => {
+    const values = line.match(/(".*?"|[^,]+)(?=\s*,|\s*$)/g) || []
+    return headers.map((_, i) => values[i]?.trim().replace(/^"|"$/g, '') || null)
+  })
+  return { headers, records }
+}
+
+/**
+ * Rows for an existing table from parsed CSV. Headers are matched to column
+ * names and values converted to the column's type; other headers are ignored,
+ * and columns missing from the file are left out of the rows.
+ */
+export const csvToRows = (table: Table, headers: string[], records: (string | null)[][]): Record<string, any>[] => {
+  const columns = table.columns
+    .map(column => ({ column, index: headers.indexOf(column.name) }))
+    .filter(({ index }) => index >= 0)
+
+  return records.map(record => {
+    const row: Record<string, any> = {}
+    columns.forEach(({ column, index }) => {
+      row[column.name] = parseCSVValue(record[index], column.type)
+    })
+    return row
+  })
+}
+
+// Values that don't fit the column type are kept as text, so validation can flag them
+const parseCSVValue = (value: string | null, type: CellType): any => {
+  if (value === null || value === 'null') return null  // exportToCSV writes null as "null"
+  switch (type) {
+    case 'number':
+      return isNaN(Number(value)) ? value : Number(value)
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value
+    case 'json':
+      try {
+        return JSON.parse(value)
+      } catch {
+        return value
+      }
+    default:
+      return value
+  }
+}
+
+const PROJECT_ARCHIVE_FORMAT = 'excess-project'
+
+/**
+ * A whole project in one file. `schemaVersion` is the stored format of the
+ * project data, so archives from older versions are migrated on import.
+ */
+export interface ProjectArchive extends ProjectData {
+  format: typeof PROJECT_ARCHIVE_FORMAT
+  schemaVersion: number
+  exportedAt: string
+  project: Project
+}
+
+export interface ImportConflict {
+  type: 'id' | 'name'  // the archive's project already exists here, or another has its name
+  project: Project
+}
+
+export const exportProject = (project: Project, data: ProjectData): string => {
+  const { schemaVersion, ...meta } = project
+  const archive: ProjectArchive = {
+    format: PROJECT_ARCHIVE_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: meta,
+    tables: data.tables,
+    views: data.views,
+    functions: data.functions,
+    layouts: data.layouts
+  }
+  return JSON.stringify(archive, null, 2)
+}
+
+/**
+ * Read an exported project, migrating it to the current format.
+ */
+export const parseProjectArchive = (text: string): ProjectDocument => {
+  let archive: any
+  try {
+    archive = JSON.parse(text)
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${(error as Error).message}`)
+  }
+
+  if (archive?.format !== PROJECT_ARCHIVE_FORMAT) {
+    throw new Error('The file is not an Excess project export')
+  }
+  if (typeof archive.project?.id !== 'string' || typeof archive.project.name !== 'string') {
+    throw new Error('The export has no project id or name')
+  }
+  for (const kind of ['tables', 'views', 'functions', 'layouts'] as const) {
+    const entities = archive[kind]
+    if (entities === undefined) continue
+    if (!Array.isArray(entities) || entities.some(e => typeof e?.id !== 'string')) {
+      throw new Error(`The export's ${kind} are malformed`)
+    }
+  }
+
+  return migrateDocument({
+    schemaVersion: typeof archive.schemaVersion === 'number' ? archive.schemaVersion : 0,
+    project: reviveTimestamps(archive.project),
+    tables: archive.tables?.map(reviveTimestamps),
+    views: archive.views,
+    functions: archive.functions,
+    layouts: archive.layouts
+  })
+}
+
+export const findImportConflicts = (document: ProjectDocument, projects: Project[]): ImportConflict[] => {
+  const conflicts: ImportConflict[] = []
+  const name = document.project.name.trim().toLowerCase()
+  for (const project of projects) {
+    if (project.id === document.project.id) {
+      conflicts.push({ type: 'id', project })
+    } else if (project.name.trim().toLowerCase() === name) {
+      conflicts.push({ type: 'name', project })
+    }
+  }
+  return conflicts
+}
+
+// A name not used by any of the projects, e.g. "Sales (2)"
+export const uniqueProjectName = (name: string, projects: Project[]): string => {
+  const taken = new Set(projects.map(p => p.name.trim().toLowerCase()))
+  let candidate = name
+  for (let n = 2; taken.has(candidate.trim().toLowerCase()); n++) {
+    candidate = `${name} (${n})`
+  }
+  return candidate
+}
+
+// Keys in layout element data that hold the id of a table, view or function
+const REFERENCE_KEYS = ['id', 'tableId', 'viewId', 'functionId', 'sourceId']
+
+const remapReferences = (value: any, ids: Map<string, string>): any => {
+  if (Array.isArray(value)) return value.map(v => remapReferences(v, ids))
+  if (typeof value !== 'object' || value === null || value instanceof Date) return value
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => [
+    key,
+    REFERENCE_KEYS.includes(key) && typeof v === 'string' && ids.has(v) ? ids.get(v) : remapReferences(v, ids)
+  ]))
+}
+
+/**
+ * Give an imported project and everything in it fresh ids, so it can sit next
+ * to the project it was exported from. Layout elements and foreign keys are
+ * pointed at the new ids; views and functions refer to tables by name and need
+ * no changes.
+ */
+export const remapProject = (
+  document: ProjectDocument,
+  options: { id?: string, name: string }
+): { project: Project, data: ProjectData } => {
+  const stamp = Date.now()
+  const projectId = options.id || `project-${stamp}`
+  const ids = new Map<string, string>()
+  const newId = (prefix: string, id: string) => {
+    const mapped = `${prefix}_${stamp}_${ids.size}`
+    ids.set(id, mapped)
+    return mapped
+  }
+
+  const tables = document.tables.map(t => ({ ...t, id: newId('table', t.id), projectId }))
+  tables.forEach(t => {
+    if (!t.foreignKeys) return
+    t.foreignKeys = t.foreignKeys.map(fk => ({ ...fk, referencedTableId: ids.get(fk.referencedTableId) || fk.referencedTableId }))
+  })
+  const views = document.views.map(v => ({ ...v, id: newId('view', v.id), projectId }))
+  const functions = document.functions.map(f => ({ ...f, id: newId('function', f.id), projectId }))
+  const layouts: Layout[] = document.layouts.map(l => ({
+    ...l,
+    id: newId('layout', l.id),
+    projectId,
+    elements: l.elements.map((element, i) => ({
+      ...element,
+      id: `elem_${stamp}_${i}`,
+      data: remapReferences(element.data, ids)
+    }))
+  }))
+
+  const now = new Date()
+  return {
+    project: {
+      ...document.project,
+      id: projectId,
+      name: options.name,
+      createdAt: now,
+      updatedAt: now
+    },
+    data: { tables, views, functions, layouts }
+  }
+}
+
 export const downloadFile = (content: string, filename: string, mimeType: string) => {
   const blob = new Blob([content], { type: mimeType })
   const url = URL.createObjectURL(blob)
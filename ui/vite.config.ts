@@ -1,10 +1,32 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import solidPlugin from 'vite-plugin-solid';
 import tailwindcss from '@tailwindcss/vite';
 import { fileURLToPath, URL } from 'node:url';
 
+// The function sandbox worker may load nothing, so functions have no network
+// access; 'unsafe-eval' lets it compile function bodies. Keep in step with
+// public/_headers. The dev server serves the worker as a module importing others.
+const SANDBOX_CSP = "default-src 'none'; script-src 'unsafe-eval'";
+const SANDBOX_DEV_CSP = "default-src 'none'; script-src 'self' 'unsafe-eval'";
+
+const sandboxCsp = (): Plugin => ({
+  name: 'sandbox-csp',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      if (req.url?.startsWith('/src/services/sandbox/worker.ts')) res.setHeader('Content-Security-Policy', SANDBOX_DEV_CSP);
+      next();
+    });
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use((req, res, next) => {
+      if (req.url?.startsWith('/assets/sandbox-worker-')) res.setHeader('Content-Security-Policy', SANDBOX_CSP);
+      next();
+    });
+  },
+});
+
 export default defineConfig({
-  plugins: [solidPlugin(), tailwindcss()],
+  plugins: [solidPlugin(), tailwindcss(), sandboxCsp()],
   server: {
     port: 5173,
   },
@@ -29,6 +51,13 @@ export default defineConfig({
     sourcemap: false,
     chunkSizeWarningLimit: 500,
   },
+  worker: {
+    rollupOptions: {
+      output: {
+        entryFileNames: 'assets/sandbox-worker-[hash].js',
+      },
+    },
+  },
   optimizeDeps: {
     include: ['solid-js'],
   },